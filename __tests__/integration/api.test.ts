@@ -1,16 +1,8 @@
 import Metigan from '../../src/lib/metigan';
 import { MetiganError } from '../../src/lib/errors';
 
-// Mock the HTTP utilities
-jest.mock('../../src/utils/http', () => ({
-  get: jest.fn(),
-  post: jest.fn(),
-  put: jest.fn(),
-  deleteRequest: jest.fn(),
-}));
-
-// Import the mocked module after mocking
-import * as httpUtils from '../../src/utils/http';
+// Mock HTTP utilities exposed through a transport
+import * as httpUtils from './http';
 
 // Mock console methods to avoid cluttering test output
 global.console.warn = jest.fn();
@@ -30,7 +22,8 @@ describe('Metigan SDK Integration Tests', () => {
       // Reduce retry count and delay for faster tests
       retryCount: 1,
       retryDelay: 10,
-      timeout: 1000
+      timeout: 1000,
+      transport: httpUtils.transport
     });
   });
 
@@ -83,6 +76,7 @@ describe('Metigan SDK Integration Tests', () => {
       expect(response).toEqual({
         success: true,
         messageId: 'test-message-id',
+        idempotencyKey: expect.any(String),
       });
       
       expect(httpUtils.post).toHaveBeenCalledWith(
@@ -133,6 +127,13 @@ describe('Metigan SDK Integration Tests', () => {
     }, 10000); // Increase timeout to 10 seconds
 
     test('should retry failed requests', async () => {
+      const retryingMetigan = new Metigan(API_KEY, {
+        disableLogs: true,
+        retryCount: 2,
+        retryDelay: 10,
+        transport: httpUtils.transport
+      });
+
       // First call fails, second succeeds
       (httpUtils.post as jest.Mock)
         .mockRejectedValueOnce({ 
@@ -151,11 +152,12 @@ describe('Metigan SDK Integration Tests', () => {
         content: '<p>Test Content</p>',
       };
 
-      const response = await metigan.sendEmail(emailOptions);
+      const response = await retryingMetigan.sendEmail(emailOptions);
       
       expect(response).toEqual({
         success: true,
         messageId: 'test-message-id',
+        idempotencyKey: expect.any(String),
       });
       
       expect(httpUtils.post).toHaveBeenCalledTimes(2);
@@ -185,6 +187,7 @@ describe('Metigan SDK Integration Tests', () => {
       expect(response).toEqual({
         success: true,
         messageId: 'test-template-id',
+        idempotencyKey: expect.any(String),
       });
       
       expect(httpUtils.post).toHaveBeenCalledWith(
@@ -385,6 +388,7 @@ describe('Metigan SDK Integration Tests', () => {
       expect(response).toEqual({
         success: true,
         messageId: 'test-attachment-id',
+        idempotencyKey: expect.any(String),
       });
       
       expect(httpUtils.post).toHaveBeenCalledWith(
@@ -429,6 +433,7 @@ describe('Metigan SDK Integration Tests', () => {
       expect(response).toEqual({
         success: true,
         messageId: 'test-custom-attachment-id',
+        idempotencyKey: expect.any(String),
       });
       
       expect(httpUtils.post).toHaveBeenCalledWith(
@@ -1,11 +1,33 @@
 import { ApiError, NetworkError } from '../../src/lib/errors';
 import { ErrorCode } from '../../src/lib/error-codes';
+import type { Transport, TransportRequest } from '../../src/utils/http';
 
 export const get = jest.fn();
 export const post = jest.fn();
 export const put = jest.fn();
 export const deleteRequest = jest.fn();
 
+// Transport that dispatches to the mocks above, resolving with whatever they return as the body
+export const transport: Transport = {
+  async request(request: TransportRequest): Promise<any> {
+    let data;
+    switch (request.method) {
+      case 'GET':
+        data = await get(request.url, request.headers);
+        break;
+      case 'PUT':
+        data = await put(request.url, request.data, request.headers);
+        break;
+      case 'DELETE':
+        data = await deleteRequest(request.url, request.headers);
+        break;
+      default:
+        data = await post(request.url, request.data, request.headers);
+    }
+    return { status: 200, data, headers: {} };
+  },
+};
+
 // Helper function to create API errors for testing
 export function createApiError(status: number, message: string): any {
   // Create a base ApiError
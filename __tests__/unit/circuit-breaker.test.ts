@@ -0,0 +1,109 @@
+import Metigan from "../../src/lib/metigan"
+import { CircuitBreaker } from "../../src/lib/circuit-breaker"
+import { MiddlewarePipeline } from "../../src/lib/middleware"
+import { ErrorCode } from "../../src/lib/error-codes"
+
+global.console.warn = jest.fn()
+
+describe("CircuitBreaker", () => {
+  test("should open after consecutive outages", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 })
+
+    breaker.onFailure({ code: ErrorCode.SERVICE_UNAVAILABLE, status: 503 })
+    expect(breaker.state).toBe("closed")
+
+    breaker.onFailure({ code: ErrorCode.NETWORK_ERROR })
+    expect(breaker.state).toBe("open")
+    expect(breaker.tryAcquire()).toBe(false)
+  })
+
+  test("should not count client errors as outages", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 })
+
+    breaker.onFailure({ code: ErrorCode.UNAUTHORIZED, status: 401 })
+
+    expect(breaker.state).toBe("closed")
+  })
+
+  test("should ignore cancellations and middleware failures", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 })
+    const pipeline = new MiddlewarePipeline()
+    pipeline.use({
+      onRequest: () => {
+        throw new TypeError("middleware bug")
+      },
+    })
+    const transport = { request: jest.fn() }
+    const middlewareError = await pipeline.execute({ method: "GET", url: "/" }, 1, transport).catch((error) => error)
+    const abortError = new Error("aborted")
+    abortError.name = "AbortError"
+
+    breaker.onFailure({ code: ErrorCode.NETWORK_ERROR })
+    breaker.onFailure(middlewareError)
+    breaker.onFailure(abortError)
+    expect(breaker.snapshot()).toMatchObject({ state: "closed", failures: 1 })
+
+    breaker.onFailure({ status: 501 })
+    expect(breaker.snapshot()).toMatchObject({ state: "closed", failures: 0 })
+  })
+
+  test("should count errors without status or code as outages, like the retry policy", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 })
+
+    breaker.onFailure(new TypeError("fetch failed"))
+    breaker.onFailure(new Error("socket hang up"))
+
+    expect(breaker.state).toBe("open")
+  })
+
+  test("should half-open after the reset timeout and close on a successful probe", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 20 })
+    breaker.onFailure({ status: 503 })
+    expect(breaker.snapshot()).toMatchObject({ state: "open", failures: 1, nextAttemptAt: expect.any(Number) })
+
+    await new Promise((resolve) => setTimeout(resolve, 30))
+
+    expect(breaker.state).toBe("half-open")
+    expect(breaker.tryAcquire()).toBe(true)
+    expect(breaker.tryAcquire()).toBe(false) // Only one probe at a time
+
+    breaker.onSuccess()
+    expect(breaker.snapshot()).toEqual({ state: "closed", failures: 0, openedAt: undefined, nextAttemptAt: undefined })
+  })
+
+  test("should reopen when the probe fails", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 10 })
+    breaker.onFailure({ status: 503 })
+    await new Promise((resolve) => setTimeout(resolve, 20))
+
+    expect(breaker.tryAcquire()).toBe(true)
+    breaker.onFailure({ status: 502 })
+
+    expect(breaker.state).toBe("open")
+  })
+
+  test("should fail fast per endpoint group in the Metigan client", async () => {
+    const transport = { request: jest.fn().mockRejectedValue({ status: 503 }) }
+    const metigan = new Metigan("test-api-key", {
+      disableLogs: true,
+      retryCount: 1,
+      transport,
+      circuitBreaker: { failureThreshold: 2, resetTimeout: 60000 },
+    })
+
+    await expect(metigan.getAudiences()).rejects.toThrow()
+    await expect(metigan.getAudiences()).rejects.toThrow()
+    await expect(metigan.getAudiences()).rejects.toMatchObject({ code: ErrorCode.CIRCUIT_OPEN })
+    expect(transport.request).toHaveBeenCalledTimes(2)
+
+    // Other groups are unaffected
+    transport.request.mockResolvedValueOnce({ status: 200, data: { success: true }, headers: {} })
+    await expect(metigan.listContacts({ audienceId: "audience-123" })).resolves.toEqual({ success: true })
+
+    expect(metigan.getCircuitBreakerState()).toMatchObject({
+      audiences: { state: "open", failures: 2 },
+      contacts: { state: "closed" },
+      email: { state: "closed" },
+    })
+  })
+})
@@ -0,0 +1,88 @@
+import Metigan from "../../src/lib/metigan"
+import { createMemoryLogSink } from "../../src/lib/log-sinks"
+import { ErrorCode } from "../../src/lib/error-codes"
+
+describe("Flush and Close", () => {
+  const audiencesResponse = { success: true, message: "OK", audiences: [] }
+
+  test("should send pending usage logs on flush", async () => {
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: audiencesResponse, headers: {} }),
+    }
+    const sink = createMemoryLogSink()
+    const metigan = new Metigan("test-api-key", { transport, logSink: sink })
+
+    await metigan.getAudiences()
+    expect(sink.entries).toEqual([])
+
+    await metigan.flush()
+    expect(sink.entries).toEqual([expect.objectContaining({ endpoint: "/audiences/list" })])
+  })
+
+  test("should wait for in-flight calls and their logs", async () => {
+    let respond: (value: unknown) => void = () => undefined
+    const transport = {
+      request: jest.fn().mockReturnValue(new Promise((resolve) => (respond = resolve))),
+    }
+    const sink = createMemoryLogSink()
+    const metigan = new Metigan("test-api-key", { transport, logSink: sink })
+
+    const call = metigan.getAudiences()
+    let flushed = false
+    const flush = metigan.flush().then(() => (flushed = true))
+
+    await new Promise((resolve) => setImmediate(resolve))
+    expect(flushed).toBe(false)
+
+    respond({ status: 200, data: audiencesResponse, headers: {} })
+    await flush
+    await expect(call).resolves.toMatchObject({ success: true })
+    expect(sink.entries).toHaveLength(1)
+  })
+
+  test("should resolve flush under constant traffic", async () => {
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: audiencesResponse, headers: {} }),
+    }
+    // Every write records a new usage log before it completes
+    const logSink = jest.fn(async () => {
+      await metigan.getAudiences()
+    })
+    const metigan: Metigan = new Metigan("test-api-key", { transport, logSink, logBatching: { flushInterval: 60000 } })
+
+    await metigan.getAudiences()
+    await metigan.flush()
+
+    expect(logSink).toHaveBeenCalledTimes(1)
+    await metigan.close()
+  })
+
+  test("should reject calls made after close", async () => {
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: audiencesResponse, headers: {} }),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport })
+
+    await metigan.close()
+    await metigan.close()
+
+    await expect(metigan.getAudiences()).rejects.toMatchObject({ code: ErrorCode.CLIENT_CLOSED })
+    expect(transport.request).not.toHaveBeenCalled()
+  })
+
+  test("should not keep the process alive for pending logs", async () => {
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: audiencesResponse, headers: {} }),
+    }
+    const metigan = new Metigan("test-api-key", { transport, logSink: createMemoryLogSink() })
+    const setTimeoutSpy = jest.spyOn(global, "setTimeout")
+
+    await metigan.getAudiences()
+
+    const timer = setTimeoutSpy.mock.results[setTimeoutSpy.mock.results.length - 1].value as NodeJS.Timeout
+    expect(timer.hasRef()).toBe(false)
+
+    setTimeoutSpy.mockRestore()
+    await metigan.close()
+  })
+})
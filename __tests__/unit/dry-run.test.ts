@@ -0,0 +1,101 @@
+import Metigan from "../../src/lib/metigan"
+import { ErrorCode } from "../../src/lib/error-codes"
+
+global.console.warn = jest.fn()
+
+describe("Dry-run Mode", () => {
+  const transport = { request: jest.fn() }
+  let metigan: Metigan
+
+  beforeEach(() => {
+    transport.request.mockReset()
+    metigan = new Metigan("test-api-key", { mode: "dry-run", transport, responseValidation: "strict" })
+  })
+
+  test("should simulate sends without calling the API", async () => {
+    const response: any = await metigan.sendEmail(
+      {
+        from: "Sender <sender@example.com>",
+        recipients: ["one@example.com", "two@example.com"],
+        subject: "Hello",
+        content: "<p>Hi</p>",
+        trackingId: "trk-123",
+      },
+      { idempotencyKey: "key-1" },
+    )
+
+    expect(transport.request).not.toHaveBeenCalled()
+    expect(response).toMatchObject({
+      success: true,
+      recipientCount: 2,
+      successfulEmails: [
+        { recipient: "one@example.com", trackingId: "trk-123" },
+        { recipient: "two@example.com", trackingId: "trk-123" },
+      ],
+      idempotencyKey: "key-1",
+    })
+    expect(response.dryRun).toEqual({
+      method: "POST",
+      url: "https://metigan-emails-api.savanapoint.com/api/end/email",
+      headers: expect.objectContaining({ "x-api-key": "***", Authorization: "***", "Idempotency-Key": "key-1" }),
+      data: {
+        from: "Sender <sender@example.com>",
+        recipients: ["one@example.com", "two@example.com"],
+        subject: "Hello",
+        content: "<p>Hi</p>",
+        trackingId: "trk-123",
+      },
+    })
+  })
+
+  test("should not expose the API key", async () => {
+    const events: unknown[] = []
+    metigan.on("sent", (event) => {
+      events.push(event)
+    })
+
+    const response: any = await metigan.sendEmail({ from: "sender@example.com", recipients: ["one@example.com"], subject: "Hi", content: "Hi" })
+
+    expect(JSON.stringify(response.dryRun)).not.toContain("test-api-key")
+    expect(JSON.stringify(events)).not.toContain("test-api-key")
+  })
+
+  test("should still run local validation", async () => {
+    await expect(
+      metigan.sendEmail({ from: "sender@example.com", recipients: ["not-an-email"], subject: "Hi", content: "Hi" }),
+    ).rejects.toMatchObject({ code: ErrorCode.INVALID_RECIPIENT })
+    await expect(metigan.createAudience({ name: "" })).rejects.toThrow()
+
+    expect(transport.request).not.toHaveBeenCalled()
+  })
+
+  test("should simulate contact and audience mutations", async () => {
+    const created: any = await metigan.createContacts(["a@example.com"], { createContact: true, audienceId: "aud-1" })
+    expect(created).toMatchObject({ contactsCreated: 1, contacts: [{ email: "a@example.com", success: true }] })
+    expect(created.dryRun.data).toEqual({ emails: ["a@example.com"], audienceId: "aud-1", fields: {} })
+
+    const updated: any = await metigan.updateContact("a@example.com", { audienceId: "aud-1", fields: { plan: "pro" } })
+    expect(updated.contact).toMatchObject({ email: "a@example.com", updated: true, fields: { plan: "pro" } })
+
+    const deleted: any = await metigan.deleteContact("a@example.com", "aud-1")
+    expect(deleted).toMatchObject({ email: "a@example.com", audienceId: "aud-1", deleted: true })
+    expect(deleted.dryRun.method).toBe("DELETE")
+
+    const audience: any = await metigan.createAudience({ name: "Newsletter" })
+    expect(audience.audience).toMatchObject({ id: expect.stringMatching(/^dry-run-/), name: "Newsletter" })
+
+    await expect(metigan.updateAudience("aud-1", { name: "Digest" })).resolves.toMatchObject({
+      audience: { id: "aud-1", name: "Digest" },
+    })
+    await expect(metigan.deleteAudience("aud-1")).resolves.toMatchObject({ id: "aud-1", deleted: true })
+
+    expect(transport.request).not.toHaveBeenCalled()
+  })
+
+  test("should let reads reach the API", async () => {
+    transport.request.mockResolvedValue({ status: 200, data: { success: true, message: "OK", audiences: [] }, headers: {} })
+
+    await expect(metigan.getAudiences()).resolves.toEqual({ success: true, message: "OK", audiences: [] })
+    expect(transport.request).toHaveBeenCalledTimes(1)
+  })
+})
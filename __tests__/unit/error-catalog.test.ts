@@ -0,0 +1,48 @@
+import { ErrorCode } from "../../src/lib/error-codes"
+import { ErrorHints, getErrorCatalog, getErrorInfo, isRetryableCode } from "../../src/lib/error-catalog"
+
+describe("Error Catalog", () => {
+  test("should describe an error code", () => {
+    expect(getErrorInfo(ErrorCode.CONTACT_NOT_FOUND)).toEqual({
+      code: ErrorCode.CONTACT_NOT_FOUND,
+      name: "CONTACT_NOT_FOUND",
+      category: "contact",
+      status: 404,
+      retryable: false,
+      message: "Contact not found",
+      hint: "Check the contact email and the audience ID",
+      docsAnchor: "met-1300-contact-not-found",
+    })
+    expect(getErrorInfo(ErrorCode.NETWORK_ERROR)).toMatchObject({ category: "api", retryable: true })
+    expect(getErrorInfo(ErrorCode.NETWORK_ERROR)?.status).toBeUndefined()
+    expect(getErrorInfo(9999 as ErrorCode)).toBeUndefined()
+  })
+
+  test("should localize messages and hints", () => {
+    expect(getErrorInfo(ErrorCode.AUDIENCE_NOT_FOUND, "pt-BR")).toMatchObject({
+      message: "Audiência não encontrada",
+      hint: "Verifique o ID da audiência",
+      docsAnchor: "met-1500-audience-not-found",
+    })
+  })
+
+  test("should list every code with a hint in every locale", () => {
+    const catalog = getErrorCatalog()
+    const codes = Object.values(ErrorCode).filter((value) => typeof value === "number")
+
+    expect(catalog.map((info) => info.code)).toEqual([...codes].sort((a, b) => Number(a) - Number(b)))
+    for (const hints of Object.values(ErrorHints)) {
+      expect(Object.keys(hints)).toHaveLength(codes.length)
+    }
+    expect(new Set(catalog.map((info) => info.docsAnchor)).size).toBe(catalog.length)
+  })
+
+  test("should derive retryability from the status, then the code", () => {
+    expect(isRetryableCode(ErrorCode.API_REQUEST_FAILED, 502)).toBe(true)
+    expect(isRetryableCode(ErrorCode.API_REQUEST_FAILED, 501)).toBe(false)
+    expect(isRetryableCode(ErrorCode.API_REQUEST_FAILED, 505)).toBe(false)
+    expect(isRetryableCode(ErrorCode.RATE_LIMIT_EXCEEDED, 400)).toBe(false)
+    expect(isRetryableCode(ErrorCode.TIMEOUT)).toBe(true)
+    expect(isRetryableCode(ErrorCode.CONTACT_NOT_FOUND)).toBe(false)
+  })
+})
@@ -0,0 +1,204 @@
+import Metigan from "../../src/lib/metigan"
+import {
+  ApiError,
+  AttachmentError,
+  AudienceError,
+  ConflictError,
+  ContactError,
+  MetiganError,
+  NetworkError,
+  TemplateError,
+  ValidationError,
+  createResponseError,
+} from "../../src/lib/errors"
+import { ErrorCode, fromServerErrorCode, getErrorCodeForStatus } from "../../src/lib/error-codes"
+
+describe("Error Mapping", () => {
+  describe("fromServerErrorCode", () => {
+    test("should translate names, numbers and aliases", () => {
+      expect(fromServerErrorCode("CONTACT_NOT_FOUND")).toBe(ErrorCode.CONTACT_NOT_FOUND)
+      expect(fromServerErrorCode("audience-already-exists")).toBe(ErrorCode.AUDIENCE_ALREADY_EXISTS)
+      expect(fromServerErrorCode("MET-1201")).toBe(ErrorCode.RATE_LIMIT_EXCEEDED)
+      expect(fromServerErrorCode(1401)).toBe(ErrorCode.TEMPLATE_NOT_FOUND)
+      expect(fromServerErrorCode("too_many_requests")).toBe(ErrorCode.RATE_LIMIT_EXCEEDED)
+    })
+
+    test("should ignore unknown codes", () => {
+      expect(fromServerErrorCode("Bad Request")).toBeUndefined()
+      expect(fromServerErrorCode(9999)).toBeUndefined()
+      expect(fromServerErrorCode(undefined)).toBeUndefined()
+    })
+  })
+
+  describe("getErrorCodeForStatus", () => {
+    test("should map 422 per resource", () => {
+      expect(getErrorCodeForStatus(422, "email")).toBe(ErrorCode.INVALID_RECIPIENT)
+      expect(getErrorCodeForStatus(422, "template")).toBe(ErrorCode.INVALID_TEMPLATE_VARIABLES)
+      expect(getErrorCodeForStatus(422, "contacts")).toBe(ErrorCode.INVALID_EMAIL_FORMAT)
+      expect(getErrorCodeForStatus(422, "audiences")).toBe(ErrorCode.MISSING_REQUIRED_FIELD)
+      expect(ApiError.fromStatus(422).code).toBe(ErrorCode.MISSING_REQUIRED_FIELD)
+    })
+
+    test("should map not found, conflicts and legal blocks", () => {
+      expect(getErrorCodeForStatus(404, "audiences")).toBe(ErrorCode.AUDIENCE_NOT_FOUND)
+      expect(getErrorCodeForStatus(404, "contacts")).toBe(ErrorCode.CONTACT_NOT_FOUND)
+      expect(getErrorCodeForStatus(409, "audiences")).toBe(ErrorCode.AUDIENCE_ALREADY_EXISTS)
+      expect(getErrorCodeForStatus(409)).toBe(ErrorCode.CONFLICT)
+      expect(getErrorCodeForStatus(451)).toBe(ErrorCode.LEGAL_BLOCKED)
+      expect(getErrorCodeForStatus(400, "email")).toBe(ErrorCode.EMAIL_SEND_FAILED)
+    })
+  })
+
+  describe("createResponseError", () => {
+    test("should pick the class from the code", () => {
+      expect(createResponseError(404, {}, "audiences")).toBeInstanceOf(AudienceError)
+      expect(createResponseError(404, {}, "contacts")).toBeInstanceOf(ContactError)
+      expect(createResponseError(404, {}, "template")).toBeInstanceOf(TemplateError)
+      expect(createResponseError(413, {}, "email")).toBeInstanceOf(AttachmentError)
+      expect(createResponseError(500, {}, "email")).toBeInstanceOf(ApiError)
+
+      const conflict = createResponseError(409, { error: "Conflict", message: "Duplicate" }, "audiences", { "x-request-id": "r1" })
+      expect(conflict).toBeInstanceOf(ConflictError)
+      expect(conflict).toBeInstanceOf(ApiError)
+      expect(conflict).toMatchObject({ code: ErrorCode.AUDIENCE_ALREADY_EXISTS, status: 409, message: "Duplicate" })
+    })
+
+    test("should prefer the server's error code", () => {
+      const error = createResponseError(400, { code: "TEMPLATE_NOT_FOUND", message: "No such template" }, "template")
+      expect(error).toBeInstanceOf(TemplateError)
+      expect(error.code).toBe(ErrorCode.TEMPLATE_NOT_FOUND)
+    })
+  })
+
+  describe("resource methods", () => {
+    const client = (status: number, data: unknown = {}) =>
+      new Metigan("test-api-key", {
+        disableLogs: true,
+        retryCount: 1,
+        transport: { request: jest.fn().mockRejectedValue({ status, data }) },
+      })
+
+    test("should tell a duplicate audience from a missing one", async () => {
+      const duplicate = await client(409).createAudience({ name: "Newsletter" }).catch((error) => error)
+      const missing = await client(404).getAudience("audience-1").catch((error) => error)
+
+      expect(duplicate).toBeInstanceOf(ConflictError)
+      expect(duplicate.code).toBe(ErrorCode.AUDIENCE_ALREADY_EXISTS)
+      expect(missing).toBeInstanceOf(AudienceError)
+      expect(missing.code).toBe(ErrorCode.AUDIENCE_NOT_FOUND)
+      expect(missing.message).toBe("Audience not found: audience-1")
+    })
+
+    test("should report legal blocks and server codes on sends", async () => {
+      const options = { from: "sender@example.com", recipients: ["one@example.com"], subject: "Hi", content: "Hi" }
+
+      await expect(client(451).sendEmail(options)).rejects.toMatchObject({ code: ErrorCode.LEGAL_BLOCKED })
+      await expect(client(400, { error: "Bad Request", code: "INVALID_RECIPIENT" }).sendEmail(options)).rejects.toMatchObject({
+        code: ErrorCode.INVALID_RECIPIENT,
+      })
+    })
+
+    test("should raise attachment and template errors client-side", async () => {
+      const metigan = new Metigan("test-api-key", { disableLogs: true, transport: { request: jest.fn() } })
+
+      expect(() => metigan.createTemplate("")).toThrow(TemplateError)
+      await expect(
+        metigan.sendEmail({
+          from: "sender@example.com",
+          recipients: ["one@example.com"],
+          subject: "Hi",
+          content: "Hi",
+          attachments: [{ unknown: true } as any],
+        }),
+      ).rejects.toBeInstanceOf(AttachmentError)
+      await expect(metigan.getAudience("")).rejects.toBeInstanceOf(MetiganError)
+    })
+  })
+
+  describe("serialization", () => {
+    test("should keep the cause and derive retryability", () => {
+      const cause = new Error("socket hang up")
+      const network = new MetiganError("Failed to connect", ErrorCode.NETWORK_ERROR, { cause })
+      const validation = new MetiganError("Subject is required", ErrorCode.MISSING_REQUIRED_FIELD, { path: "subject" })
+
+      expect(network.cause).toBe(cause)
+      expect(Object.keys(network)).not.toContain("cause")
+      expect(network.retryable).toBe(true)
+      expect(validation.retryable).toBe(false)
+      expect("cause" in validation).toBe(false)
+      expect(new ApiError("Busy", ErrorCode.API_REQUEST_FAILED, 503).retryable).toBe(true)
+      expect(new ApiError("Rejected", ErrorCode.API_REQUEST_FAILED, 400, undefined, { retryable: true }).retryable).toBe(true)
+    })
+
+    test("should round-trip through JSON", () => {
+      const inner = new NetworkError("Request timed out", ErrorCode.TIMEOUT)
+      const error = createResponseError(409, { message: "Duplicate" }, "audiences", { "x-request-id": "r1" }, undefined, inner)
+      error.details = { name: "Newsletter" }
+
+      const copy = MetiganError.fromJSON(JSON.parse(JSON.stringify(error)))
+
+      expect(copy).toBeInstanceOf(ConflictError)
+      expect(copy).toMatchObject({
+        name: "ConflictError",
+        message: "Duplicate",
+        code: ErrorCode.AUDIENCE_ALREADY_EXISTS,
+        status: 409,
+        retryable: false,
+        details: { name: "Newsletter" },
+        requestId: "r1",
+        data: { message: "Duplicate" },
+      })
+      expect(copy.stack).toBe(error.stack)
+      expect(copy.cause).toBeInstanceOf(NetworkError)
+      expect(copy.cause).toMatchObject({ code: ErrorCode.TIMEOUT, retryable: true })
+    })
+
+    test("should round-trip validation issues", () => {
+      const issues = [
+        { path: "recipients[0]", code: ErrorCode.INVALID_RECIPIENT, message: "Invalid recipient email format: bad" },
+        { path: "subject", code: ErrorCode.MISSING_REQUIRED_FIELD, message: "Subject is required" },
+      ]
+
+      const copy = MetiganError.fromJSON(JSON.parse(JSON.stringify(ValidationError.fromIssues(issues))))
+
+      expect(copy).toBeInstanceOf(ValidationError)
+      expect(copy).toMatchObject({ path: "recipients[0]", code: ErrorCode.INVALID_RECIPIENT, issues })
+    })
+
+    test("should keep plain causes and unknown names", () => {
+      const cause = Object.assign(new Error("read ECONNRESET"), { code: "ECONNRESET" })
+      const json = new MetiganError("Failed", ErrorCode.NETWORK_ERROR, { cause }).toJSON()
+      const copy = MetiganError.fromJSON({ ...json, name: "SomeFutureError" })
+
+      expect(json.cause).toMatchObject({ name: "Error", message: "read ECONNRESET", code: "ECONNRESET" })
+      expect(copy.constructor).toBe(MetiganError)
+      expect(copy.cause).toBeInstanceOf(Error)
+      expect(copy.cause).toMatchObject({ message: "read ECONNRESET", code: "ECONNRESET" })
+    })
+
+    test("should recognize errors from another copy of the package", () => {
+      let copy: typeof import("../../src/lib/errors") | undefined
+      jest.isolateModules(() => {
+        copy = require("../../src/lib/errors")
+      })
+      const foreign = new copy!.ConflictError("Duplicate")
+
+      expect(foreign.constructor).not.toBe(ConflictError)
+      expect(foreign instanceof MetiganError).toBe(true)
+      expect(foreign instanceof ApiError).toBe(true)
+      expect(foreign instanceof ConflictError).toBe(true)
+      expect(foreign instanceof ContactError).toBe(false)
+      expect(new Error("plain") instanceof MetiganError).toBe(false)
+    })
+
+    test("should not match parent errors against user subclasses", () => {
+      class MyError extends MetiganError {}
+      class MyApiError extends ApiError {}
+
+      expect(new MetiganError("x") instanceof MyError).toBe(false)
+      expect(new ApiError("x", ErrorCode.API_REQUEST_FAILED, 500) instanceof MyApiError).toBe(false)
+      expect(new MyApiError("x", ErrorCode.API_REQUEST_FAILED, 500) instanceof MyApiError).toBe(true)
+      expect(new MyApiError("x", ErrorCode.API_REQUEST_FAILED, 500) instanceof ApiError).toBe(true)
+    })
+  })
+})
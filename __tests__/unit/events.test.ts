@@ -0,0 +1,174 @@
+import Metigan from "../../src/lib/metigan"
+import { TypedEventEmitter } from "../../src/lib/events"
+import { ErrorCode } from "../../src/lib/error-codes"
+
+describe("Lifecycle Events", () => {
+  const emailOptions = {
+    from: "sender@example.com",
+    recipients: ["one@example.com"],
+    subject: "Hello",
+    content: "<p>Hi</p>",
+  }
+  const sentResponse = {
+    success: true,
+    message: "Sent",
+    successfulEmails: [{ success: true, recipient: "one@example.com", messageId: "msg-1", trackingId: "trk-1" }],
+    failedEmails: [],
+    recipientCount: 1,
+    hasAttachments: false,
+    attachmentsCount: 0,
+  }
+
+  test("should emit request, retry, response and sent events", async () => {
+    const transport = {
+      request: jest
+        .fn()
+        .mockRejectedValueOnce({ status: 503 })
+        .mockResolvedValueOnce({ status: 200, data: sentResponse, headers: {} }),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 2, retryDelay: 1, transport })
+    const events: string[] = []
+    const sent = jest.fn()
+
+    metigan
+      .on("request", ({ attempt }) => {
+        events.push(`request:${attempt}`)
+      })
+      .on("retry", ({ attempt, error }) => {
+        events.push(`retry:${attempt}:${error.status}`)
+      })
+      .on("response", ({ attempt, status }) => {
+        events.push(`response:${attempt}:${status}`)
+      })
+      .on("sent", sent)
+
+    await metigan.sendEmail(emailOptions, { idempotencyKey: "key-1" })
+
+    expect(events).toEqual(["request:1", "retry:1:503", "request:2", "response:2:200"])
+    expect(sent).toHaveBeenCalledWith({
+      operation: "sendEmail",
+      response: { ...sentResponse, idempotencyKey: "key-1" },
+      recipients: ["one@example.com"],
+      idempotencyKey: "key-1",
+    })
+  })
+
+  test("should keep response metadata on redacted payloads", async () => {
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: sentResponse, headers: { "x-request-id": "req-1" } }),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, redaction: "mask", transport })
+    const sent = jest.fn()
+    metigan.on("sent", sent)
+
+    const response = await metigan.sendEmail(emailOptions)
+
+    expect(response.meta?.requestId).toBe("req-1")
+    expect(sent.mock.calls[0][0].response.meta).toEqual(response.meta)
+    expect(sent.mock.calls[0][0].response.successfulEmails[0].recipient).toBe("o***@example.com")
+  })
+
+  test("should not copy payloads without handlers", async () => {
+    const transport = { request: jest.fn().mockResolvedValue({ status: 200, data: sentResponse, headers: {} }) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, redaction: "mask", transport })
+    const deep = jest.spyOn((metigan as any).redactor, "deep")
+
+    await metigan.sendEmail(emailOptions)
+
+    expect(deep).not.toHaveBeenCalledWith(expect.objectContaining({ operation: "sendEmail" }))
+  })
+
+  test("should emit failed with the error thrown to the caller", async () => {
+    const transport = { request: jest.fn().mockRejectedValue({ status: 400 }) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport })
+    const failed = jest.fn()
+    metigan.on("failed", failed)
+
+    const error = await metigan.sendEmail(emailOptions).catch((caught) => caught)
+
+    expect(failed).toHaveBeenCalledWith({ operation: "sendEmail", error })
+    expect(error.code).toBe(ErrorCode.EMAIL_SEND_FAILED)
+  })
+
+  test("should not emit failed for existing contacts the send recovers from", async () => {
+    const transport = {
+      request: jest
+        .fn()
+        .mockRejectedValueOnce({ status: 409, data: { message: "Contact already exists" } })
+        .mockResolvedValue({ status: 200, data: sentResponse, headers: {} }),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport })
+    const failed = jest.fn()
+    metigan.on("failed", failed)
+
+    await expect(
+      metigan.sendEmailAndCreateContacts({ ...emailOptions, contactOptions: { createContact: true, audienceId: "audience-1" } }),
+    ).resolves.toMatchObject({ success: true })
+
+    expect(failed).not.toHaveBeenCalled()
+  })
+
+  test("should emit contactCreated for each confirmed contact", async () => {
+    const transport = {
+      request: jest.fn().mockResolvedValue({
+        status: 200,
+        data: {
+          success: true,
+          contacts: [
+            { email: "new@example.com", audienceId: "audience-1", success: true },
+            { email: "old@example.com", audienceId: "audience-1", success: false, error: "Contact already exists" },
+          ],
+        },
+        headers: {},
+      }),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport })
+    const created = jest.fn()
+    metigan.on("contactCreated", created)
+
+    await metigan.createContacts(["new@example.com", "old@example.com"], { createContact: true, audienceId: "audience-1" })
+
+    expect(created).toHaveBeenCalledTimes(1)
+    expect(created).toHaveBeenCalledWith({ email: "new@example.com", audienceId: "audience-1" })
+  })
+
+  test("should isolate handler errors and support unsubscribing", async () => {
+    const transport = { request: jest.fn().mockResolvedValue({ status: 200, data: sentResponse, headers: {} }) }
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport, logger })
+    const removed = jest.fn()
+
+    metigan
+      .on("request", () => {
+        throw new Error("metrics backend down")
+      })
+      .on("sent", async () => {
+        throw new Error("audit log down")
+      })
+      .on("response", removed)
+      .off("response", removed)
+
+    await expect(metigan.sendEmail(emailOptions)).resolves.toMatchObject({ success: true })
+    await new Promise((resolve) => setImmediate(resolve))
+
+    expect(removed).not.toHaveBeenCalled()
+    expect(logger.warn).toHaveBeenCalledWith('Handler for "request" event failed: metrics backend down')
+    expect(logger.warn).toHaveBeenCalledWith('Handler for "sent" event failed: audit log down')
+  })
+
+  test("should call handlers in registration order", () => {
+    const emitter = new TypedEventEmitter<{ ping: number }>()
+    const calls: string[] = []
+    emitter.on("ping", (n) => {
+      calls.push(`a${n}`)
+    })
+    emitter.on("ping", (n) => {
+      calls.push(`b${n}`)
+    })
+
+    emitter.emit("ping", 1)
+
+    expect(calls).toEqual(["a1", "b1"])
+    expect(emitter.listenerCount("ping")).toBe(2)
+  })
+})
@@ -0,0 +1,213 @@
+import Metigan from "../../src/lib/metigan"
+import { MetiganFake } from "../../src/lib/fake"
+import { ErrorCode } from "../../src/lib/error-codes"
+
+global.console.warn = jest.fn()
+
+describe("MetiganFake", () => {
+  let fake: MetiganFake
+  let metigan: Metigan
+
+  beforeEach(() => {
+    fake = new MetiganFake()
+    // Strict validation proves the fake answers with the documented response shapes
+    metigan = fake.createClient({ responseValidation: "strict", retryCount: 1 })
+  })
+
+  test("should record sent emails and replay idempotent sends", async () => {
+    const options = {
+      from: "sender@example.com",
+      recipients: ["one@example.com", "two@example.com"],
+      subject: "Hello",
+      content: "<p>Hi</p>",
+    }
+
+    const first: any = await metigan.sendEmail(options, { idempotencyKey: "key-1" })
+    const replay: any = await metigan.sendEmail(options, { idempotencyKey: "key-1" })
+
+    expect(first.recipientCount).toBe(2)
+    expect(first.successfulEmails).toHaveLength(2)
+    expect(replay.successfulEmails[0].messageId).toBe(first.successfulEmails[0].messageId)
+    expect(fake.emails).toHaveLength(1)
+    expect(fake.emails[0]).toMatchObject({ subject: "Hello", idempotencyKey: "key-1" })
+  })
+
+  test("should record copy recipients and reply-to address", async () => {
+    await metigan.sendEmailWithTemplate({
+      from: "sender@example.com",
+      recipients: ["one@example.com"],
+      cc: ["manager@example.com"],
+      bcc: ["audit@example.com"],
+      replyTo: "support@example.com",
+      subject: "Hello",
+      templateId: "template-1",
+    })
+
+    expect(fake.emails[0]).toMatchObject({
+      cc: ["manager@example.com"],
+      bcc: ["audit@example.com"],
+      replyTo: "support@example.com",
+    })
+  })
+
+  test("should reject invalid sends like the API", async () => {
+    const direct = new MetiganFake()
+
+    await expect(
+      direct.transport.request({
+        method: "POST",
+        url: `${direct.baseUrl}/api/end/email`,
+        data: { from: "sender@example.com", recipients: [], subject: "Hi", content: "Hi" },
+        headers: { "x-api-key": "key" },
+      }),
+    ).rejects.toMatchObject({ status: 400, code: ErrorCode.MISSING_REQUIRED_FIELD })
+  })
+
+  test("should manage audiences and reject duplicates with 409", async () => {
+    const created: any = await metigan.createAudience({ name: "Newsletter", description: "Weekly" })
+    const audienceId = created.audience.id
+
+    await expect(metigan.createAudience({ name: "newsletter" })).rejects.toThrow()
+    await expect(metigan.getAudience(audienceId)).resolves.toMatchObject({ audience: { name: "Newsletter" } })
+
+    await metigan.updateAudience(audienceId, { name: "Digest" })
+    expect(fake.getAudiences()).toEqual([expect.objectContaining({ id: audienceId, name: "Digest" })])
+
+    await metigan.deleteAudience(audienceId)
+    await expect(metigan.getAudience(audienceId)).rejects.toThrow(`Audience not found: ${audienceId}`)
+  })
+
+  test("should store, paginate, filter and delete contacts", async () => {
+    const audience = fake.addAudience({ name: "Customers" })
+    const emails = Array.from({ length: 5 }, (_, i) => `user${i}@example.com`)
+
+    const created: any = await metigan.createContacts(emails, {
+      createContact: true,
+      audienceId: audience.id,
+      contactFields: { plan: "free" },
+    })
+    expect(created.contactsCreated).toBe(5)
+    await metigan.updateContact("user0@example.com", { audienceId: audience.id, fields: { plan: "pro" } })
+
+    const page: any = await metigan.listContacts({ audienceId: audience.id, page: 2, limit: 2 })
+    expect(page.contacts.map((contact: any) => contact.email)).toEqual(["user2@example.com", "user3@example.com"])
+    expect(page.pagination).toEqual({ page: 2, limit: 2, total: 5, pages: 3 })
+
+    const pro: any = await metigan.listContacts({ audienceId: audience.id, filters: { plan: "pro" } })
+    expect(pro.contacts).toEqual([expect.objectContaining({ email: "user0@example.com" })])
+
+    await metigan.deleteContact("user4@example.com", audience.id)
+    await expect(metigan.getContact("user4@example.com", audience.id)).rejects.toMatchObject({
+      code: ErrorCode.CONTACT_NOT_FOUND,
+    })
+  })
+
+  test("should answer 409 when every contact already exists", async () => {
+    const audience = fake.addAudience({ name: "Customers" })
+    fake.addContact(audience.id, "existing@example.com")
+
+    await expect(
+      fake.transport.request({
+        method: "POST",
+        url: `${fake.baseUrl}/api/end/contacts`,
+        data: { emails: ["existing@example.com"], audienceId: audience.id },
+        headers: { "x-api-key": "key" },
+      }),
+    ).rejects.toMatchObject({ status: 409 })
+  })
+
+  test("should enforce the rate limit with Retry-After", async () => {
+    const limited = new MetiganFake({ rateLimit: { limit: 1, windowMs: 60000 } })
+    const client = limited.createClient({ retryCount: 1 })
+
+    await client.getAudiences()
+
+    await expect(
+      limited.transport.request({ method: "GET", url: `${limited.baseUrl}/api/end/audiences`, headers: { "x-api-key": "key" } }),
+    ).rejects.toMatchObject({ status: 429, headers: expect.objectContaining({ "retry-after": "60" }) })
+  })
+
+  test("should inject failures that the client retries", async () => {
+    const client = fake.createClient({ retryCount: 2, retryDelay: 1 })
+    fake.failNext(503)
+
+    await expect(client.getAudiences()).resolves.toMatchObject({ success: true, audiences: [] })
+  })
+
+  test("should reject unknown API keys", async () => {
+    const secured = new MetiganFake({ apiKey: "secret" })
+    const client = new Metigan("wrong", { disableLogs: true, retryCount: 1, transport: secured.transport })
+
+    await expect(client.getAudiences()).rejects.toMatchObject({ code: ErrorCode.UNAUTHORIZED, status: 401 })
+  })
+
+  test("should serve over HTTP for clients using baseUrl", async () => {
+    const baseUrl = await fake.listen()
+    try {
+      const client = new Metigan("fake-api-key", { disableLogs: true, retryCount: 1, baseUrl })
+
+      await client.createAudience({ name: "Over HTTP" })
+
+      expect(fake.getAudiences()).toEqual([expect.objectContaining({ name: "Over HTTP" })])
+    } finally {
+      await fake.close()
+    }
+  })
+
+  test("should answer malformed bodies with 400 over HTTP", async () => {
+    fake.addAudience({ id: "aud-1", name: "Newsletter" })
+    const baseUrl = await fake.listen()
+    try {
+      const post = (path: string, body: unknown) =>
+        fetch(`${baseUrl}${path}`, {
+          method: "POST",
+          headers: { "x-api-key": "fake-api-key", "content-type": "application/json" },
+          body: JSON.stringify(body),
+        })
+
+      const template = await post("/api/end/email", {
+        from: "sender@example.com",
+        recipients: ["one@example.com"],
+        subject: "Hi",
+        useTemplate: "true",
+        templateId: "t1",
+        templateVariables: "{not json",
+      })
+      const contacts = await post("/api/end/contacts", { audienceId: "aud-1", createContact: true, emails: [["a@example.com"]] })
+
+      expect(template.status).toBe(400)
+      expect(await template.json()).toMatchObject({ message: "templateVariables must be a JSON object" })
+      expect(contacts.status).toBe(400)
+      expect(fake.emails).toEqual([])
+
+      jest.spyOn(fake as any, "dispatch").mockImplementationOnce(() => {
+        throw new Error("boom")
+      })
+      const crashed = await post("/api/end/audiences", { name: "Crash" })
+      expect(crashed.status).toBe(400)
+      expect(await crashed.json()).toMatchObject({ message: "Malformed request: boom" })
+    } finally {
+      await fake.close()
+    }
+  })
+
+  test("should answer handler failures with 400 in process", async () => {
+    jest.spyOn(fake as any, "dispatch").mockImplementationOnce(() => {
+      throw new Error("boom")
+    })
+
+    await expect(metigan.createAudience({ name: "Crash" })).rejects.toMatchObject({ status: 400 })
+  })
+
+  test("should answer malformed paths with 400 over HTTP", async () => {
+    const baseUrl = await fake.listen()
+    try {
+      const response = await fetch(`${baseUrl}/api/end/contacts/%E0/aud-1`, { headers: { "x-api-key": "fake-api-key" } })
+
+      expect(response.status).toBe(400)
+      expect(await response.json()).toMatchObject({ success: false, message: "Malformed URL path: /api/end/contacts/%E0/aud-1" })
+    } finally {
+      await fake.close()
+    }
+  })
+})
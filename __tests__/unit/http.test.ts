@@ -0,0 +1,127 @@
+import { createAxiosTransport, createFetchTransport, processHttpError } from "../../src/utils/http"
+import { ApiError, NetworkError } from "../../src/lib/errors"
+import { ErrorCode } from "../../src/lib/error-codes"
+
+function fakeResponse(status: number, body: any, headers: Record<string, string> = {}): any {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: "",
+    headers: new Map(Object.entries(headers)),
+    text: async () => (typeof body === "string" ? body : JSON.stringify(body)),
+  }
+}
+
+describe("HTTP Transports", () => {
+  describe("processHttpError", () => {
+    test("should map HTTP errors to ApiError", () => {
+      const error = processHttpError({ status: 429, data: { message: "Slow down" }, message: "" })
+
+      expect(error).toBeInstanceOf(ApiError)
+      expect(error.code).toBe(ErrorCode.RATE_LIMIT_EXCEEDED)
+      expect((error as ApiError).status).toBe(429)
+      expect(error.message).toContain("Slow down")
+    })
+
+    test("should map timeouts and network failures to NetworkError", () => {
+      expect(processHttpError({ name: "TimeoutError" }).code).toBe(ErrorCode.TIMEOUT)
+      expect(processHttpError(new TypeError("fetch failed"))).toBeInstanceOf(NetworkError)
+    })
+
+    test("should map Node.js connection errors to NETWORK_ERROR", async () => {
+      for (const code of ["ECONNREFUSED", "ENOTFOUND", "ECONNRESET", "EAI_AGAIN"]) {
+        const failure = Object.assign(new Error(`connect ${code}`), { code })
+        const transport = createFetchTransport(jest.fn().mockRejectedValue(failure))
+
+        const error = await transport.request({ method: "GET", url: "https://api.example/audiences" }).catch((error) => error)
+
+        expect(error).toBeInstanceOf(NetworkError)
+        expect(error.code).toBe(ErrorCode.NETWORK_ERROR)
+      }
+      expect(processHttpError(Object.assign(new Error("disk full"), { code: "ENOSPC" })).code).toBe(ErrorCode.UNEXPECTED_ERROR)
+    })
+
+    test("should pass through already processed errors", () => {
+      const error = new NetworkError("offline")
+      expect(processHttpError(error)).toBe(error)
+    })
+  })
+
+  describe("createFetchTransport", () => {
+    test("should send JSON and parse the response", async () => {
+      const fetchMock = jest.fn().mockResolvedValue(fakeResponse(200, { success: true }, { "X-Request-Id": "req-1" }))
+      const transport = createFetchTransport(fetchMock)
+
+      const response = await transport.request({
+        method: "POST",
+        url: "https://example.com/api",
+        data: { hello: "world" },
+        headers: { "Content-Type": "application/json" },
+      })
+
+      expect(response).toEqual({ status: 200, data: { success: true }, headers: { "x-request-id": "req-1" } })
+      expect(fetchMock).toHaveBeenCalledWith(
+        "https://example.com/api",
+        expect.objectContaining({ method: "POST", body: JSON.stringify({ hello: "world" }) }),
+      )
+    })
+
+    test("should reject non-2xx responses with ApiError", async () => {
+      const fetchMock = jest.fn().mockResolvedValue(fakeResponse(401, { error: "Unauthorized" }))
+      const transport = createFetchTransport(fetchMock)
+
+      await expect(transport.request({ method: "GET", url: "https://example.com/api" })).rejects.toMatchObject({
+        code: ErrorCode.UNAUTHORIZED,
+        status: 401,
+      })
+    })
+
+    test("should reject network failures with NetworkError", async () => {
+      const fetchMock = jest.fn().mockRejectedValue(new TypeError("fetch failed"))
+      const transport = createFetchTransport(fetchMock)
+
+      await expect(transport.request({ method: "GET", url: "https://example.com/api" })).rejects.toMatchObject({
+        code: ErrorCode.NETWORK_ERROR,
+      })
+    })
+
+    test("should distinguish timeouts from caller cancellation", async () => {
+      const hangingFetch = jest.fn((_url: string, init: any) =>
+        new Promise((_resolve, reject) => {
+          init.signal.addEventListener("abort", () => {
+            const error = new Error("aborted")
+            error.name = "AbortError"
+            reject(error)
+          })
+        }),
+      )
+      const transport = createFetchTransport(hangingFetch as any)
+
+      await expect(transport.request({ method: "GET", url: "https://example.com/api", timeout: 10 })).rejects.toMatchObject({
+        code: ErrorCode.TIMEOUT,
+      })
+
+      const controller = new AbortController()
+      const promise = transport.request({ method: "GET", url: "https://example.com/api", signal: controller.signal })
+      controller.abort()
+
+      await expect(promise).rejects.toMatchObject({ code: ErrorCode.REQUEST_ABORTED })
+    })
+  })
+
+  describe("createAxiosTransport", () => {
+    test("should delegate to the axios instance", async () => {
+      const instance: any = {
+        request: jest.fn().mockResolvedValue({ status: 201, data: { id: "1" }, headers: { "X-Request-Id": "req-2" } }),
+      }
+      const transport = createAxiosTransport(instance)
+
+      const response = await transport.request({ method: "PUT", url: "https://example.com/api", data: { a: 1 }, timeout: 50 })
+
+      expect(response).toEqual({ status: 201, data: { id: "1" }, headers: { "x-request-id": "req-2" } })
+      expect(instance.request).toHaveBeenCalledWith(
+        expect.objectContaining({ method: "PUT", url: "https://example.com/api", data: { a: 1 }, timeout: 50 }),
+      )
+    })
+  })
+})
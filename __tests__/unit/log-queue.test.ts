@@ -0,0 +1,174 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import Metigan from "../../src/lib/metigan"
+import { LogQueue, resolveLogBatching } from "../../src/lib/log-queue"
+import { createMemoryLogSink, type UsageLogEntry } from "../../src/lib/log-sinks"
+import { ErrorCode } from "../../src/lib/error-codes"
+
+describe("Log Batching", () => {
+  const audiencesResponse = { success: true, message: "OK", audiences: [] }
+  const entry = (endpoint: string): UsageLogEntry => ({
+    userId: "user-1",
+    endpoint,
+    status: "200",
+    statusLabel: "200 - Ok",
+    method: "GET",
+    userAgent: "SDK",
+    timestamp: "2024-01-01T00:00:00.000Z",
+  })
+
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "metigan-queue-"))
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  describe("LogQueue", () => {
+    test("should drop the oldest entry when full by default", () => {
+      const queue = new LogQueue(resolveLogBatching({ maxQueueSize: 2 }))
+
+      queue.push(entry("/a"))
+      queue.push(entry("/b"))
+      queue.push(entry("/c"))
+
+      expect(queue.peek(10).map((e) => e.endpoint)).toEqual(["/b", "/c"])
+      expect(queue.droppedCount).toBe(1)
+    })
+
+    test("should drop the newest entry with drop-newest", () => {
+      const queue = new LogQueue(resolveLogBatching({ maxQueueSize: 2, overflow: "drop-newest" }))
+
+      queue.push(entry("/a"))
+      queue.push(entry("/b"))
+      queue.push(entry("/c"))
+
+      expect(queue.peek(10).map((e) => e.endpoint)).toEqual(["/a", "/b"])
+    })
+
+    test("should persist the queue and load it on startup", async () => {
+      const persistPath = path.join(dir, "queue.jsonl")
+      const first = new LogQueue(resolveLogBatching({ persistPath }))
+      first.push(entry("/a"))
+      first.push(entry("/b"))
+      first.remove(first.peek(1))
+      await first.settled()
+
+      const second = new LogQueue(resolveLogBatching({ persistPath }))
+      await second.ready
+
+      expect(second.peek(10).map((e) => e.endpoint)).toEqual(["/b"])
+    })
+
+    test("should only remove delivered entries", () => {
+      const queue = new LogQueue(resolveLogBatching({ maxQueueSize: 2 }))
+      queue.push(entry("/a"))
+      queue.push(entry("/b"))
+
+      const batch = queue.peek(2)
+      queue.push(entry("/c"))
+      queue.remove(batch)
+
+      expect(queue.peek(10).map((e) => e.endpoint)).toEqual(["/c"])
+    })
+  })
+
+  test("should send full batches right away and split the queue by batch size", async () => {
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: audiencesResponse, headers: {} }),
+    }
+    const logSink = jest.fn()
+    const metigan = new Metigan("test-api-key", {
+      transport,
+      logSink,
+      logBatching: { batchSize: 2, flushInterval: 60000 },
+    })
+
+    await metigan.getAudiences()
+    await metigan.getAudiences()
+    await metigan.getAudiences()
+    await new Promise((resolve) => setImmediate(resolve))
+
+    expect(logSink).toHaveBeenCalledTimes(1)
+    expect(logSink.mock.calls[0][0]).toHaveLength(2)
+
+    await metigan.flush()
+    expect(logSink).toHaveBeenCalledTimes(2)
+    expect(logSink.mock.calls[1][0]).toHaveLength(1)
+  })
+
+  test("should keep a batch queued until the sink accepts it", async () => {
+    const persistPath = path.join(dir, "queue.jsonl")
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: audiencesResponse, headers: {} }),
+    }
+    const logSink = jest.fn().mockRejectedValueOnce(new Error("unavailable"))
+    const metigan = new Metigan("test-api-key", { transport, logSink, logBatching: { persistPath, flushInterval: 60000 } })
+
+    await metigan.getAudiences()
+    await metigan.flush()
+
+    expect(logSink).toHaveBeenCalledTimes(1)
+    expect(await fs.readFile(persistPath, "utf8")).toContain("/audiences/list")
+
+    await metigan.flush()
+
+    expect(logSink).toHaveBeenCalledTimes(2)
+    expect(logSink.mock.calls[1][0]).toEqual([expect.objectContaining({ endpoint: "/audiences/list" })])
+    expect(await fs.readFile(persistPath, "utf8")).toBe("")
+  })
+
+  test("should keep persisted logs when a client is created with logs disabled", async () => {
+    const persistPath = path.join(dir, "queue.jsonl")
+    const pending = `${JSON.stringify(entry("/audiences/list"))}\n`
+    await fs.writeFile(persistPath, pending, "utf8")
+    const logSink = jest.fn()
+
+    const disabled = new Metigan("test-api-key", { logSink, disableLogs: true, logBatching: { persistPath } })
+    await disabled.flush()
+
+    expect(logSink).not.toHaveBeenCalled()
+    expect(await fs.readFile(persistPath, "utf8")).toBe(pending)
+  })
+
+  test("should record latency, the actual status and the error code", async () => {
+    const transport = { request: jest.fn().mockRejectedValue({ status: 418, data: { error: "I'm a teapot" } }) }
+    const sink = createMemoryLogSink()
+    const metigan = new Metigan("test-api-key", { transport, logSink: sink, retryCount: 1 })
+
+    await expect(metigan.getAudiences()).rejects.toThrow()
+    await metigan.flush()
+
+    expect(sink.entries[0]).toMatchObject({
+      status: "500",
+      httpStatus: 418,
+      latency: expect.any(Number),
+    })
+    expect(sink.entries[1]).toMatchObject({
+      endpoint: "/audiences/list/error",
+      errorCode: ErrorCode.API_REQUEST_FAILED,
+    })
+  })
+
+  test("should replay logs persisted by a previous client", async () => {
+    const persistPath = path.join(dir, "queue.jsonl")
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: audiencesResponse, headers: {} }),
+    }
+
+    const crashed = new Metigan("test-api-key", { transport, logSink: jest.fn(), logBatching: { persistPath, flushInterval: 60000 } })
+    await crashed.getAudiences()
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    const sink = createMemoryLogSink()
+    const restarted = new Metigan("test-api-key", { transport, logSink: sink, logBatching: { persistPath } })
+    await restarted.flush()
+
+    expect(sink.entries).toEqual([expect.objectContaining({ endpoint: "/audiences/list" })])
+    expect(await fs.readFile(persistPath, "utf8")).toBe("")
+  })
+})
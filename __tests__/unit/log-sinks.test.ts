@@ -0,0 +1,168 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import Metigan from "../../src/lib/metigan"
+import {
+  createFileLogSink,
+  createHttpLogSink,
+  createMemoryLogSink,
+  isTelemetryDisabled,
+  type UsageLogEntry,
+} from "../../src/lib/log-sinks"
+
+describe("Log Sinks", () => {
+  const audiencesResponse = { success: true, message: "OK", audiences: [] }
+  const entry: UsageLogEntry = {
+    userId: "user-1",
+    endpoint: "/email/send",
+    status: "200",
+    statusLabel: "200 - Ok",
+    method: "POST",
+    userAgent: "SDK",
+    timestamp: "2024-01-01T00:00:00.000Z",
+  }
+
+  const savedEnv = { ...process.env }
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    delete process.env.DO_NOT_TRACK
+    delete process.env.METIGAN_DISABLE_TELEMETRY
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    process.env = { ...savedEnv }
+  })
+
+  test("should post usage logs to the configured base URL", async () => {
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: audiencesResponse, headers: {} }),
+    }
+    const metigan = new Metigan("test-api-key", { baseUrl: "https://self-hosted.example", transport })
+
+    await metigan.getAudiences()
+    await jest.advanceTimersByTimeAsync(1000)
+
+    const logCall = transport.request.mock.calls.find(([request]) => request.url.endsWith("/api/logs"))
+    expect(logCall).toBeDefined()
+    expect(logCall[0].url).toBe("https://self-hosted.example/api/logs")
+    expect(logCall[0].data.logs[0]).toMatchObject({ endpoint: "/audiences/list", status: "200", method: "GET" })
+  })
+
+  test("should send usage logs to a memory sink instead of the API", async () => {
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: audiencesResponse, headers: {} }),
+    }
+    const sink = createMemoryLogSink()
+    const metigan = new Metigan("test-api-key", { transport, logSink: sink, userId: "user-1" })
+
+    await metigan.getAudiences()
+    await jest.advanceTimersByTimeAsync(1000)
+
+    expect(transport.request).toHaveBeenCalledTimes(1)
+    expect(sink.entries).toEqual([expect.objectContaining({ userId: "user-1", endpoint: "/audiences/list" })])
+
+    sink.clear()
+    expect(sink.entries).toEqual([])
+  })
+
+  test("should accept a function sink and report its failures", async () => {
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: audiencesResponse, headers: {} }),
+    }
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+    const logSink = jest.fn().mockRejectedValue(new Error("disk full"))
+    const metigan = new Metigan("test-api-key", { transport, logSink, logger })
+
+    await metigan.getAudiences()
+    await jest.advanceTimersByTimeAsync(1000)
+
+    expect(logSink).toHaveBeenCalledWith([expect.objectContaining({ endpoint: "/audiences/list" })])
+    expect(logger.error).toHaveBeenCalledWith("Error processing log batch: disk full", expect.any(Object))
+  })
+
+  test("should honor DO_NOT_TRACK", async () => {
+    process.env.DO_NOT_TRACK = "1"
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: audiencesResponse, headers: {} }),
+    }
+    const sink = createMemoryLogSink()
+    const metigan = new Metigan("test-api-key", { transport, logSink: sink })
+
+    metigan.enableLogging()
+    await metigan.getAudiences()
+    await jest.advanceTimersByTimeAsync(1000)
+
+    expect(sink.entries).toEqual([])
+  })
+
+  test("should read the opt-out environment variables", () => {
+    expect(isTelemetryDisabled()).toBe(false)
+    process.env.DO_NOT_TRACK = "0"
+    expect(isTelemetryDisabled()).toBe(false)
+    process.env.METIGAN_DISABLE_TELEMETRY = "true"
+    expect(isTelemetryDisabled()).toBe(true)
+  })
+
+  test("should retry HTTP delivery and warn when it gives up", async () => {
+    const transport = { request: jest.fn().mockRejectedValue({ status: 403, message: "Forbidden" }) }
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+    const sink = createHttpLogSink({ url: "https://api.example/api/logs", apiKey: "key", transport, logger, retryDelay: 1 })
+
+    const written = sink.write([entry])
+    await jest.advanceTimersByTimeAsync(10)
+    await written
+
+    expect(transport.request).toHaveBeenCalledTimes(3)
+    expect(transport.request).toHaveBeenCalledWith(
+      expect.objectContaining({ method: "POST", url: "https://api.example/api/logs", data: { logs: [entry] } }),
+    )
+    expect(logger.warn).toHaveBeenCalledWith("Authentication error when logging. Please check your API key.", expect.any(Object))
+  })
+
+  test("should report HTTP delivery failures worth retrying later", async () => {
+    jest.useRealTimers()
+    const offline = { request: jest.fn().mockRejectedValue({ message: "ECONNREFUSED" }) }
+    const unavailable = { request: jest.fn().mockRejectedValue({ status: 503, message: "Service Unavailable" }) }
+    const rejected = { request: jest.fn().mockRejectedValue({ status: 400, message: "Bad Request" }) }
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+    const options = { url: "https://api.example/api/logs", apiKey: "key", logger, retryDelay: 1 }
+
+    await expect(createHttpLogSink({ ...options, transport: offline }).write([entry])).rejects.toThrow(
+      "Connection error when logging: ECONNREFUSED",
+    )
+    await expect(createHttpLogSink({ ...options, transport: unavailable }).write([entry])).rejects.toThrow(
+      "Logs API unavailable (status 503): Service Unavailable",
+    )
+    await expect(createHttpLogSink({ ...options, transport: rejected }).write([entry])).resolves.toBeUndefined()
+    expect(logger.warn).toHaveBeenCalledWith("Warning when processing log batch: Bad Request", expect.any(Object))
+  })
+
+  test("should not keep the process alive between HTTP delivery attempts", async () => {
+    jest.useRealTimers()
+    const transport = { request: jest.fn().mockRejectedValue({ status: 503, message: "Service Unavailable" }) }
+    const sink = createHttpLogSink({ url: "https://api.example/api/logs", apiKey: "key", transport, retryDelay: 1, retryCount: 2 })
+    const setTimeoutSpy = jest.spyOn(global, "setTimeout")
+
+    await expect(sink.write([entry])).rejects.toThrow()
+
+    const timer = setTimeoutSpy.mock.results[0].value as NodeJS.Timeout
+    expect(timer.hasRef()).toBe(false)
+    setTimeoutSpy.mockRestore()
+  })
+
+  test("should append JSON lines to a file", async () => {
+    jest.useRealTimers()
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "metigan-logs-"))
+    const file = path.join(dir, "usage.log")
+    const sink = createFileLogSink(file)
+
+    await sink.write([entry])
+    await sink.write([{ ...entry, endpoint: "/contacts/create" }])
+
+    const lines = (await fs.readFile(file, "utf8")).trim().split("\n").map((line) => JSON.parse(line))
+    expect(lines.map((line) => line.endpoint)).toEqual(["/email/send", "/contacts/create"])
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+})
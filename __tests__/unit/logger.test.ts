@@ -0,0 +1,89 @@
+import Metigan from "../../src/lib/metigan"
+import { createConsoleLogger, createPinoLogger, createWinstonLogger, type Logger } from "../../src/lib/logger"
+import { ErrorCode } from "../../src/lib/error-codes"
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}
+
+describe("Structured Logger", () => {
+  test("should adapt pino-style loggers", () => {
+    const pino = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+
+    createPinoLogger(pino).warn("Server error", { status: 503 })
+
+    expect(pino.warn).toHaveBeenCalledWith({ status: 503 }, "Server error")
+  })
+
+  test("should adapt winston-style loggers", () => {
+    const winston = { log: jest.fn() }
+
+    createWinstonLogger(winston).error("Request failed", { attempt: 3 })
+
+    expect(winston.log).toHaveBeenCalledWith("error", "Request failed", { attempt: 3 })
+  })
+
+  test("should write JSON lines at or above the minimum level", () => {
+    const debug = jest.spyOn(console, "debug").mockImplementation(() => undefined)
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined)
+
+    const logger = createConsoleLogger("warn")
+    logger.debug("hidden")
+    logger.warn("shown", { endpoint: "/api/end/email" })
+
+    expect(debug).not.toHaveBeenCalled()
+    expect(JSON.parse(warn.mock.calls[0][0])).toMatchObject({ level: "warn", message: "shown", endpoint: "/api/end/email" })
+
+    debug.mockRestore()
+    warn.mockRestore()
+  })
+
+  test("should log retries with structured fields", async () => {
+    const logger = createMockLogger()
+    const transport = {
+      request: jest
+        .fn()
+        .mockRejectedValueOnce({ status: 503, code: ErrorCode.SERVICE_UNAVAILABLE })
+        .mockResolvedValueOnce({ status: 200, data: { success: true }, headers: {} }),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 2, retryDelay: 1, transport, logger })
+
+    await metigan.getAudience("audience-1")
+
+    expect(logger.warn).toHaveBeenCalledWith("Attempt 1/2: Server error (503)", {
+      endpoint: "/api/end/audiences/audience-1",
+      method: "GET",
+      attempt: 1,
+      maxAttempts: 2,
+      status: 503,
+      errorCode: ErrorCode.SERVICE_UNAVAILABLE,
+      latency: expect.any(Number),
+    })
+    expect(logger.info).toHaveBeenCalledWith(expect.stringMatching(/^Retrying request in \d+ms$/), expect.objectContaining({ attempt: 1 }))
+    expect(logger.debug).toHaveBeenCalledWith(
+      "Request succeeded",
+      expect.objectContaining({ attempt: 2, status: 200, latency: expect.any(Number) }),
+    )
+  })
+
+  test("should log the final failure as an error", async () => {
+    const logger = createMockLogger()
+    const transport = { request: jest.fn().mockRejectedValue({ status: 400 }) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport, logger })
+
+    await expect(metigan.getAudiences()).rejects.toThrow()
+
+    expect(logger.error).toHaveBeenCalledWith("Request failed", expect.objectContaining({ status: 400, attempt: 1 }))
+  })
+
+  test("should stay silent by default", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined)
+    const transport = { request: jest.fn().mockRejectedValue({ status: 503 }) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 2, retryDelay: 1, transport })
+
+    await expect(metigan.getAudiences()).rejects.toThrow()
+
+    expect(warn).not.toHaveBeenCalled()
+    warn.mockRestore()
+  })
+})
@@ -0,0 +1,69 @@
+import Metigan from "../../src/lib/metigan"
+import { ErrorCode, ErrorCatalogs, getErrorDetails, resolveLocale } from "../../src/lib/error-codes"
+import { Messages, formatMessage } from "../../src/lib/messages"
+import { processHttpError } from "../../src/utils/http"
+import { toResult } from "../../src/lib/safe"
+
+describe("Localized Messages", () => {
+  test("should cover every code and message in every locale", () => {
+    for (const catalog of Object.values(ErrorCatalogs)) {
+      expect(Object.keys(catalog).sort()).toEqual(Object.keys(ErrorCatalogs.en).sort())
+    }
+    expect(Object.keys(Messages.pt).sort()).toEqual(Object.keys(Messages.en).sort())
+  })
+
+  test("should resolve region tags and fall back to English", () => {
+    expect(resolveLocale("pt-BR")).toBe("pt")
+    expect(resolveLocale("PT_pt")).toBe("pt")
+    expect(resolveLocale("fr")).toBe("en")
+    expect(resolveLocale(undefined)).toBe("en")
+  })
+
+  test("should localize error details", () => {
+    expect(getErrorDetails(ErrorCode.CONTACT_NOT_FOUND, "a@b.com")).toBe("MET-1300: Contact not found - a@b.com")
+    expect(getErrorDetails(ErrorCode.CONTACT_NOT_FOUND, "a@b.com", "pt-BR")).toBe("MET-1300: Contato não encontrado - a@b.com")
+  })
+
+  test("should interpolate parameters", () => {
+    expect(formatMessage("invalidEmail", { email: "bad" })).toBe("Invalid email format: bad")
+    expect(formatMessage("invalidEmail", { email: "bad" }, "pt")).toBe("Formato de email inválido: bad")
+    expect(formatMessage("invalidEmail")).toBe("Invalid email format: {email}")
+  })
+
+  test("should raise client errors in the configured locale", async () => {
+    const transport = { request: jest.fn().mockRejectedValue({ status: 404, data: {} }) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 1, locale: "pt-BR", transport })
+
+    await expect(
+      metigan.sendEmail({ from: "sender@example.com", recipients: ["bad"], subject: "Oi", content: "Oi" }),
+    ).rejects.toMatchObject({ message: "Formato de email do destinatário inválido: bad", code: ErrorCode.INVALID_RECIPIENT })
+    await expect(metigan.getAudience("audience-1")).rejects.toMatchObject({ message: "Audiência não encontrada: audience-1" })
+    expect(() => new Metigan("", { locale: "pt" })).toThrow("A chave de API é obrigatória")
+  })
+
+  test("should localize response errors generated by the client", async () => {
+    const transport = {
+      request: jest
+        .fn()
+        .mockRejectedValueOnce({ status: 500, data: {} })
+        .mockResolvedValueOnce({ status: 200, data: { success: true, message: "OK", audiences: "none" }, headers: {} }),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 1, locale: "pt", responseValidation: "strict", transport })
+
+    await expect(metigan.getAudiences()).rejects.toMatchObject({ message: "A requisição falhou com o status 500" })
+    await expect(metigan.getAudiences()).rejects.toMatchObject({
+      message: expect.stringMatching(/^Resposta da API malformada em \$\.audiences: esperado /),
+    })
+  })
+
+  test("should localize transport and non-throwing client fallbacks", async () => {
+    expect(processHttpError({ name: "TimeoutError" }, "pt").message).toBe("A requisição expirou. Verifique sua conexão de rede.")
+    expect(processHttpError(new TypeError("fetch failed"), "pt").message).toBe("Erro de rede. Verifique sua conexão com a internet.")
+    expect(processHttpError({ status: 500, data: {}, message: "" }, "pt").message).toBe(
+      "MET-1202: Serviço temporariamente indisponível - Ocorreu um erro durante a requisição",
+    )
+
+    const result = await toResult(() => Promise.reject(new Error("boom")), "pt-BR")
+    expect(result).toMatchObject({ ok: false, error: { message: ErrorCatalogs.pt[ErrorCode.UNEXPECTED_ERROR] } })
+  })
+})
@@ -0,0 +1,130 @@
+import Metigan from "../../src/lib/metigan"
+import { attachMetadata, createResponseMetadata, getRateLimitInfo, getRequestId } from "../../src/lib/metadata"
+import { ApiError, MetiganError } from "../../src/lib/errors"
+import { ErrorCode } from "../../src/lib/error-codes"
+
+describe("Response Metadata", () => {
+  const emailOptions = {
+    from: "sender@example.com",
+    recipients: ["one@example.com"],
+    subject: "Hello",
+    content: "<p>Hi</p>",
+  }
+  const sentResponse = {
+    success: true,
+    message: "Sent",
+    successfulEmails: [{ success: true, recipient: "one@example.com", messageId: "msg-1", trackingId: "trk-1" }],
+    failedEmails: [],
+    recipientCount: 1,
+    hasAttachments: false,
+    attachmentsCount: 0,
+  }
+  const headers = {
+    "x-request-id": "req-123",
+    "x-ratelimit-limit": "100",
+    "x-ratelimit-remaining": "99",
+    "x-ratelimit-reset": "30",
+  }
+
+  describe("helpers", () => {
+    test("should read the request ID from known headers", () => {
+      expect(getRequestId({ "x-request-id": "a" })).toBe("a")
+      expect(getRequestId({ "request-id": "b" })).toBe("b")
+      expect(getRequestId({ "x-correlation-id": "c" })).toBe("c")
+      expect(getRequestId({})).toBeUndefined()
+      expect(getRequestId(undefined)).toBeUndefined()
+    })
+
+    test("should read IETF and X- rate-limit headers", () => {
+      expect(getRateLimitInfo(headers)).toEqual({ limit: 100, remaining: 99, reset: 30 })
+      expect(getRateLimitInfo({ "ratelimit-remaining": "5" })).toEqual({ remaining: 5 })
+      expect(getRateLimitInfo({ "ratelimit-remaining": "soon" })).toBeUndefined()
+      expect(getRateLimitInfo({})).toBeUndefined()
+    })
+
+    test("should attach metadata without changing the serialized result", () => {
+      const meta = createResponseMetadata(200, headers, 12, 1)
+      const result: { success: boolean; meta?: unknown } = attachMetadata({ success: true }, meta)
+
+      expect(result.meta).toBe(meta)
+      expect(JSON.stringify(result)).toBe('{"success":true}')
+      expect(Object.keys(result)).toEqual(["success"])
+    })
+  })
+
+  test("should expose metadata on results", async () => {
+    const transport = {
+      request: jest
+        .fn()
+        .mockRejectedValueOnce({ status: 503 })
+        .mockResolvedValueOnce({ status: 200, data: sentResponse, headers }),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 2, retryDelay: 1, transport })
+
+    const response = await metigan.sendEmail(emailOptions, { idempotencyKey: "key-1" })
+
+    expect(response.meta).toEqual({
+      status: 200,
+      requestId: "req-123",
+      rateLimit: { limit: 100, remaining: 99, reset: 30 },
+      latency: expect.any(Number),
+      attempts: 2,
+    })
+    expect(response).toEqual({ ...sentResponse, idempotencyKey: "key-1" })
+  })
+
+  test("should expose metadata on read results", async () => {
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: { success: true, message: "OK", audiences: [] }, headers }),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport })
+
+    const response = await metigan.getAudiences()
+
+    expect(response.meta?.status).toBe(200)
+    expect(response.meta?.requestId).toBe("req-123")
+    expect(response.meta?.attempts).toBe(1)
+  })
+
+  test("should expose metadata and the request ID on errors", async () => {
+    const transport = {
+      request: jest.fn().mockRejectedValue(new ApiError("Bad request", ErrorCode.API_REQUEST_FAILED, 400, headers)),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 3, retryDelay: 1, transport })
+
+    let caught: MetiganError | undefined
+    try {
+      await metigan.sendEmail(emailOptions)
+    } catch (error) {
+      caught = error as MetiganError
+    }
+
+    expect(caught).toBeInstanceOf(MetiganError)
+    expect(caught?.meta).toEqual({
+      status: 400,
+      requestId: "req-123",
+      rateLimit: { limit: 100, remaining: 99, reset: 30 },
+      latency: expect.any(Number),
+      attempts: 1,
+    })
+    expect(caught?.requestId).toBe("req-123")
+    expect(caught?.getFormattedMessage()).toContain("(request ID: req-123)")
+  })
+
+  test("should count every attempt on network failures", async () => {
+    const transport = { request: jest.fn().mockRejectedValue(new Error("socket hang up")) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 2, retryDelay: 1, transport })
+
+    await expect(metigan.getAudiences()).rejects.toMatchObject({
+      code: ErrorCode.NETWORK_ERROR,
+      meta: { status: undefined, attempts: 2 },
+    })
+  })
+
+  test("should format messages without a request ID unchanged", () => {
+    const error = new MetiganError("Boom", ErrorCode.UNEXPECTED_ERROR)
+    expect(error.requestId).toBeUndefined()
+    expect(error.getFormattedMessage()).toBe(`MET-${ErrorCode.UNEXPECTED_ERROR}: Boom`)
+    expect(new ApiError("Boom", ErrorCode.API_REQUEST_FAILED, 500, { "x-request-id": "req-9" }).requestId).toBe("req-9")
+  })
+})
@@ -1,14 +1,9 @@
 import Metigan from "../../src/lib/metigan"
-import { MetiganError } from "../../src/lib/errors"
-import * as httpUtils from "../../src/utils/http"
-
-// Mock the HTTP utilities
-jest.mock("../../src/utils/http", () => ({
-  get: jest.fn(),
-  post: jest.fn(),
-  put: jest.fn(),
-  deleteRequest: jest.fn(),
-}))
+import { MetiganError, ValidationError } from "../../src/lib/errors"
+import { ErrorCode } from "../../src/lib/error-codes"
+import type { ValidationIssue } from "../../src/lib/types"
+// Mock HTTP utilities exposed through a transport
+import * as httpUtils from "../integration/http"
 
 describe("Metigan SDK Unit Tests", () => {
   const API_KEY = "test-api-key"
@@ -20,6 +15,7 @@ describe("Metigan SDK Unit Tests", () => {
       disableLogs: true,
       retryCount: 1,
       retryDelay: 10,
+      transport: httpUtils.transport,
     })
   })
 
@@ -365,6 +361,83 @@ describe("Metigan SDK Unit Tests", () => {
     })
   })
 
+  describe("Validation Issues", () => {
+    test("should report every issue with its field path", () => {
+      const result = metigan.validate({
+        from: "invalid-sender",
+        recipients: ["one@example.com", "bad", "also-bad"],
+        subject: "",
+        content: "<p>Test Content</p>",
+      })
+
+      expect(result.isValid).toBe(false)
+      expect(result.issues).toEqual([
+        { path: "subject", code: ErrorCode.MISSING_REQUIRED_FIELD, message: "Subject is required" },
+        { path: "from", code: ErrorCode.INVALID_EMAIL_FORMAT, message: "Invalid sender email format: invalid-sender" },
+        { path: "recipients[1]", code: ErrorCode.INVALID_RECIPIENT, message: "Invalid recipient email format: bad" },
+        { path: "recipients[2]", code: ErrorCode.INVALID_RECIPIENT, message: "Invalid recipient email format: also-bad" },
+      ])
+      expect(result.error).toBe("Subject is required")
+    })
+
+    test("should validate copy recipients and reply-to addresses", () => {
+      const result = metigan.validate({
+        from: "sender@example.com",
+        recipients: ["one@example.com"],
+        cc: ["Manager <manager@example.com>", "bad-cc"],
+        bcc: ["bad-bcc"],
+        replyTo: "bad-reply",
+        subject: "Hi",
+        content: "Hi",
+      })
+
+      expect(result.issues).toEqual([
+        { path: "cc[1]", code: ErrorCode.INVALID_RECIPIENT, message: "Invalid cc email format: bad-cc" },
+        { path: "bcc[0]", code: ErrorCode.INVALID_RECIPIENT, message: "Invalid bcc email format: bad-bcc" },
+        { path: "replyTo", code: ErrorCode.INVALID_EMAIL_FORMAT, message: "Invalid reply-to email format: bad-reply" },
+      ])
+      expect(
+        metigan.validate({ from: "sender@example.com", recipients: ["one@example.com"], cc: "a@example.com" as any, subject: "Hi", content: "Hi" })
+          .issues,
+      ).toEqual([{ path: "cc", code: ErrorCode.INVALID_RECIPIENT, message: "cc must be an array of email addresses" }])
+      expect(
+        metigan.validate({ from: "sender@example.com", recipients: ["one@example.com"], bcc: ["a@example.com", 42] as any, subject: "Hi", content: "Hi" })
+          .issues,
+      ).toEqual([{ path: "bcc[1]", code: ErrorCode.INVALID_RECIPIENT, message: "bcc must be an array of email addresses" }])
+    })
+
+    test("should validate template options", () => {
+      const result = metigan.validate({ from: "sender@example.com", recipients: ["bad"], subject: "Hi", templateId: "" })
+
+      expect(result.issues.map((issue) => issue.path)).toEqual(["templateId", "recipients[0]"])
+      expect(metigan.validate({ from: "sender@example.com", recipients: ["one@example.com"], subject: "Hi", templateId: "t1" })).toEqual({
+        isValid: true,
+        issues: [],
+      })
+    })
+
+    test("should throw a ValidationError carrying every issue", async () => {
+      const error = await metigan
+        .sendEmail({ from: "sender@example.com", recipients: ["bad", "worse"], subject: "Hi", content: "Hi" })
+        .catch((caught) => caught)
+
+      expect(error).toBeInstanceOf(ValidationError)
+      expect(error).toMatchObject({ code: ErrorCode.INVALID_RECIPIENT, path: "recipients[0]" })
+      expect(error.issues.map((issue: ValidationIssue) => issue.path)).toEqual(["recipients[0]", "recipients[1]"])
+      expect(httpUtils.post).not.toHaveBeenCalled()
+    })
+
+    test("should collect contact issues", async () => {
+      await expect(metigan.createContacts(["bad", "ok@example.com"], { createContact: false })).rejects.toMatchObject({
+        issues: [
+          { path: "createContact", code: ErrorCode.MISSING_REQUIRED_FIELD },
+          { path: "audienceId", code: ErrorCode.INVALID_AUDIENCE_ID },
+          { path: "emails[0]", code: ErrorCode.INVALID_EMAIL_FORMAT },
+        ],
+      })
+    })
+  })
+
   describe("MIME Type Detection", () => {
     test("should detect MIME types correctly", () => {
       // Access private method via any cast
@@ -721,13 +794,20 @@ describe("Metigan SDK Unit Tests", () => {
       expect(httpUtils.post).toHaveBeenCalledWith(
         "https://example.com/api",
         { data: "test" },
-        { "Content-Type": "application/json" },
+        expect.objectContaining({ "Content-Type": "application/json", "x-api-key": API_KEY }),
       )
     })
 
     test("should retry failed requests", async () => {
+      const retryingMetigan = new Metigan(API_KEY, {
+        disableLogs: true,
+        retryCount: 2,
+        retryDelay: 10,
+        transport: httpUtils.transport,
+      })
+
       // Access private method via any cast
-      const makeRequestWithRetry = (metigan as any)._makeRequestWithRetry.bind(metigan)
+      const makeRequestWithRetry = (retryingMetigan as any)._makeRequestWithRetry.bind(retryingMetigan)
 
       // First call fails, second succeeds
       ;(httpUtils.post as jest.Mock).mockRejectedValueOnce({ status: 500 }).mockResolvedValueOnce({ success: true })
@@ -820,6 +900,48 @@ describe("Metigan SDK Unit Tests", () => {
     })
   })
 
+  describe("Timeouts and Cancellation", () => {
+    const emailOptions = {
+      from: "sender@example.com",
+      recipients: ["recipient@example.com"],
+      subject: "Test Subject",
+      content: "<p>Test Content</p>",
+    }
+
+    test("should pass the configured timeout to the transport", async () => {
+      const transport = { request: jest.fn().mockResolvedValue({ status: 200, data: { success: true }, headers: {} }) }
+      const client = new Metigan(API_KEY, { disableLogs: true, timeout: 1234, transport })
+
+      await client.getAudiences()
+
+      expect(transport.request).toHaveBeenCalledWith(expect.objectContaining({ method: "GET", timeout: 1234 }))
+    })
+
+    test("should reject with REQUEST_ABORTED when the signal is already aborted", async () => {
+      const transport = { request: jest.fn() }
+      const client = new Metigan(API_KEY, { disableLogs: true, transport })
+      const controller = new AbortController()
+      controller.abort()
+
+      await expect(client.sendEmail(emailOptions, { signal: controller.signal })).rejects.toMatchObject({
+        code: ErrorCode.REQUEST_ABORTED,
+      })
+      expect(transport.request).not.toHaveBeenCalled()
+    })
+
+    test("should cancel a pending retry backoff", async () => {
+      const transport = { request: jest.fn().mockRejectedValue({ status: 503 }) }
+      const client = new Metigan(API_KEY, { disableLogs: true, retryCount: 3, retryDelay: 60000, transport })
+      const controller = new AbortController()
+
+      const promise = client.listContacts({ audienceId: "audience-123" }, { signal: controller.signal })
+      setTimeout(() => controller.abort(), 10)
+
+      await expect(promise).rejects.toMatchObject({ code: ErrorCode.REQUEST_ABORTED })
+      expect(transport.request).toHaveBeenCalledTimes(1)
+    })
+  })
+
   describe("Email Sending", () => {
     beforeEach(() => {
       // Mock successful response for email sending
@@ -845,6 +967,7 @@ describe("Metigan SDK Unit Tests", () => {
       expect(response).toEqual({
         success: true,
         messageId: "test-message-id",
+        idempotencyKey: expect.any(String),
       })
 
       expect(httpUtils.post).toHaveBeenCalledWith(
@@ -894,6 +1017,14 @@ describe("Metigan SDK Unit Tests", () => {
     })
 
     test("should retry failed requests", async () => {
+      const retryingMetigan = new Metigan(API_KEY, {
+        disableLogs: true,
+        retryCount: 2,
+        retryDelay: 10,
+        transport: httpUtils.transport,
+      })
+      jest.spyOn(retryingMetigan as any, "_isBrowserEnvironment").mockReturnValue(false)
+
       // First call fails, second succeeds
       ;(httpUtils.post as jest.Mock)
         .mockRejectedValueOnce({
@@ -912,11 +1043,12 @@ describe("Metigan SDK Unit Tests", () => {
         content: "<p>Test Content</p>",
       }
 
-      const response = await metigan.sendEmail(emailOptions)
+      const response = await retryingMetigan.sendEmail(emailOptions)
 
       expect(response).toEqual({
         success: true,
         messageId: "test-message-id",
+        idempotencyKey: expect.any(String),
       })
 
       expect(httpUtils.post).toHaveBeenCalledTimes(2)
@@ -942,6 +1074,7 @@ describe("Metigan SDK Unit Tests", () => {
       expect(response).toEqual({
         success: true,
         messageId: "test-message-id",
+        idempotencyKey: expect.any(String),
       })
 
       expect(httpUtils.post).toHaveBeenCalledWith(
@@ -957,6 +1090,111 @@ describe("Metigan SDK Unit Tests", () => {
         expect.any(Object),
       )
     })
+
+    test("should send copy recipients and reply-to address", async () => {
+      await metigan.sendEmail({
+        from: "sender@example.com",
+        recipients: ["recipient@example.com"],
+        cc: ["manager@example.com"],
+        bcc: ["audit@example.com"],
+        replyTo: "Support <support@example.com>",
+        subject: "Test Subject",
+        content: "<p>Test Content</p>",
+      })
+
+      expect(httpUtils.post).toHaveBeenCalledWith(
+        expect.stringContaining("/api/end/email"),
+        expect.objectContaining({
+          cc: ["manager@example.com"],
+          bcc: ["audit@example.com"],
+          replyTo: "Support <support@example.com>",
+        }),
+        expect.any(Object),
+      )
+    })
+
+    test("should omit empty copy recipients", async () => {
+      await metigan.sendEmail({
+        from: "sender@example.com",
+        recipients: ["recipient@example.com"],
+        cc: [],
+        subject: "Test Subject",
+        content: "<p>Test Content</p>",
+      })
+
+      const payload = (httpUtils.post as jest.Mock).mock.calls[0][1]
+      expect(payload).not.toHaveProperty("cc")
+      expect(payload).not.toHaveProperty("bcc")
+      expect(payload).not.toHaveProperty("replyTo")
+    })
+
+    test("should encode copy recipients in browser form data", async () => {
+      ;(metigan as any)._isBrowserEnvironment.mockReturnValue(true)
+
+      await metigan.sendEmail({
+        from: "sender@example.com",
+        recipients: ["recipient@example.com"],
+        cc: ["manager@example.com"],
+        bcc: ["audit@example.com"],
+        replyTo: "support@example.com",
+        subject: "Test Subject",
+        content: "<p>Test Content</p>",
+        attachments: [new File(["test"], "test.txt", { type: "text/plain" })],
+      })
+
+      const formData = (httpUtils.post as jest.Mock).mock.calls[0][1] as FormData
+      expect(formData).toBeInstanceOf(FormData)
+      expect(JSON.parse(formData.get("cc") as string)).toEqual(["manager@example.com"])
+      expect(JSON.parse(formData.get("bcc") as string)).toEqual(["audit@example.com"])
+      expect(formData.get("replyTo")).toBe("support@example.com")
+    })
+  })
+
+  describe("Idempotency Keys", () => {
+    const emailOptions = {
+      from: "sender@example.com",
+      recipients: ["recipient@example.com"],
+      subject: "Test Subject",
+      content: "<p>Test Content</p>",
+    }
+
+    test("should reuse the same idempotency key across retries", async () => {
+      const transport = {
+        request: jest
+          .fn()
+          .mockRejectedValueOnce({ status: 503 })
+          .mockResolvedValueOnce({ status: 200, data: { success: true }, headers: {} }),
+      }
+      const client = new Metigan(API_KEY, { disableLogs: true, retryCount: 2, retryDelay: 1, transport })
+
+      const response: any = await client.sendEmail(emailOptions)
+
+      const firstKey = transport.request.mock.calls[0][0].headers["Idempotency-Key"]
+      const secondKey = transport.request.mock.calls[1][0].headers["Idempotency-Key"]
+      expect(firstKey).toMatch(/^mtg-idem-/)
+      expect(secondKey).toBe(firstKey)
+      expect(response.idempotencyKey).toBe(firstKey)
+    })
+
+    test("should use a caller supplied idempotency key", async () => {
+      ;(httpUtils.post as jest.Mock).mockResolvedValue({ success: true })
+
+      const response: any = await metigan.sendEmailWithTemplate(
+        { ...emailOptions, templateId: "template-123" },
+        { idempotencyKey: "order-42" },
+      )
+
+      expect(httpUtils.post).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(Object),
+        expect.objectContaining({ "Idempotency-Key": "order-42" }),
+      )
+      expect(response.idempotencyKey).toBe("order-42")
+    })
+
+    test("should generate unique idempotency keys", () => {
+      expect(metigan.generateIdempotencyKey()).not.toBe(metigan.generateIdempotencyKey())
+    })
   })
 
   describe("Template Emails", () => {
@@ -982,6 +1220,7 @@ describe("Metigan SDK Unit Tests", () => {
       expect(response).toEqual({
         success: true,
         messageId: "test-template-id",
+        idempotencyKey: expect.any(String),
       })
 
       expect(httpUtils.post).toHaveBeenCalledWith(
@@ -997,6 +1236,28 @@ describe("Metigan SDK Unit Tests", () => {
         expect.any(Object),
       )
     })
+
+    test("should send template email with copy recipients and reply-to address", async () => {
+      await metigan.sendEmailWithTemplate({
+        from: "sender@example.com",
+        recipients: ["recipient@example.com"],
+        cc: ["manager@example.com"],
+        bcc: ["audit@example.com"],
+        replyTo: "support@example.com",
+        subject: "Template Test",
+        templateId: "template-123",
+      })
+
+      expect(httpUtils.post).toHaveBeenCalledWith(
+        expect.stringContaining("/api/end/email"),
+        expect.objectContaining({
+          cc: ["manager@example.com"],
+          bcc: ["audit@example.com"],
+          replyTo: "support@example.com",
+        }),
+        expect.any(Object),
+      )
+    })
   })
 
   describe("Contact Management", () => {
@@ -0,0 +1,148 @@
+import Metigan from "../../src/lib/metigan"
+import { ErrorCode } from "../../src/lib/error-codes"
+import type { Middleware } from "../../src/lib/middleware"
+
+global.console.warn = jest.fn()
+
+describe("Middleware Pipeline", () => {
+  const okResponse = { status: 200, data: { success: true }, headers: {} }
+
+  test("should run hooks in a defined order", async () => {
+    const calls: string[] = []
+    const transport = { request: jest.fn().mockResolvedValue(okResponse) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport })
+
+    const tracer = (name: string): Middleware => ({
+      name,
+      onRequest: async () => {
+        calls.push(`${name}:request`)
+      },
+      onResponse: async () => {
+        calls.push(`${name}:response`)
+      },
+    })
+    metigan.use(tracer("outer")).use(tracer("inner"))
+
+    await metigan.getAudiences()
+
+    expect(calls).toEqual(["outer:request", "inner:request", "inner:response", "outer:response"])
+  })
+
+  test("should let middleware rewrite requests and responses", async () => {
+    const transport = { request: jest.fn().mockResolvedValue(okResponse) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport })
+
+    metigan.use({
+      onRequest: (request) => ({
+        ...request,
+        headers: { ...request.headers, "X-Correlation-Id": "corr-1" },
+        data: { ...request.data, description: "rewritten" },
+      }),
+      onResponse: (response) => ({ ...response, data: { ...response.data, intercepted: true } }),
+    })
+
+    const response = await metigan.createAudience({ name: "Newsletter" })
+
+    expect(transport.request).toHaveBeenCalledWith(
+      expect.objectContaining({
+        headers: expect.objectContaining({ "X-Correlation-Id": "corr-1", "x-api-key": "test-api-key" }),
+        data: { name: "Newsletter", description: "rewritten" },
+      }),
+    )
+    expect(response).toEqual({ success: true, intercepted: true })
+  })
+
+  test("should run for each retry attempt and report errors", async () => {
+    const transport = {
+      request: jest.fn().mockRejectedValueOnce({ status: 503 }).mockResolvedValueOnce(okResponse),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 2, retryDelay: 1, transport })
+    const attempts: number[] = []
+    const errors: any[] = []
+
+    metigan.use({
+      onRequest: (_request, context) => {
+        attempts.push(context.attempt)
+      },
+      onError: (error, _request, context) => {
+        errors.push({ status: error.status, attempt: context.attempt })
+      },
+    })
+
+    await metigan.getAudiences()
+
+    expect(attempts).toEqual([1, 2])
+    expect(errors).toEqual([{ status: 503, attempt: 1 }])
+  })
+
+  test("should measure latency with per-attempt metadata", async () => {
+    const transport = { request: jest.fn().mockResolvedValue(okResponse) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport })
+    let latency = -1
+
+    metigan.use({
+      onRequest: (_request, context) => {
+        context.metadata.startedAt = Date.now()
+      },
+      onResponse: (_response, _request, context) => {
+        latency = Date.now() - context.metadata.startedAt
+      },
+    })
+
+    await metigan.getAudience("audience-1")
+
+    expect(latency).toBeGreaterThanOrEqual(0)
+  })
+
+  test("should let error hooks replace the error", async () => {
+    const transport = { request: jest.fn().mockRejectedValue({ status: 500 }) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 1, transport })
+
+    metigan.use({
+      onError: () => {
+        throw { status: 404 }
+      },
+    })
+
+    await expect(metigan.getAudience("audience-1")).rejects.toMatchObject({ code: ErrorCode.AUDIENCE_NOT_FOUND })
+    await expect(metigan.getAudience("audience-1")).rejects.toThrow("Audience not found")
+  })
+
+  test("should give each attempt its own copy of the request body", async () => {
+    const transport = {
+      request: jest
+        .fn()
+        .mockRejectedValueOnce({ status: 503 })
+        .mockResolvedValueOnce(okResponse),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 2, retryDelay: 1, transport })
+    const sent: string[] = []
+
+    metigan.use({
+      onRequest: (request) => {
+        request.data.description += " (signed)"
+        sent.push(request.data.description)
+      },
+    })
+
+    await metigan.createAudience({ name: "Newsletter", description: "Weekly" })
+
+    expect(sent).toEqual(["Weekly (signed)", "Weekly (signed)"])
+  })
+
+  test("should fail right away when a hook throws", async () => {
+    const transport = { request: jest.fn().mockResolvedValue(okResponse) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 3, retryDelay: 1, transport })
+    const onRequest = jest.fn(() => {
+      throw new Error("signing failed")
+    })
+
+    metigan.use({ onRequest })
+
+    const failure = metigan.getAudiences()
+    await expect(failure).rejects.not.toMatchObject({ code: ErrorCode.NETWORK_ERROR })
+    await expect(failure).rejects.toMatchObject({ cause: expect.objectContaining({ message: "signing failed" }) })
+    expect(onRequest).toHaveBeenCalledTimes(1)
+    expect(transport.request).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,99 @@
+import Metigan from "../../src/lib/metigan"
+import { RateLimiter } from "../../src/lib/rate-limiter"
+import { ErrorCode } from "../../src/lib/error-codes"
+
+describe("RateLimiter", () => {
+  test("should limit concurrency and run higher priorities first", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1000, maxConcurrency: 1 })
+    const order: string[] = []
+    let release: () => void = () => undefined
+    const blocker = new Promise<void>((resolve) => (release = resolve))
+
+    const first = limiter.schedule(async () => {
+      await blocker
+      order.push("first")
+    })
+    const low = limiter.schedule(async () => order.push("low"), "low")
+    const normal = limiter.schedule(async () => order.push("normal"), "normal")
+    const high = limiter.schedule(async () => order.push("high"), "high")
+
+    expect(limiter.inFlight).toBe(1)
+    expect(limiter.pending).toBe(3)
+
+    release()
+    await Promise.all([first, low, normal, high])
+
+    expect(order).toEqual(["first", "high", "normal", "low"])
+  })
+
+  test("should throttle to the configured requests per second", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 20, burst: 1 })
+    const startedAt = Date.now()
+
+    await Promise.all([1, 2, 3].map((n) => limiter.schedule(async () => n)))
+
+    // One token up front, then one every 50ms
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90)
+  })
+
+  test("should pause after a 429 penalty", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1000 })
+    limiter.penalize(60)
+    const startedAt = Date.now()
+
+    await limiter.schedule(async () => undefined)
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(50)
+  })
+
+  test("should not keep the process alive while waiting for a token", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1000 })
+    limiter.penalize(20)
+    const setTimeoutSpy = jest.spyOn(global, "setTimeout")
+
+    const scheduled = limiter.schedule(async () => undefined)
+
+    const timer = setTimeoutSpy.mock.results[0].value as NodeJS.Timeout
+    expect(timer.hasRef()).toBe(false)
+    setTimeoutSpy.mockRestore()
+    await scheduled
+  })
+
+  test("should remove aborted tasks from the queue", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1000, maxConcurrency: 1 })
+    const controller = new AbortController()
+    const task = jest.fn().mockResolvedValue(undefined)
+
+    const running = limiter.schedule(() => new Promise((resolve) => setTimeout(resolve, 20)))
+    const queued = limiter.schedule(task, "normal", controller.signal)
+    controller.abort()
+
+    await expect(queued).rejects.toMatchObject({ code: ErrorCode.REQUEST_ABORTED })
+    await running
+    expect(task).not.toHaveBeenCalled()
+  })
+
+  test("should queue Metigan requests through the limiter", async () => {
+    let active = 0
+    let maxActive = 0
+    const transport = {
+      request: jest.fn(async (): Promise<any> => {
+        active++
+        maxActive = Math.max(maxActive, active)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        active--
+        return { status: 200, data: { success: true }, headers: {} }
+      }),
+    }
+    const metigan = new Metigan("test-api-key", {
+      disableLogs: true,
+      transport,
+      rateLimit: { requestsPerSecond: 1000, maxConcurrency: 2 },
+    })
+
+    await Promise.all(Array.from({ length: 6 }, () => metigan.getAudiences()))
+
+    expect(transport.request).toHaveBeenCalledTimes(6)
+    expect(maxActive).toBeLessThanOrEqual(2)
+  })
+})
@@ -0,0 +1,155 @@
+import Metigan from "../../src/lib/metigan"
+import { Redactor } from "../../src/lib/redaction"
+import { MetiganError, ValidationError } from "../../src/lib/errors"
+import { createMemoryLogSink } from "../../src/lib/log-sinks"
+import { ErrorCode } from "../../src/lib/error-codes"
+
+describe("PII Redaction", () => {
+  const emailOptions = {
+    from: "sender@example.com",
+    recipients: ["jane.doe@example.com"],
+    subject: "Hello",
+    content: "<p>Hi</p>",
+  }
+  const sentResponse = {
+    success: true,
+    message: "Sent",
+    successfulEmails: [{ success: true, recipient: "jane.doe@example.com", messageId: "msg-1", trackingId: "trk-1" }],
+    failedEmails: [],
+    recipientCount: 1,
+    hasAttachments: false,
+    attachmentsCount: 0,
+  }
+
+  describe("Redactor", () => {
+    test("should mask, hash or drop email addresses in text", () => {
+      const text = "Contact not found: jane.doe@example.com"
+
+      expect(new Redactor("off").text(text)).toBe(text)
+      expect(new Redactor("mask").text(text)).toBe("Contact not found: j***@example.com")
+      expect(new Redactor("drop").text(text)).toBe("Contact not found: [redacted]")
+
+      const hashed = new Redactor("hash").text(text)
+      expect(hashed).toMatch(/^Contact not found: email#[0-9a-f]{14}$/)
+      expect(new Redactor("hash").text("JANE.DOE@example.com")).toBe(hashed.replace("Contact not found: ", ""))
+    })
+
+    test("should redact URL-encoded addresses", () => {
+      expect(new Redactor("mask").text("/api/end/contacts/jane%40example.com/aud-1")).toBe("/api/end/contacts/j***%40example.com/aud-1")
+    })
+
+    test("should redact known contact field values", () => {
+      const redactor = new Redactor({ emails: "off", contactFields: "drop" })
+      expect(redactor.text("Invalid phone +351 912 345 678", ["+351 912 345 678"])).toBe("Invalid phone [redacted]")
+      expect(redactor.text("jane@example.com")).toBe("jane@example.com")
+    })
+
+    test("should only redact whole contact field values of 3 characters or more", () => {
+      const redactor = new Redactor("mask")
+      expect(redactor.text("Audience not found: a", ["e", "a"])).toBe("Audience not found: a")
+      expect(redactor.text("Audience 1234 not found: 123", ["123"])).toBe("Audience 1234 not found: 1***")
+      expect(redactor.text("Invalid city São Paulo (sp)", ["São Paulo", "sp"])).toBe("Invalid city S*** (sp)")
+    })
+
+    test("should copy payloads with every string redacted", () => {
+      const payload = { recipients: ["jane@example.com"], nested: { note: "by bob@example.com" }, count: 1 }
+      const redacted = new Redactor("drop").deep(payload)
+
+      expect(redacted).toEqual({ recipients: ["[redacted]"], nested: { note: "by [redacted]" }, count: 1 })
+      expect(payload.recipients[0]).toBe("jane@example.com")
+    })
+  })
+
+  test("should redact error messages and keep the original behind an accessor", async () => {
+    const transport = { request: jest.fn().mockRejectedValue({ status: 404, data: {} }) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, redaction: "mask", transport })
+
+    let caught: MetiganError | undefined
+    try {
+      await metigan.getContact("jane.doe@example.com", "aud-1")
+    } catch (error) {
+      caught = error as MetiganError
+    }
+
+    expect(caught).toBeInstanceOf(MetiganError)
+    expect(caught?.message).toBe("Contact not found: j***@example.com")
+    expect(caught?.stack).not.toContain("jane.doe@example.com")
+    expect(caught?.getFormattedMessage()).not.toContain("jane.doe@example.com")
+    expect(caught?.getUnredactedMessage()).toBe("Contact not found: jane.doe@example.com")
+  })
+
+  test("should redact validation issues", () => {
+    const error = ValidationError.fromIssues([
+      { path: "emails[0]", code: ErrorCode.INVALID_EMAIL_FORMAT, message: "Invalid email format: jane.doe@example.com" },
+    ])
+
+    new Redactor("mask").error(error)
+
+    expect(error.message).toBe("Invalid email format: j***@example.com")
+    expect(error.issues[0].message).toBe("Invalid email format: j***@example.com")
+  })
+
+  test("should redact contact field values from server errors", async () => {
+    const transport = {
+      request: jest.fn().mockRejectedValue({ status: 400, data: { error: "Bad Request", message: "Invalid phone 912345678" } }),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, redaction: "drop", transport })
+
+    let caught: MetiganError | undefined
+    try {
+      await metigan.createContacts(["jane@example.com"], { createContact: true, audienceId: "aud-1", contactFields: { phone: "912345678" } })
+    } catch (error) {
+      caught = error as MetiganError
+    }
+
+    expect(caught?.message).toBe("Invalid phone [redacted]")
+    expect(caught?.getUnredactedMessage()).toBe("Invalid phone 912345678")
+  })
+
+  test("should redact contact field values of the operation in flight from logs", async () => {
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: { success: true, message: "Updated" }, headers: {} }),
+    }
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, redaction: { emails: "off", contactFields: "drop" }, logger, transport })
+    metigan.on("request", () => {
+      throw new Error("Unexpected phone +351 912 345 678 for Jane Doe")
+    })
+
+    await metigan.updateContact("jane@example.com", { audienceId: "aud-1", fields: { phone: "+351 912 345 678", name: "Jane Doe" } })
+
+    expect(logger.warn).toHaveBeenCalledWith('Handler for "request" event failed: Unexpected phone [redacted] for [redacted]', undefined)
+    // Released once the operation settled
+    expect((metigan as any).redactor.text("Jane Doe")).toBe("Jane Doe")
+  })
+
+  test("should redact the structured logger, events and usage logs", async () => {
+    const transport = {
+      request: jest.fn().mockRejectedValueOnce({ status: 503 }).mockResolvedValue({ status: 200, data: sentResponse, headers: {} }),
+    }
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+    const sink = createMemoryLogSink()
+    const metigan = new Metigan("test-api-key", {
+      redaction: "hash",
+      logger,
+      logSink: sink,
+      userId: "owner@example.com",
+      retryDelay: 1,
+      transport,
+    })
+    const payloads: unknown[] = []
+    metigan.on("sent", (payload) => {
+      payloads.push(payload)
+    })
+
+    await metigan.sendEmail(emailOptions)
+    await metigan.getContact("jane.doe@example.com", "aud-1").catch(() => undefined)
+    await metigan.flush()
+
+    const reported = JSON.stringify([payloads, logger.debug.mock.calls, logger.warn.mock.calls, sink.entries])
+    expect(reported).not.toMatch(/jane\.doe(@|%40)example\.com/)
+    expect(reported).not.toContain("owner@example.com")
+    expect(reported).toContain("email#")
+    expect(logger.debug).toHaveBeenCalledWith("Request succeeded", expect.objectContaining({ endpoint: expect.stringContaining("email#") }))
+  })
+})
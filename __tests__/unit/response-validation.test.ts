@@ -0,0 +1,103 @@
+import Metigan from "../../src/lib/metigan"
+import { responseSchemas, validateResponse } from "../../src/lib/response-validation"
+import { ResponseValidationError } from "../../src/lib/errors"
+import { ErrorCode } from "../../src/lib/error-codes"
+
+global.console.warn = jest.fn()
+
+describe("Response Validation", () => {
+  const emailResponse = {
+    success: true,
+    message: "Emails sent",
+    successfulEmails: [{ success: true, recipient: "recipient@example.com", messageId: "msg-1", trackingId: "trk-1" }],
+    failedEmails: [],
+    recipientCount: 1,
+    hasAttachments: false,
+    attachmentsCount: 0,
+  }
+
+  test("should accept payloads matching the schema", () => {
+    expect(validateResponse(emailResponse, responseSchemas.EmailApiResponse)).toBe(emailResponse)
+    expect(
+      validateResponse({ success: false, error: "Invalid API key" }, responseSchemas.EmailApiResponse),
+    ).toEqual({ success: false, error: "Invalid API key" })
+  })
+
+  test("should report the path of the offending field", () => {
+    const malformed = {
+      ...emailResponse,
+      successfulEmails: [{ success: true, recipient: "recipient@example.com", trackingId: "trk-1" }],
+    }
+
+    expect(() => validateResponse(malformed, responseSchemas.EmailApiResponse)).toThrow(
+      "Malformed API response at $.successfulEmails[0].messageId: expected string, received undefined",
+    )
+
+    let caught: any
+    try {
+      validateResponse({ ...emailResponse, recipientCount: "1" }, responseSchemas.EmailApiResponse)
+    } catch (error) {
+      caught = error
+    }
+    expect(caught).toBeInstanceOf(ResponseValidationError)
+    expect(caught.code).toBe(ErrorCode.INVALID_RESPONSE)
+    expect(caught.path).toBe("$.recipientCount")
+  })
+
+  test("should reject unknown fields only in strict mode", () => {
+    const extended = { ...emailResponse, region: "eu-west-1" }
+
+    expect(() => validateResponse(extended, responseSchemas.EmailSuccessResponse, "strict")).toThrow(
+      "at $.region: expected no such field",
+    )
+    expect(validateResponse(extended, responseSchemas.EmailSuccessResponse, "lenient")).toBe(extended)
+  })
+
+  test("should accept null optional fields only in lenient mode", () => {
+    const listed = {
+      success: true,
+      message: "Contacts retrieved",
+      contacts: [],
+      pagination: null,
+    }
+
+    expect(() => validateResponse(listed, responseSchemas.ContactGetResponse, "strict")).toThrow("$.pagination")
+    expect(validateResponse(listed, responseSchemas.ContactGetResponse, "lenient")).toBe(listed)
+  })
+
+  test("should validate pagination", () => {
+    const listed = {
+      success: true,
+      message: "Contacts retrieved",
+      contacts: [],
+      pagination: { page: 1, limit: 10, total: 0 },
+    }
+
+    expect(() => validateResponse(listed, responseSchemas.ContactGetResponse, "lenient")).toThrow(
+      "at $.pagination.pages: expected number, received undefined",
+    )
+  })
+
+  test("should validate responses in the client when enabled", async () => {
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: { success: true, message: "OK", audiences: {} }, headers: {} }),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, responseValidation: "lenient", transport })
+
+    await expect(metigan.getAudiences()).rejects.toMatchObject({
+      code: ErrorCode.INVALID_RESPONSE,
+      path: "$.audiences",
+    })
+    // Malformed bodies are not retried
+    expect(transport.request).toHaveBeenCalledTimes(1)
+  })
+
+  test("should skip validation by default", async () => {
+    const transport = {
+      request: jest.fn().mockResolvedValue({ status: 200, data: { success: true }, headers: {} }),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport })
+
+    await expect(metigan.getAudiences()).resolves.toEqual({ success: true })
+  })
+})
@@ -0,0 +1,117 @@
+import Metigan from "../../src/lib/metigan"
+import { ApiError } from "../../src/lib/errors"
+import { ErrorCode } from "../../src/lib/error-codes"
+import { computeBackoff, getRetryAfterDelay, planRetry, resolveRetryPolicy } from "../../src/lib/retry"
+
+global.console.warn = jest.fn()
+
+describe("Retry Policy", () => {
+  const context = { attempt: 1, elapsed: 0, method: "POST" as const, url: "https://example.com/api" }
+
+  describe("planRetry", () => {
+    test("should not retry client errors by default", async () => {
+      const policy = resolveRetryPolicy({}, 3, 10)
+
+      for (const status of [400, 401, 403, 404, 422]) {
+        expect(await planRetry(policy, { ...context, error: { status } })).toBeNull()
+      }
+    })
+
+    test("should retry server errors and network failures", async () => {
+      const policy = resolveRetryPolicy({ jitter: "none" }, 3, 10)
+
+      expect(await planRetry(policy, { ...context, error: { status: 503 } })).toBe(10)
+      expect(await planRetry(policy, { ...context, error: { code: ErrorCode.NETWORK_ERROR } })).toBe(10)
+      expect(await planRetry(policy, { ...context, error: new Error("socket hang up") })).toBe(10)
+    })
+
+    test("should stop after max attempts", async () => {
+      const policy = resolveRetryPolicy({ maxAttempts: 2 }, 3, 10)
+
+      expect(await planRetry(policy, { ...context, attempt: 2, error: { status: 503 } })).toBeNull()
+    })
+
+    test("should stop when the elapsed time budget would be exceeded", async () => {
+      const policy = resolveRetryPolicy({ jitter: "none", maxElapsedTime: 100 }, 3, 50)
+
+      expect(await planRetry(policy, { ...context, elapsed: 60, error: { status: 503 } })).toBeNull()
+    })
+
+    test("should honor Retry-After on 429", async () => {
+      const policy = resolveRetryPolicy({}, 3, 10)
+      const error = new ApiError("Too many", ErrorCode.RATE_LIMIT_EXCEEDED, 429, { "retry-after": "2" })
+
+      expect(await planRetry(policy, { ...context, error })).toBe(2000)
+    })
+
+    test("should not wait for a Retry-After longer than maxDelay", async () => {
+      const policy = resolveRetryPolicy({}, 3, 10)
+      const error = new ApiError("Too many", ErrorCode.RATE_LIMIT_EXCEEDED, 429, { "retry-after": "3600" })
+
+      expect(await planRetry(policy, { ...context, error })).toBeNull()
+      expect(await planRetry(resolveRetryPolicy({ maxDelay: 3600000 }, 3, 10), { ...context, error })).toBe(3600000)
+    })
+
+    test("should let the hook veto a retry", async () => {
+      const shouldRetry = jest.fn().mockReturnValue(false)
+      const policy = resolveRetryPolicy({ jitter: "none", shouldRetry }, 3, 10)
+
+      expect(await planRetry(policy, { ...context, error: { status: 500 } })).toBeNull()
+      expect(shouldRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delay: 10 }))
+    })
+  })
+
+  describe("getRetryAfterDelay", () => {
+    test("should parse seconds, HTTP dates and rate-limit reset headers", () => {
+      const now = Date.parse("2024-01-01T00:00:00Z")
+
+      expect(getRetryAfterDelay({ "retry-after": "5" }, now)).toBe(5000)
+      expect(getRetryAfterDelay({ "retry-after": "Mon, 01 Jan 2024 00:00:03 GMT" }, now)).toBe(3000)
+      expect(getRetryAfterDelay({ "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(now / 1000 + 4) }, now)).toBe(4000)
+      expect(getRetryAfterDelay({ "ratelimit-reset": "7" }, now)).toBe(7000)
+      expect(getRetryAfterDelay({}, now)).toBeUndefined()
+    })
+  })
+
+  describe("computeBackoff", () => {
+    test("should apply the jitter strategy", () => {
+      const policy = resolveRetryPolicy({ jitter: "none", maxDelay: 300 }, 5, 100)
+
+      expect(computeBackoff(1, policy)).toBe(100)
+      expect(computeBackoff(2, policy)).toBe(200)
+      expect(computeBackoff(3, policy)).toBe(300)
+
+      const full = computeBackoff(2, { ...policy, jitter: "full" })
+      expect(full).toBeGreaterThanOrEqual(0)
+      expect(full).toBeLessThanOrEqual(200)
+    })
+  })
+
+  describe("Metigan client", () => {
+    test("should not retry non-retryable statuses", async () => {
+      const transport = { request: jest.fn().mockRejectedValue({ status: 404 }) }
+      const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 3, retryDelay: 1, transport })
+
+      await expect(metigan.getAudience("missing")).rejects.toThrow("Audience not found")
+      expect(transport.request).toHaveBeenCalledTimes(1)
+    })
+
+    test("should use the configured retry policy", async () => {
+      const transport = {
+        request: jest
+          .fn()
+          .mockRejectedValueOnce({ status: 502 })
+          .mockResolvedValueOnce({ status: 200, data: { success: true }, headers: {} }),
+      }
+      const metigan = new Metigan("test-api-key", {
+        disableLogs: true,
+        retryCount: 1,
+        retryPolicy: { maxAttempts: 2, baseDelay: 1 },
+        transport,
+      })
+
+      await expect(metigan.getAudiences()).resolves.toEqual({ success: true })
+      expect(transport.request).toHaveBeenCalledTimes(2)
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import Metigan from "../../src/lib/metigan"
+import { AudienceError, MetiganError, ValidationError } from "../../src/lib/errors"
+import { ErrorCode } from "../../src/lib/error-codes"
+import { toResult } from "../../src/lib/safe"
+
+describe("Safe Client", () => {
+  const emailOptions = {
+    from: "sender@example.com",
+    recipients: ["recipient@example.com"],
+    subject: "Hello",
+    content: "<p>Hi</p>",
+  }
+  const sentResponse = {
+    success: true,
+    message: "Sent",
+    successfulEmails: [{ success: true, recipient: "recipient@example.com", messageId: "msg-1", trackingId: "trk-1" }],
+    failedEmails: [],
+    recipientCount: 1,
+    hasAttachments: false,
+    attachmentsCount: 0,
+  }
+
+  const client = (request: jest.Mock) => new Metigan("test-api-key", { disableLogs: true, retryCount: 1, transport: { request } })
+
+  test("should resolve with the data and response metadata", async () => {
+    const metigan = client(jest.fn().mockResolvedValue({ status: 200, data: sentResponse, headers: { "x-request-id": "req-1" } }))
+
+    const result = await metigan.safe.sendEmail(emailOptions)
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data).toMatchObject(sentResponse)
+      expect(result.meta).toMatchObject({ status: 200, requestId: "req-1" })
+    }
+  })
+
+  test("should resolve with the error the throwing method would raise", async () => {
+    const metigan = client(jest.fn().mockRejectedValue({ status: 404, data: {} }))
+
+    const missing = await metigan.safe.getAudience("audience-1")
+    const invalid = await metigan.safe.sendEmail({ ...emailOptions, recipients: ["bad"] })
+
+    expect(missing).toEqual({ ok: false, error: expect.any(AudienceError) })
+    expect(!missing.ok && missing.error.code).toBe(ErrorCode.AUDIENCE_NOT_FOUND)
+    expect(!invalid.ok && invalid.error).toBeInstanceOf(ValidationError)
+  })
+
+  test("should wrap errors that are not Metigan errors", async () => {
+    const cause = new TypeError("boom")
+    const result = await toResult(() => Promise.reject(cause))
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toBeInstanceOf(MetiganError)
+      expect(result.error.code).toBe(ErrorCode.UNEXPECTED_ERROR)
+      expect(result.error.cause).toBe(cause)
+    }
+  })
+
+  test("should reuse one facade per client", () => {
+    const metigan = client(jest.fn())
+
+    expect(metigan.safe).toBe(metigan.safe)
+  })
+})
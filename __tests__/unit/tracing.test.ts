@@ -0,0 +1,163 @@
+import Metigan from "../../src/lib/metigan"
+import { ErrorCode } from "../../src/lib/error-codes"
+import { SpanStatusCode, type SpanLike, type TracingApiLike, type TracerLike } from "../../src/lib/tracing"
+
+interface RecordedSpan {
+  name: string
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  attributes: Record<string, unknown>
+  status?: { code: number; message?: string }
+  exceptions: unknown[]
+  ended: boolean
+}
+
+// In-memory tracer and context API standing in for an OpenTelemetry SDK with an in-memory exporter
+function createInMemoryTracing() {
+  const finished: RecordedSpan[] = []
+  let nextId = 0
+
+  const api: TracingApiLike = {
+    trace: { setSpan: (_context, span) => ({ span }) },
+    context: { active: () => undefined },
+  }
+
+  const tracer: TracerLike = {
+    startSpan(name, _options, context: any) {
+      const parent: SpanLike | undefined = context?.span
+      const record: RecordedSpan = {
+        name,
+        traceId: parent ? parent.spanContext().traceId : "4bf92f3577b34da6a3ce929d0e0e4736",
+        spanId: (++nextId).toString(16).padStart(16, "0"),
+        parentSpanId: parent?.spanContext().spanId,
+        attributes: {},
+        exceptions: [],
+        ended: false,
+      }
+      return {
+        setAttribute: (key, value) => (record.attributes[key] = value),
+        setStatus: (status) => (record.status = status),
+        recordException: (exception) => record.exceptions.push(exception),
+        end: () => {
+          record.ended = true
+          finished.push(record)
+        },
+        spanContext: () => ({ traceId: record.traceId, spanId: record.spanId, traceFlags: 1 }),
+      }
+    },
+  }
+
+  return { tracer, api, finished }
+}
+
+describe("Tracing", () => {
+  const emailOptions = {
+    from: "sender@example.com",
+    recipients: ["one@example.com", "two@example.com"],
+    subject: "Hello",
+    content: "<p>Hi</p>",
+    attachments: [{ content: "hello", filename: "hello.txt", contentType: "text/plain" }],
+  }
+
+  test("should open an operation span with a child span per attempt", async () => {
+    const tracing = createInMemoryTracing()
+    const transport = {
+      request: jest
+        .fn()
+        .mockRejectedValueOnce({ status: 503, code: ErrorCode.SERVICE_UNAVAILABLE })
+        .mockResolvedValueOnce({ status: 200, data: { success: true }, headers: {} }),
+    }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 2, retryDelay: 1, transport, tracing })
+
+    await metigan.sendEmail(emailOptions)
+
+    const [first, second, operation] = tracing.finished
+    expect(operation).toMatchObject({
+      name: "metigan.sendEmail",
+      attributes: {
+        "metigan.recipient_count": 2,
+        "metigan.attachment_count": 1,
+        "metigan.retry_count": 1,
+        "http.response.status_code": 200,
+      },
+      status: { code: SpanStatusCode.OK },
+    })
+    expect(first).toMatchObject({
+      name: "HTTP POST",
+      parentSpanId: operation.spanId,
+      attributes: { "metigan.attempt": 1, "http.response.status_code": 503, "metigan.error_code": ErrorCode.SERVICE_UNAVAILABLE },
+      status: { code: SpanStatusCode.ERROR },
+    })
+    expect(second).toMatchObject({ parentSpanId: operation.spanId, attributes: { "metigan.attempt": 2 } })
+  })
+
+  test("should propagate W3C traceparent on each attempt", async () => {
+    const tracing = createInMemoryTracing()
+    const transport = { request: jest.fn().mockResolvedValue({ status: 200, data: { success: true }, headers: {} }) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport, tracing })
+
+    await metigan.listContacts({ audienceId: "audience-1" })
+
+    const attempt = tracing.finished.find((span) => span.name === "HTTP GET")!
+    expect(transport.request.mock.calls[0][0].headers.traceparent).toBe(
+      `00-${attempt.traceId}-${attempt.spanId}-01`,
+    )
+  })
+
+  test("should record errors on the operation span", async () => {
+    const tracing = createInMemoryTracing()
+    const transport = { request: jest.fn().mockRejectedValue({ status: 404 }) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport, tracing })
+
+    await expect(metigan.getAudience("missing")).rejects.toThrow()
+
+    const operation = tracing.finished.find((span) => span.name === "metigan.getAudience")!
+    expect(operation.status).toMatchObject({ code: SpanStatusCode.ERROR })
+    expect(operation.attributes).toMatchObject({ "http.response.status_code": 404, "metigan.retry_count": 0 })
+    expect(operation.exceptions).toHaveLength(1)
+  })
+
+  test("should export redacted errors without request config", async () => {
+    const tracing = createInMemoryTracing()
+    const failure = Object.assign(new Error("connect ECONNREFUSED while sending to jane@example.com"), {
+      config: { headers: { "x-api-key": "test-api-key" } },
+    })
+    const transport = { request: jest.fn().mockRejectedValue(failure) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, retryCount: 1, redaction: "mask", transport, tracing })
+
+    await expect(metigan.getContact("jane@example.com", "aud-1")).rejects.toThrow()
+
+    const exported = tracing.finished.flatMap((span) =>
+      span.exceptions.map((exception: any) => ({ message: exception.message, stack: exception.stack, config: exception.config })),
+    )
+    expect(exported.length).toBeGreaterThan(0)
+    expect(JSON.stringify(exported)).not.toContain("jane@example.com")
+    expect(JSON.stringify(exported)).not.toContain("test-api-key")
+  })
+
+  test("should nest combined operations", async () => {
+    const tracing = createInMemoryTracing()
+    const transport = { request: jest.fn().mockResolvedValue({ status: 200, data: { success: true }, headers: {} }) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport, tracing })
+
+    await metigan.sendEmailAndCreateContacts({ ...emailOptions, contactOptions: { audienceId: "audience-1" } })
+
+    const names = tracing.finished.map((span) => span.name)
+    const root = tracing.finished.find((span) => span.name === "metigan.sendEmailAndCreateContacts")!
+    expect(names).toEqual(expect.arrayContaining(["metigan.createContacts", "metigan.sendEmail"]))
+    expect(tracing.finished.filter((span) => span.name.startsWith("metigan.") && span !== root)).toEqual([
+      expect.objectContaining({ parentSpanId: root.spanId }),
+      expect.objectContaining({ parentSpanId: root.spanId }),
+    ])
+  })
+
+  test("should not create spans or headers when disabled", async () => {
+    const transport = { request: jest.fn().mockResolvedValue({ status: 200, data: { success: true }, headers: {} }) }
+    const metigan = new Metigan("test-api-key", { disableLogs: true, transport })
+
+    await metigan.getAudiences()
+
+    expect(transport.request.mock.calls[0][0].headers.traceparent).toBeUndefined()
+  })
+})
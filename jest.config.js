@@ -4,7 +4,7 @@ module.exports = {
     roots: ['<rootDir>'],
     testMatch: ['**/__tests__/**/*.test.ts'],
     transform: {
-      '^.+\\.tsx?$': 'ts-jest',
+      '^.+\\.tsx?$': ['ts-jest', { tsconfig: { types: ['node', 'jest'] } }],
     },
     moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
     collectCoverage: true,
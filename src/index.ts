@@ -6,8 +6,69 @@
 // Re-export main class and types
 export { default } from "./lib/metigan";
 export { Metigan } from "./lib/metigan";
-export { MetiganError, ValidationError, ApiError, NetworkError, ContactError } from "./lib/errors";
-export { ErrorCode, ErrorMessages, getErrorDetails } from "./lib/error-codes";
+export {
+  MetiganError,
+  ValidationError,
+  ApiError,
+  NetworkError,
+  ContactError,
+  AudienceError,
+  TemplateError,
+  AttachmentError,
+  ConflictError,
+  ResponseValidationError,
+  createResponseError,
+} from "./lib/errors";
+export type { MetiganErrorOptions, SerializedMetiganError } from "./lib/errors";
+export {
+  ErrorCode,
+  ErrorMessages,
+  ErrorCatalogs,
+  getErrorDetails,
+  getErrorCodeForStatus,
+  fromServerErrorCode,
+  resolveLocale,
+} from "./lib/error-codes";
+export type { ErrorResource, Locale } from "./lib/error-codes";
+export { ErrorHints, getErrorInfo, getErrorCatalog, isRetryableCode } from "./lib/error-catalog";
+export type { ErrorInfo, ErrorCategory } from "./lib/error-catalog";
+export { Messages, formatMessage } from "./lib/messages";
+export type { MessageKey } from "./lib/messages";
+export { createAxiosTransport, createFetchTransport, processHttpError } from "./utils/http";
+export { getRetryAfterDelay } from "./lib/retry";
+export { RateLimiter } from "./lib/rate-limiter";
+export { CircuitBreaker } from "./lib/circuit-breaker";
+export { responseSchemas, validateResponse } from "./lib/response-validation";
+export { MetiganFake } from "./lib/fake";
+export { createDryRunTransport } from "./lib/dry-run";
+export { SpanStatusCode, SpanKind, formatTraceparent } from "./lib/tracing";
+export { noopLogger, createConsoleLogger, createPinoLogger, createWinstonLogger } from "./lib/logger";
+export { Redactor } from "./lib/redaction";
+export { createHttpLogSink, createFileLogSink, createMemoryLogSink, isTelemetryDisabled } from "./lib/log-sinks";
+export { toResult } from "./lib/safe";
+export type { MetiganOptions } from "./lib/metigan";
+export type { RetryPolicy, RetryContext, RetryJitter } from "./lib/retry";
+export type { RateLimiterOptions, RequestPriority } from "./lib/rate-limiter";
+export type { Middleware, MiddlewareContext } from "./lib/middleware";
+export type {
+  TracingOptions,
+  TracerLike,
+  TracingApiLike,
+  SpanLike,
+  SpanContextLike,
+  SpanAttributes,
+  SpanAttributeValue,
+} from "./lib/tracing";
+export type { MetiganEvents, MetiganEventName, MetiganEventHandler } from "./lib/events";
+export type { Logger, LogLevel, LogFields, PinoLikeLogger, WinstonLikeLogger } from "./lib/logger";
+export type { LogSink, LogSinkFunction, MemoryLogSink, HttpLogSinkOptions, UsageLogEntry } from "./lib/log-sinks";
+export type { RedactionMode, RedactionOptions } from "./lib/redaction";
+export type { Result, SafeMetigan, SafeMethodName } from "./lib/safe";
+export type { LogBatchingOptions, LogOverflowPolicy } from "./lib/log-queue";
+export type { ResponseSchema, ResponseIssue, ResponseValidationMode } from "./lib/response-validation";
+export type { MetiganFakeOptions, FakeSentEmail, FakeAudience, FakeContact } from "./lib/fake";
+export type { CircuitBreakerOptions, CircuitBreakerSnapshot, CircuitState, EndpointGroup } from "./lib/circuit-breaker";
+export type { Transport, TransportRequest, TransportResponse, HttpMethod } from "./utils/http";
 export type {
   EmailOptions,
   EmailSuccessResponse,
@@ -28,4 +89,10 @@ export type {
   AudienceApiResponse,
   AudienceCreationOptions,
   AudienceUpdateOptions,
+  RequestOptions,
+  DryRunRequest,
+  ResponseMetadata,
+  RateLimitInfo,
+  ValidationIssue,
+  ValidationResult,
 } from "./lib/types";
\ No newline at end of file
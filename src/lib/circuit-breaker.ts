@@ -0,0 +1,192 @@
+/**
+ * Circuit breaker for Metigan API endpoint groups
+ * Fails fast while the API is down instead of burning retries
+ */
+
+import { ErrorCode } from "./error-codes"
+import { isMiddlewareError } from "./middleware"
+import { isAbortError } from "../utils/abort"
+
+/**
+ * Circuit state
+ * - closed: requests flow normally
+ * - open: requests fail fast with CIRCUIT_OPEN
+ * - half-open: a limited number of probes test whether the API recovered
+ */
+export type CircuitState = "closed" | "open" | "half-open"
+
+/**
+ * Endpoint groups that get their own circuit
+ */
+export type EndpointGroup = "email" | "contacts" | "audiences"
+
+/**
+ * Circuit breaker options
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number
+  /** Time the circuit stays open before probing (ms, default: 30000) */
+  resetTimeout?: number
+  /** Concurrent probe requests allowed while half-open (default: 1) */
+  halfOpenMaxProbes?: number
+  /** Error codes counted as failures (default: SERVICE_UNAVAILABLE, NETWORK_ERROR, TIMEOUT) */
+  tripOn?: ErrorCode[]
+}
+
+/**
+ * Point-in-time view of a circuit, for health checks
+ */
+export interface CircuitBreakerSnapshot {
+  state: CircuitState
+  /** Consecutive failures counted so far */
+  failures: number
+  /** When the circuit last opened (ms since epoch) */
+  openedAt?: number
+  /** When the next probe is allowed (ms since epoch), while open */
+  nextAttemptAt?: number
+}
+
+const DEFAULT_TRIP_CODES = [ErrorCode.SERVICE_UNAVAILABLE, ErrorCode.NETWORK_ERROR, ErrorCode.TIMEOUT]
+
+/** Server statuses that mean the API is down, as opposed to rejecting one request */
+const OUTAGE_STATUSES = [500, 502, 503, 504]
+
+/**
+ * Consecutive-failure circuit breaker
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number
+  private readonly resetTimeout: number
+  private readonly halfOpenMaxProbes: number
+  private readonly tripOn: ErrorCode[]
+  private currentState: CircuitState = "closed"
+  private failures = 0
+  private probes = 0
+  private openedAt?: number
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 5)
+    this.resetTimeout = Math.max(0, options.resetTimeout ?? 30000)
+    this.halfOpenMaxProbes = Math.max(1, options.halfOpenMaxProbes ?? 1)
+    this.tripOn = options.tripOn ?? DEFAULT_TRIP_CODES
+  }
+
+  /**
+   * Current state, moving from open to half-open once the reset timeout elapsed
+   */
+  get state(): CircuitState {
+    if (this.currentState === "open" && this.openedAt !== undefined && Date.now() - this.openedAt >= this.resetTimeout) {
+      this.currentState = "half-open"
+      this.probes = 0
+    }
+    return this.currentState
+  }
+
+  /**
+   * Checks whether a request may go through, reserving a probe slot while half-open
+   * @returns True if the request is allowed
+   */
+  tryAcquire(): boolean {
+    switch (this.state) {
+      case "closed":
+        return true
+      case "half-open":
+        if (this.probes < this.halfOpenMaxProbes) {
+          this.probes++
+          return true
+        }
+        return false
+      default:
+        return false
+    }
+  }
+
+  /**
+   * Records a successful request
+   */
+  onSuccess(): void {
+    this.failures = 0
+    this.probes = 0
+    this.openedAt = undefined
+    this.currentState = "closed"
+  }
+
+  /**
+   * Records a failed request
+   * Only outages count as failures; any other server answer proves the API is up.
+   * Cancellations and exceptions thrown by middleware never reached the API, say
+   * nothing about it and are ignored.
+   * @param error - Error thrown by the transport
+   */
+  onFailure(error: any): void {
+    if (isAbortError(error) || isMiddlewareError(error) || !(this.isOutage(error) || this.isServerAnswer(error))) {
+      // Says nothing about the API, release the probe slot
+      if (this.currentState === "half-open" && this.probes > 0) this.probes--
+      return
+    }
+
+    if (!this.isOutage(error)) {
+      this.onSuccess()
+      return
+    }
+
+    this.failures++
+    if (this.currentState === "half-open" || this.failures >= this.failureThreshold) {
+      this.currentState = "open"
+      this.openedAt = Date.now()
+      this.probes = 0
+    }
+  }
+
+  /**
+   * Returns the current state for health checks
+   * @returns Circuit snapshot
+   */
+  snapshot(): CircuitBreakerSnapshot {
+    const state = this.state
+    return {
+      state,
+      failures: this.failures,
+      openedAt: this.openedAt,
+      nextAttemptAt: state === "open" && this.openedAt !== undefined ? this.openedAt + this.resetTimeout : undefined,
+    }
+  }
+
+  /**
+   * Closes the circuit and clears the failure count
+   */
+  reset(): void {
+    this.onSuccess()
+  }
+
+  /**
+   * Checks whether an error indicates the API is unavailable
+   * Outages are the trip codes (network errors and timeouts by default) and the
+   * outage statuses. Like the retry policy, an error with neither a status nor a
+   * code is a low-level network failure.
+   * @param error - Error thrown by the transport
+   * @returns True for outages
+   */
+  private isOutage(error: any): boolean {
+    if (!error) {
+      return false
+    }
+    if (this.tripOn.includes(error.code)) {
+      return true
+    }
+    if (this.isServerAnswer(error)) {
+      return OUTAGE_STATUSES.includes(error.status)
+    }
+    return error.code === undefined
+  }
+
+  /**
+   * Checks whether an error carries an HTTP response from the API
+   * @param error - Error thrown by the transport
+   * @returns True if the server answered
+   */
+  private isServerAnswer(error: any): boolean {
+    return !!error && typeof error.status === "number"
+  }
+}
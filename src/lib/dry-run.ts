@@ -0,0 +1,172 @@
+/**
+ * Dry-run transport for the Metigan client
+ * Sends and mutations are answered locally with a simulated response that
+ * carries the exact request that would have been sent; reads still reach the API.
+ */
+
+import type { Transport, TransportRequest, TransportResponse } from "../utils/http"
+import type { DryRunRequest } from "./types"
+
+// Credential headers, masked so dry-run results are safe to log
+const CREDENTIAL_HEADERS = ["x-api-key", "authorization"]
+const MASKED = "***"
+
+/**
+ * Copies request headers with the credentials masked
+ * @param headers - Request headers
+ * @returns Headers safe to expose
+ */
+function maskHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  const masked: Record<string, string> = {}
+  for (const [name, value] of Object.entries(headers)) {
+    masked[name] = CREDENTIAL_HEADERS.includes(name.toLowerCase()) ? MASKED : value
+  }
+  return masked
+}
+
+/**
+ * Reads a request body into a plain object, including browser FormData
+ * @param data - Request body
+ * @returns Plain object
+ */
+function readBody(data: any): Record<string, any> {
+  if (data && typeof data.getAll === "function" && typeof data.forEach === "function") {
+    const body: Record<string, any> = {}
+    data.forEach((value: any, key: string) => {
+      if (key !== "files") body[key] = value
+    })
+    // Address lists are sent as JSON strings
+    for (const field of ["recipients", "cc", "bcc"]) {
+      if (typeof body[field] === "string") body[field] = JSON.parse(body[field])
+    }
+    body.attachments = data.getAll("files")
+    return body
+  }
+  return data && typeof data === "object" ? data : {}
+}
+
+/**
+ * Creates a transport that simulates every non-GET request
+ * @param transport - Transport used for reads
+ * @returns Dry-run transport
+ */
+export function createDryRunTransport(transport: Transport): Transport {
+  let sequence = 0
+  const nextId = (prefix: string) => `dry-run-${prefix}-${++sequence}`
+
+  /**
+   * Builds the simulated body for a mutation
+   * @param request - Request that would have been sent
+   * @returns Status and body the API would answer with on success
+   */
+  const simulate = (request: TransportRequest): { status: number; data: any } => {
+    const segments = new URL(request.url, "http://dry-run").pathname.split("/").filter(Boolean).map(decodeURIComponent)
+    const resource = segments[0] === "api" && segments[1] === "end" ? segments[2] : segments[1]
+    const params = segments.slice(3)
+    const body = readBody(request.data)
+    const now = new Date().toISOString()
+
+    if (resource === "email") {
+      const recipients: string[] = Array.isArray(body.recipients) ? body.recipients : []
+      const trackingId = body.trackingId || nextId("trk")
+      const attachmentsCount = Array.isArray(body.attachments) ? body.attachments.length : 0
+      const createContact = body.createContact === true || body.createContact === "true"
+
+      return {
+        status: 200,
+        data: {
+          success: true,
+          message: "Dry run: email was not sent",
+          successfulEmails: recipients.map((recipient) => ({
+            success: true,
+            recipient,
+            messageId: nextId("msg"),
+            trackingId,
+          })),
+          failedEmails: [],
+          recipientCount: recipients.length,
+          hasAttachments: attachmentsCount > 0,
+          attachmentsCount,
+          ...(createContact ? { contactsCreated: recipients.length } : {}),
+        },
+      }
+    }
+
+    if (resource === "contacts") {
+      if (request.method === "POST") {
+        const emails: string[] = Array.isArray(body.emails) ? body.emails : []
+        return {
+          status: 200,
+          data: {
+            success: true,
+            message: "Dry run: contacts were not created",
+            contactsCreated: emails.length,
+            contacts: emails.map((email) => ({ email, audienceId: body.audienceId, success: true })),
+          },
+        }
+      }
+      if (request.method === "PUT") {
+        return {
+          status: 200,
+          data: {
+            success: true,
+            message: "Dry run: contact was not updated",
+            contact: { email: body.email, audienceId: body.audienceId, updated: true, fields: body.fields || {}, updatedAt: now },
+          },
+        }
+      }
+      return {
+        status: 200,
+        data: { success: true, message: "Dry run: contact was not deleted", email: params[0], audienceId: params[1], deleted: true },
+      }
+    }
+
+    if (resource === "audiences") {
+      if (request.method === "POST") {
+        return {
+          status: 201,
+          data: {
+            success: true,
+            message: "Dry run: audience was not created",
+            audience: { id: nextId("aud"), name: body.name, description: body.description, userId: "dry-run", createdAt: now },
+          },
+        }
+      }
+      if (request.method === "PUT") {
+        return {
+          status: 200,
+          data: {
+            success: true,
+            message: "Dry run: audience was not updated",
+            audience: { id: params[0], name: body.name, description: body.description, userId: "dry-run", updatedAt: now },
+          },
+        }
+      }
+      return {
+        status: 200,
+        data: { success: true, message: "Dry run: audience was not deleted", id: params[0], deleted: true },
+      }
+    }
+
+    // Usage logs and anything else
+    return { status: 200, data: { success: true, message: "Dry run: request was not sent" } }
+  }
+
+  return {
+    async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+      if (request.method === "GET") {
+        return transport.request<T>(request)
+      }
+
+      const { status, data } = simulate(request)
+      const dryRun: DryRunRequest = {
+        method: request.method,
+        url: request.url,
+        headers: maskHeaders(request.headers),
+        data: request.data,
+      }
+
+      return { status, data: { ...data, dryRun } as T, headers: {} }
+    },
+  }
+}
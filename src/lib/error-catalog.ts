@@ -0,0 +1,246 @@
+/**
+ * Structured catalog of the Metigan error codes
+ * Describes each ErrorCode with its category, HTTP status, retry semantics,
+ * a remediation hint and a stable documentation anchor.
+ */
+
+import { ErrorCatalogs, ErrorCode, resolveLocale, type Locale } from "./error-codes"
+import { DEFAULT_RETRYABLE_STATUSES } from "./retry"
+
+/**
+ * Error categories, following the ErrorCode ranges
+ */
+export type ErrorCategory = "authentication" | "validation" | "api" | "contact" | "email" | "audience" | "unexpected"
+
+/**
+ * Catalog entry of an error code
+ */
+export interface ErrorInfo {
+  code: ErrorCode
+  /** ErrorCode name, e.g. CONTACT_NOT_FOUND */
+  name: string
+  category: ErrorCategory
+  /** HTTP status the API answers with, for errors reported by the API */
+  status?: number
+  /** Whether retrying the same call may succeed */
+  retryable: boolean
+  /** Human-readable message */
+  message: string
+  /** What to do about the error */
+  hint: string
+  /** Stable anchor of the error in the documentation, e.g. met-1300-contact-not-found */
+  docsAnchor: string
+}
+
+// Default HTTP status and retry semantics per code
+const ErrorSemantics: Record<ErrorCode, { status?: number; retryable: boolean }> = {
+  // Authentication errors
+  [ErrorCode.INVALID_API_KEY]: { status: 401, retryable: false },
+  [ErrorCode.API_KEY_EXPIRED]: { status: 401, retryable: false },
+  [ErrorCode.UNAUTHORIZED]: { status: 403, retryable: false },
+
+  // Validation errors
+  [ErrorCode.INVALID_EMAIL_FORMAT]: { status: 400, retryable: false },
+  [ErrorCode.INVALID_RECIPIENT]: { status: 422, retryable: false },
+  [ErrorCode.MISSING_REQUIRED_FIELD]: { status: 400, retryable: false },
+  [ErrorCode.INVALID_ATTACHMENT]: { status: 400, retryable: false },
+  [ErrorCode.ATTACHMENT_TOO_LARGE]: { status: 413, retryable: false },
+  [ErrorCode.INVALID_TEMPLATE]: { status: 400, retryable: false },
+  [ErrorCode.INVALID_AUDIENCE_ID]: { status: 400, retryable: false },
+
+  // API errors
+  [ErrorCode.API_REQUEST_FAILED]: { retryable: false },
+  [ErrorCode.RATE_LIMIT_EXCEEDED]: { status: 429, retryable: true },
+  [ErrorCode.SERVICE_UNAVAILABLE]: { status: 503, retryable: true },
+  [ErrorCode.NETWORK_ERROR]: { retryable: true },
+  [ErrorCode.TIMEOUT]: { retryable: true },
+  [ErrorCode.REQUEST_ABORTED]: { retryable: false },
+  [ErrorCode.CIRCUIT_OPEN]: { retryable: true },
+  [ErrorCode.INVALID_RESPONSE]: { retryable: false },
+  [ErrorCode.CLIENT_CLOSED]: { retryable: false },
+  [ErrorCode.LEGAL_BLOCKED]: { status: 451, retryable: false },
+  [ErrorCode.CONFLICT]: { status: 409, retryable: false },
+
+  // Contact errors
+  [ErrorCode.CONTACT_NOT_FOUND]: { status: 404, retryable: false },
+  [ErrorCode.CONTACT_ALREADY_EXISTS]: { status: 409, retryable: false },
+  [ErrorCode.CONTACT_UPDATE_FAILED]: { retryable: false },
+  [ErrorCode.CONTACT_DELETE_FAILED]: { retryable: false },
+
+  // Email errors
+  [ErrorCode.EMAIL_SEND_FAILED]: { retryable: false },
+  [ErrorCode.TEMPLATE_NOT_FOUND]: { status: 404, retryable: false },
+  [ErrorCode.INVALID_TEMPLATE_VARIABLES]: { status: 422, retryable: false },
+
+  // Audience errors
+  [ErrorCode.AUDIENCE_NOT_FOUND]: { status: 404, retryable: false },
+  [ErrorCode.AUDIENCE_ALREADY_EXISTS]: { status: 409, retryable: false },
+
+  // Unexpected errors
+  [ErrorCode.UNEXPECTED_ERROR]: { retryable: false },
+}
+
+/**
+ * Remediation hints by locale
+ */
+export const ErrorHints: Record<Locale, Record<ErrorCode, string>> = {
+  en: {
+    // Authentication errors
+    [ErrorCode.INVALID_API_KEY]: "Check the API key passed to the client, or create a new one in the dashboard",
+    [ErrorCode.API_KEY_EXPIRED]: "Create a new API key and replace the expired one",
+    [ErrorCode.UNAUTHORIZED]: "Verify that the API key has access to this resource",
+
+    // Validation errors
+    [ErrorCode.INVALID_EMAIL_FORMAT]: "Check the email address, e.g. name@example.com",
+    [ErrorCode.INVALID_RECIPIENT]: "Check the recipient addresses and remove the invalid ones",
+    [ErrorCode.MISSING_REQUIRED_FIELD]: "Provide every required field; the issues of the ValidationError list them",
+    [ErrorCode.INVALID_ATTACHMENT]: "Pass attachments as File, NodeAttachment or CustomAttachment objects",
+    [ErrorCode.ATTACHMENT_TOO_LARGE]: "Keep each attachment under 7MB, or link to large files instead",
+    [ErrorCode.INVALID_TEMPLATE]: "Check the template content and its {{placeholders}}",
+    [ErrorCode.INVALID_AUDIENCE_ID]: "Pass the ID of an existing audience",
+
+    // API errors
+    [ErrorCode.API_REQUEST_FAILED]: "Check the request and the response body; contact support with the request ID if it persists",
+    [ErrorCode.RATE_LIMIT_EXCEEDED]: "Slow down and retry after the delay given by the Retry-After header",
+    [ErrorCode.SERVICE_UNAVAILABLE]: "Retry later with exponential backoff",
+    [ErrorCode.NETWORK_ERROR]: "Check the network connection and the base URL, then retry",
+    [ErrorCode.TIMEOUT]: "Retry, or raise the timeout option on slow networks",
+    [ErrorCode.REQUEST_ABORTED]: "The call was cancelled through its AbortSignal; no action is needed",
+    [ErrorCode.CIRCUIT_OPEN]: "Wait for the circuit breaker to close; the API failed repeatedly",
+    [ErrorCode.INVALID_RESPONSE]: "Check that the base URL points to the Metigan API, and update the SDK",
+    [ErrorCode.CLIENT_CLOSED]: "Create a new client; this one was closed",
+    [ErrorCode.LEGAL_BLOCKED]: "The request cannot be served for legal reasons; contact support",
+    [ErrorCode.CONFLICT]: "Fetch the current state of the resource and apply the change again",
+
+    // Contact errors
+    [ErrorCode.CONTACT_NOT_FOUND]: "Check the contact email and the audience ID",
+    [ErrorCode.CONTACT_ALREADY_EXISTS]: "Update the existing contact instead of creating it",
+    [ErrorCode.CONTACT_UPDATE_FAILED]: "Check the contact fields and retry",
+    [ErrorCode.CONTACT_DELETE_FAILED]: "Check that the contact exists and retry",
+
+    // Email errors
+    [ErrorCode.EMAIL_SEND_FAILED]: "Verify the sender domain and the recipients, then retry",
+    [ErrorCode.TEMPLATE_NOT_FOUND]: "Check the template ID",
+    [ErrorCode.INVALID_TEMPLATE_VARIABLES]: "Provide a value for every variable the template uses",
+
+    // Audience errors
+    [ErrorCode.AUDIENCE_NOT_FOUND]: "Check the audience ID",
+    [ErrorCode.AUDIENCE_ALREADY_EXISTS]: "Choose another name, or use the existing audience",
+
+    // Unexpected errors
+    [ErrorCode.UNEXPECTED_ERROR]: "Inspect the error cause; contact support with the request ID if it persists",
+  },
+  pt: {
+    // Authentication errors
+    [ErrorCode.INVALID_API_KEY]: "Verifique a chave de API passada ao cliente ou crie uma nova no painel",
+    [ErrorCode.API_KEY_EXPIRED]: "Crie uma nova chave de API e substitua a expirada",
+    [ErrorCode.UNAUTHORIZED]: "Verifique se a chave de API tem acesso a este recurso",
+
+    // Validation errors
+    [ErrorCode.INVALID_EMAIL_FORMAT]: "Verifique o endereço de email, por exemplo nome@exemplo.com",
+    [ErrorCode.INVALID_RECIPIENT]: "Verifique os endereços dos destinatários e remova os inválidos",
+    [ErrorCode.MISSING_REQUIRED_FIELD]: "Informe todos os campos obrigatórios; os issues do ValidationError os listam",
+    [ErrorCode.INVALID_ATTACHMENT]: "Envie os anexos como objetos File, NodeAttachment ou CustomAttachment",
+    [ErrorCode.ATTACHMENT_TOO_LARGE]: "Mantenha cada anexo abaixo de 7MB ou use links para arquivos grandes",
+    [ErrorCode.INVALID_TEMPLATE]: "Verifique o conteúdo do template e seus {{placeholders}}",
+    [ErrorCode.INVALID_AUDIENCE_ID]: "Informe o ID de uma audiência existente",
+
+    // API errors
+    [ErrorCode.API_REQUEST_FAILED]: "Verifique a requisição e o corpo da resposta; contate o suporte com o ID da requisição se persistir",
+    [ErrorCode.RATE_LIMIT_EXCEEDED]: "Reduza o ritmo e tente novamente após o intervalo do cabeçalho Retry-After",
+    [ErrorCode.SERVICE_UNAVAILABLE]: "Tente novamente mais tarde, com backoff exponencial",
+    [ErrorCode.NETWORK_ERROR]: "Verifique a conexão de rede e a URL base e tente novamente",
+    [ErrorCode.TIMEOUT]: "Tente novamente ou aumente a opção timeout em redes lentas",
+    [ErrorCode.REQUEST_ABORTED]: "A chamada foi cancelada pelo seu AbortSignal; nenhuma ação é necessária",
+    [ErrorCode.CIRCUIT_OPEN]: "Aguarde o circuit breaker fechar; a API falhou repetidamente",
+    [ErrorCode.INVALID_RESPONSE]: "Verifique se a URL base aponta para a API da Metigan e atualize o SDK",
+    [ErrorCode.CLIENT_CLOSED]: "Crie um novo cliente; este foi fechado",
+    [ErrorCode.LEGAL_BLOCKED]: "A requisição não pode ser atendida por motivos legais; contate o suporte",
+    [ErrorCode.CONFLICT]: "Obtenha o estado atual do recurso e aplique a alteração novamente",
+
+    // Contact errors
+    [ErrorCode.CONTACT_NOT_FOUND]: "Verifique o email do contato e o ID da audiência",
+    [ErrorCode.CONTACT_ALREADY_EXISTS]: "Atualize o contato existente em vez de criá-lo",
+    [ErrorCode.CONTACT_UPDATE_FAILED]: "Verifique os campos do contato e tente novamente",
+    [ErrorCode.CONTACT_DELETE_FAILED]: "Verifique se o contato existe e tente novamente",
+
+    // Email errors
+    [ErrorCode.EMAIL_SEND_FAILED]: "Verifique o domínio do remetente e os destinatários e tente novamente",
+    [ErrorCode.TEMPLATE_NOT_FOUND]: "Verifique o ID do template",
+    [ErrorCode.INVALID_TEMPLATE_VARIABLES]: "Informe um valor para cada variável usada pelo template",
+
+    // Audience errors
+    [ErrorCode.AUDIENCE_NOT_FOUND]: "Verifique o ID da audiência",
+    [ErrorCode.AUDIENCE_ALREADY_EXISTS]: "Escolha outro nome ou use a audiência existente",
+
+    // Unexpected errors
+    [ErrorCode.UNEXPECTED_ERROR]: "Inspecione a causa do erro; contate o suporte com o ID da requisição se persistir",
+  },
+}
+
+/**
+ * Category of an error code, from its range
+ * @param code - Error code
+ * @returns Error category
+ */
+function getCategory(code: ErrorCode): ErrorCategory {
+  if (code < 1100) return "authentication"
+  if (code < 1200) return "validation"
+  if (code < 1300) return "api"
+  if (code < 1400) return "contact"
+  if (code < 1500) return "email"
+  if (code < 1600) return "audience"
+  return "unexpected"
+}
+
+/**
+ * Looks up the catalog entry of an error code
+ * @param code - Error code
+ * @param locale - Locale of the message and hint, e.g. "pt" or "pt-BR" (default: "en")
+ * @returns Catalog entry, or undefined for unknown codes
+ */
+export function getErrorInfo(code: ErrorCode, locale?: string): ErrorInfo | undefined {
+  const semantics = ErrorSemantics[code]
+  if (!semantics) return undefined
+
+  const resolved = resolveLocale(locale)
+  const name = ErrorCode[code]
+  const info: ErrorInfo = {
+    code,
+    name,
+    category: getCategory(code),
+    retryable: semantics.retryable,
+    message: ErrorCatalogs[resolved][code],
+    hint: ErrorHints[resolved][code],
+    docsAnchor: `met-${code}-${name.toLowerCase().replace(/_/g, "-")}`,
+  }
+  if (semantics.status !== undefined) {
+    info.status = semantics.status
+  }
+  return info
+}
+
+/**
+ * Lists the catalog entries of every error code
+ * @param locale - Locale of the messages and hints (default: "en")
+ * @returns Catalog entries, ordered by code
+ */
+export function getErrorCatalog(locale?: string): ErrorInfo[] {
+  return (Object.keys(ErrorSemantics) as unknown as string[])
+    .map((code) => getErrorInfo(Number(code) as ErrorCode, locale) as ErrorInfo)
+    .sort((a, b) => a.code - b.code)
+}
+
+/**
+ * Check whether a failure is transient, so retrying the same call may succeed
+ * The HTTP status decides when there is one, using the statuses the retry policy retries by default.
+ * @param code - Error code
+ * @param status - HTTP status of the failed response
+ * @returns True if the failure is retryable
+ */
+export function isRetryableCode(code: ErrorCode, status?: number): boolean {
+  if (status !== undefined) {
+    return DEFAULT_RETRYABLE_STATUSES.includes(status)
+  }
+  return ErrorSemantics[code]?.retryable ?? false
+}
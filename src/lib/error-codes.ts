@@ -24,6 +24,12 @@ export enum ErrorCode {
   SERVICE_UNAVAILABLE = 1202,
   NETWORK_ERROR = 1203,
   TIMEOUT = 1204,
+  REQUEST_ABORTED = 1205,
+  CIRCUIT_OPEN = 1206,
+  INVALID_RESPONSE = 1207,
+  CLIENT_CLOSED = 1208,
+  LEGAL_BLOCKED = 1209,
+  CONFLICT = 1210,
 
   // Contact errors (1300-1399)
   CONTACT_NOT_FOUND = 1300,
@@ -36,13 +42,33 @@ export enum ErrorCode {
   TEMPLATE_NOT_FOUND = 1401,
   INVALID_TEMPLATE_VARIABLES = 1402,
 
+  // Audience errors (1500-1599)
+  AUDIENCE_NOT_FOUND = 1500,
+  AUDIENCE_ALREADY_EXISTS = 1501,
+
   // Unexpected errors (1900-1999)
   UNEXPECTED_ERROR = 1900
 }
 
+/**
+* Locales with error message catalogs
+*/
+export type Locale = "en" | "pt";
+
+/**
+* Resolve a locale tag to a supported locale
+* Region subtags are ignored ("pt-BR" is "pt"); unsupported locales fall back to "en".
+* @param locale - Locale tag
+* @returns Supported locale
+*/
+export function resolveLocale(locale?: string): Locale {
+  const language = (locale || "").toLowerCase().split(/[-_]/)[0];
+  return language === "pt" ? "pt" : "en";
+}
+
 /**
 * Error message mapping
-* Maps error codes to human-readable messages
+* Maps error codes to human-readable messages (English)
 */
 export const ErrorMessages: Record<ErrorCode, string> = {
   // Authentication errors
@@ -65,6 +91,12 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.SERVICE_UNAVAILABLE]: "Service temporarily unavailable",
   [ErrorCode.NETWORK_ERROR]: "Network connection error",
   [ErrorCode.TIMEOUT]: "Request timed out",
+  [ErrorCode.REQUEST_ABORTED]: "Request was aborted",
+  [ErrorCode.CIRCUIT_OPEN]: "Service unavailable, circuit breaker is open",
+  [ErrorCode.INVALID_RESPONSE]: "Malformed API response",
+  [ErrorCode.CLIENT_CLOSED]: "Client is closed",
+  [ErrorCode.LEGAL_BLOCKED]: "Request blocked for legal reasons",
+  [ErrorCode.CONFLICT]: "Request conflicts with the current state of the resource",
 
   // Contact errors
   [ErrorCode.CONTACT_NOT_FOUND]: "Contact not found",
@@ -77,18 +109,81 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.TEMPLATE_NOT_FOUND]: "Email template not found",
   [ErrorCode.INVALID_TEMPLATE_VARIABLES]: "Invalid template variables",
 
+  // Audience errors
+  [ErrorCode.AUDIENCE_NOT_FOUND]: "Audience not found",
+  [ErrorCode.AUDIENCE_ALREADY_EXISTS]: "Audience already exists",
+
   // Unexpected errors
   [ErrorCode.UNEXPECTED_ERROR]: "An unexpected error occurred"
 };
 
+/**
+* Portuguese error messages
+*/
+const PortugueseErrorMessages: Record<ErrorCode, string> = {
+  // Authentication errors
+  [ErrorCode.INVALID_API_KEY]: "Chave de API inválida",
+  [ErrorCode.API_KEY_EXPIRED]: "A chave de API expirou",
+  [ErrorCode.UNAUTHORIZED]: "Acesso não autorizado",
+
+  // Validation errors
+  [ErrorCode.INVALID_EMAIL_FORMAT]: "Formato de email inválido",
+  [ErrorCode.INVALID_RECIPIENT]: "Email do destinatário inválido",
+  [ErrorCode.MISSING_REQUIRED_FIELD]: "Campo obrigatório ausente",
+  [ErrorCode.INVALID_ATTACHMENT]: "Formato de anexo inválido",
+  [ErrorCode.ATTACHMENT_TOO_LARGE]: "O anexo excede o tamanho máximo de 7MB",
+  [ErrorCode.INVALID_TEMPLATE]: "Formato de template inválido",
+  [ErrorCode.INVALID_AUDIENCE_ID]: "ID de audiência inválido",
+
+  // API errors
+  [ErrorCode.API_REQUEST_FAILED]: "Falha na requisição à API",
+  [ErrorCode.RATE_LIMIT_EXCEEDED]: "Limite de requisições excedido",
+  [ErrorCode.SERVICE_UNAVAILABLE]: "Serviço temporariamente indisponível",
+  [ErrorCode.NETWORK_ERROR]: "Erro de conexão de rede",
+  [ErrorCode.TIMEOUT]: "A requisição excedeu o tempo limite",
+  [ErrorCode.REQUEST_ABORTED]: "A requisição foi cancelada",
+  [ErrorCode.CIRCUIT_OPEN]: "Serviço indisponível, o circuit breaker está aberto",
+  [ErrorCode.INVALID_RESPONSE]: "Resposta da API malformada",
+  [ErrorCode.CLIENT_CLOSED]: "O cliente está fechado",
+  [ErrorCode.LEGAL_BLOCKED]: "Requisição bloqueada por motivos legais",
+  [ErrorCode.CONFLICT]: "A requisição conflita com o estado atual do recurso",
+
+  // Contact errors
+  [ErrorCode.CONTACT_NOT_FOUND]: "Contato não encontrado",
+  [ErrorCode.CONTACT_ALREADY_EXISTS]: "O contato já existe",
+  [ErrorCode.CONTACT_UPDATE_FAILED]: "Falha ao atualizar o contato",
+  [ErrorCode.CONTACT_DELETE_FAILED]: "Falha ao excluir o contato",
+
+  // Email errors
+  [ErrorCode.EMAIL_SEND_FAILED]: "Falha ao enviar o email",
+  [ErrorCode.TEMPLATE_NOT_FOUND]: "Template de email não encontrado",
+  [ErrorCode.INVALID_TEMPLATE_VARIABLES]: "Variáveis de template inválidas",
+
+  // Audience errors
+  [ErrorCode.AUDIENCE_NOT_FOUND]: "Audiência não encontrada",
+  [ErrorCode.AUDIENCE_ALREADY_EXISTS]: "A audiência já existe",
+
+  // Unexpected errors
+  [ErrorCode.UNEXPECTED_ERROR]: "Ocorreu um erro inesperado"
+};
+
+/**
+* Error message catalogs by locale
+*/
+export const ErrorCatalogs: Record<Locale, Record<ErrorCode, string>> = {
+  en: ErrorMessages,
+  pt: PortugueseErrorMessages,
+};
+
 /**
 * Get error details from code
 * @param code - Error code
 * @param context - Additional context for the error
+* @param locale - Locale of the message, e.g. "pt" or "pt-BR" (default: "en")
 * @returns Formatted error message with code
 */
-export function getErrorDetails(code: ErrorCode, context?: string): string {
-  const baseMessage = ErrorMessages[code] || "Unknown error";
+export function getErrorDetails(code: ErrorCode, context?: string, locale?: string): string {
+  const baseMessage = ErrorCatalogs[resolveLocale(locale)][code] || ErrorMessages[code] || "Unknown error";
   const errorCode = `MET-${code}`;
   
   if (context) {
@@ -96,4 +191,102 @@ export function getErrorDetails(code: ErrorCode, context?: string): string {
   }
   
   return `${errorCode}: ${baseMessage}`;
-}
\ No newline at end of file
+}
+
+/**
+* API resources, used to map HTTP statuses to resource-specific error codes
+*/
+export type ErrorResource = "email" | "template" | "contacts" | "audiences";
+
+/**
+* Server error codes that differ from the SDK's ErrorCode names
+*/
+const SERVER_CODE_ALIASES: Record<string, ErrorCode> = {
+  API_KEY_INVALID: ErrorCode.INVALID_API_KEY,
+  FORBIDDEN: ErrorCode.UNAUTHORIZED,
+  UNAUTHENTICATED: ErrorCode.UNAUTHORIZED,
+  INVALID_EMAIL: ErrorCode.INVALID_EMAIL_FORMAT,
+  VALIDATION_ERROR: ErrorCode.MISSING_REQUIRED_FIELD,
+  PAYLOAD_TOO_LARGE: ErrorCode.ATTACHMENT_TOO_LARGE,
+  FILE_TOO_LARGE: ErrorCode.ATTACHMENT_TOO_LARGE,
+  RATE_LIMITED: ErrorCode.RATE_LIMIT_EXCEEDED,
+  TOO_MANY_REQUESTS: ErrorCode.RATE_LIMIT_EXCEEDED,
+  UNAVAILABLE_FOR_LEGAL_REASONS: ErrorCode.LEGAL_BLOCKED,
+  DUPLICATE_CONTACT: ErrorCode.CONTACT_ALREADY_EXISTS,
+  DUPLICATE_AUDIENCE: ErrorCode.AUDIENCE_ALREADY_EXISTS,
+};
+
+/**
+* Translate an error code sent by the server into an ErrorCode
+* Accepts ErrorCode names in any case ("contact_not_found"), numeric codes
+* (1300 or "MET-1300") and a few common aliases.
+* @param serverCode - Code from the error response body
+* @returns Matching ErrorCode, or undefined if the code is unknown
+*/
+export function fromServerErrorCode(serverCode: unknown): ErrorCode | undefined {
+  if (typeof serverCode === "number") {
+      return ErrorMessages[serverCode as ErrorCode] !== undefined ? serverCode as ErrorCode : undefined;
+  }
+  if (typeof serverCode !== "string" || !serverCode.trim()) {
+      return undefined;
+  }
+
+  const numeric = /^(?:MET-)?(\d+)$/i.exec(serverCode.trim());
+  if (numeric) {
+      return fromServerErrorCode(parseInt(numeric[1], 10));
+  }
+
+  const name = serverCode.trim().toUpperCase().replace(/[\s-]+/g, "_");
+  const code = (ErrorCode as unknown as Record<string, ErrorCode | string>)[name];
+  if (typeof code === "number") {
+      return code;
+  }
+  return SERVER_CODE_ALIASES[name];
+}
+
+/**
+* Map an HTTP status to an error code
+* With a resource, 404, 409 and 422 map to that resource's codes and other
+* client errors to its generic failure code.
+* @param status - HTTP status code
+* @param resource - Resource the request targeted
+* @returns Error code
+*/
+export function getErrorCodeForStatus(status: number, resource?: ErrorResource): ErrorCode {
+  switch (status) {
+      case 401:
+      case 403:
+          return ErrorCode.UNAUTHORIZED;
+      case 404:
+          if (resource === "contacts") return ErrorCode.CONTACT_NOT_FOUND;
+          if (resource === "audiences") return ErrorCode.AUDIENCE_NOT_FOUND;
+          if (resource === "template") return ErrorCode.TEMPLATE_NOT_FOUND;
+          break;
+      case 409:
+          if (resource === "contacts") return ErrorCode.CONTACT_ALREADY_EXISTS;
+          if (resource === "audiences") return ErrorCode.AUDIENCE_ALREADY_EXISTS;
+          return ErrorCode.CONFLICT;
+      case 413:
+          if (resource === "email" || resource === "template") return ErrorCode.ATTACHMENT_TOO_LARGE;
+          break;
+      case 422:
+          if (resource === "email") return ErrorCode.INVALID_RECIPIENT;
+          if (resource === "template") return ErrorCode.INVALID_TEMPLATE_VARIABLES;
+          if (resource === "contacts") return ErrorCode.INVALID_EMAIL_FORMAT;
+          return ErrorCode.MISSING_REQUIRED_FIELD;
+      case 429:
+          return ErrorCode.RATE_LIMIT_EXCEEDED;
+      case 451:
+          return ErrorCode.LEGAL_BLOCKED;
+      case 500:
+      case 502:
+      case 503:
+      case 504:
+          return ErrorCode.SERVICE_UNAVAILABLE;
+  }
+
+  if (status === 400 && !resource) {
+      return ErrorCode.MISSING_REQUIRED_FIELD;
+  }
+  return resource === "email" || resource === "template" ? ErrorCode.EMAIL_SEND_FAILED : ErrorCode.API_REQUEST_FAILED;
+}
@@ -2,19 +2,93 @@
  * Custom error classes for Metigan
  */
 
-import { ErrorCode, getErrorDetails } from "./error-codes";
+import { ErrorCode, fromServerErrorCode, getErrorCodeForStatus, getErrorDetails, type ErrorResource } from "./error-codes";
+import { isRetryableCode } from "./error-catalog";
+import { formatMessage } from "./messages";
+import { getRequestId } from "./metadata";
+import type { ResponseMetadata, ValidationIssue } from "./types";
+
+// Original messages of redacted errors, kept off the error objects themselves
+const unredactedMessages = new WeakMap<Error, string>();
+
+// Error class brand, shared by every copy of the package through the global symbol registry
+const ERROR_BRAND: unique symbol = Symbol.for("metigan.error");
+
+/**
+ * Optional properties of a Metigan error
+ */
+export interface MetiganErrorOptions {
+    /** Error that caused this one */
+    cause?: unknown;
+    /** Whether retrying the same call may succeed (default: derived from the code and status) */
+    retryable?: boolean;
+    /** HTTP status of the failed response */
+    status?: number;
+    /** Structured details about the failure */
+    details?: Record<string, unknown>;
+    /** Path of the offending field, e.g. recipients[2] */
+    path?: string;
+}
+
+/**
+ * Plain object form of a Metigan error, as returned by toJSON()
+ */
+export interface SerializedMetiganError {
+    name: string;
+    message: string;
+    code: ErrorCode;
+    retryable: boolean;
+    status?: number;
+    details?: Record<string, unknown>;
+    path?: string;
+    requestId?: string;
+    meta?: ResponseMetadata;
+    headers?: Record<string, string>;
+    data?: any;
+    issues?: ValidationIssue[];
+    stack?: string;
+    cause?: unknown;
+}
 
 /**
  * Base error class for Metigan-specific errors
  * Hides implementation details from stack traces
  */
 export class MetiganError extends Error {
+    static readonly [ERROR_BRAND]: string = "MetiganError";
+
     code: ErrorCode;
+    /** Whether retrying the same call may succeed */
+    retryable: boolean;
+    /** HTTP status, when the server responded */
+    status?: number;
+    /** Structured details about the failure */
+    details?: Record<string, unknown>;
+    /** Path of the offending field, e.g. recipients[2] */
+    path?: string;
+    /** Error that caused this one */
+    cause?: unknown;
+    /** Metadata of the HTTP exchange that failed, when a request was made */
+    meta?: ResponseMetadata;
   
-    constructor(message: string, code: ErrorCode = ErrorCode.UNEXPECTED_ERROR) {
+    constructor(message: string, code: ErrorCode = ErrorCode.UNEXPECTED_ERROR, options: MetiganErrorOptions = {}) {
         super(message);
         this.name = "MetiganError";
         this.code = code;
+        if (options.status !== undefined) {
+            this.status = options.status;
+        }
+        this.retryable = options.retryable ?? isRetryableCode(code, options.status);
+        if (options.details !== undefined) {
+            this.details = options.details;
+        }
+        if (options.path !== undefined) {
+            this.path = options.path;
+        }
+        // Same semantics as the standard Error cause: own, non-enumerable, only when given
+        if ("cause" in options) {
+            Object.defineProperty(this, "cause", { value: options.cause, writable: true, configurable: true, enumerable: false });
+        }
 
         // This prevents the implementation details from showing in the stack trace
         if (Error.captureStackTrace) {
@@ -23,10 +97,53 @@ export class MetiganError extends Error {
     }
 
     /**
-     * Get a formatted error message with code
+     * Recognize errors created by another copy of the package too,
+     * e.g. when two versions are installed side by side
+     * Subclasses without a brand of their own, such as user subclasses, use the
+     * plain prototype check, so the brand they inherit never matches their parent.
+     * @param value - Value to check
+     * @returns True if the value is an instance of this error class
+     */
+    static [Symbol.hasInstance](value: unknown): boolean {
+        if (Function.prototype[Symbol.hasInstance].call(this, value)) {
+            return true;
+        }
+        if (value === null || typeof value !== "object" || !Object.prototype.hasOwnProperty.call(this, ERROR_BRAND)) {
+            return false;
+        }
+
+        const brand = this[ERROR_BRAND];
+        for (let proto = Object.getPrototypeOf(value); proto; proto = Object.getPrototypeOf(proto)) {
+            if (proto.constructor?.[ERROR_BRAND] === brand) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Request ID reported by the server, to quote in support tickets
+     */
+    get requestId(): string | undefined {
+        return this.meta?.requestId;
+    }
+
+    /**
+     * Get the message as it was before PII redaction
+     * Only use it where personal data may be handled, never in logs
+     */
+    getUnredactedMessage(): string {
+        return unredactedMessages.get(this) ?? this.message;
+    }
+
+    /**
+     * Get a formatted error message with code and request ID
      */
     getFormattedMessage(): string {
-        return `MET-${this.code}: ${this.message}`;
+        const requestId = this.requestId;
+        return requestId
+            ? `MET-${this.code}: ${this.message} (request ID: ${requestId})`
+            : `MET-${this.code}: ${this.message}`;
     }
 
     /**
@@ -38,15 +155,78 @@ export class MetiganError extends Error {
     static fromCode(code: ErrorCode, context?: string): MetiganError {
         return new MetiganError(getErrorDetails(code, context), code);
     }
+
+    /**
+     * Convert the error to a plain object, e.g. to persist or transport it
+     * The message is the redacted one; the cause chain is serialized too.
+     * @returns Serialized error
+     */
+    toJSON(): SerializedMetiganError {
+        const json: SerializedMetiganError = {
+            name: this.name,
+            message: this.message,
+            code: this.code,
+            retryable: this.retryable,
+        };
+        if (this.status !== undefined) json.status = this.status;
+        if (this.details !== undefined) json.details = this.details;
+        if (this.path !== undefined) json.path = this.path;
+        if (this.requestId !== undefined) json.requestId = this.requestId;
+        if (this.meta !== undefined) json.meta = this.meta;
+        if (this.stack !== undefined) json.stack = this.stack;
+        if ("cause" in this) json.cause = serializeCause(this.cause);
+        return json;
+    }
+
+    /**
+     * Recreate an error from the output of toJSON()
+     * The error gets the class named in the payload, falling back to MetiganError.
+     * @param json - Serialized error
+     * @returns Error instance
+     */
+    static fromJSON(json: SerializedMetiganError): MetiganError {
+        const options: MetiganErrorOptions = {
+            retryable: json.retryable,
+            status: json.status,
+            details: json.details,
+            path: json.path,
+        };
+        if ("cause" in json) {
+            options.cause = deserializeCause(json.cause);
+        }
+
+        const create = errorFactories[json.name] || errorFactories.MetiganError;
+        const error = create(json.message, json.code, options);
+        if (error instanceof ValidationError && json.issues) {
+            error.issues = json.issues;
+        }
+        if (json.meta !== undefined) error.meta = json.meta;
+        if (json.stack !== undefined) error.stack = json.stack;
+        if (error instanceof ApiError) {
+            error.headers = json.headers;
+            error.data = json.data;
+        }
+        return error;
+    }
 }
 
 /**
  * Error thrown when validation fails
  */
 export class ValidationError extends MetiganError {
-    constructor(message: string, code: ErrorCode = ErrorCode.MISSING_REQUIRED_FIELD) {
-        super(message, code);
+    static readonly [ERROR_BRAND]: string = "ValidationError";
+
+    /** Every problem found, in the order they were checked */
+    issues: ValidationIssue[];
+
+    constructor(
+        message: string,
+        code: ErrorCode = ErrorCode.MISSING_REQUIRED_FIELD,
+        options: MetiganErrorOptions & { issues?: ValidationIssue[] } = {},
+    ) {
+        super(message, code, options);
         this.name = "ValidationError";
+        this.issues = options.issues || [];
         
         // Ensure stack trace is properly captured
         if (Error.captureStackTrace) {
@@ -54,6 +234,25 @@ export class ValidationError extends MetiganError {
         }
     }
 
+    /**
+     * Create a validation error reporting every issue found
+     * The message, code and path are those of the first issue.
+     * @param issues - Validation issues (at least one)
+     * @returns ValidationError instance
+     */
+    static fromIssues(issues: ValidationIssue[]): ValidationError {
+        const [first] = issues;
+        return new ValidationError(first.message, first.code, { path: first.path, issues });
+    }
+
+    /**
+     * Convert the error to a plain object, issues included
+     * @returns Serialized error
+     */
+    toJSON(): SerializedMetiganError {
+        return { ...super.toJSON(), issues: this.issues };
+    }
+
     /**
      * Create a validation error from an error code
      * @param code - Error code
@@ -69,12 +268,23 @@ export class ValidationError extends MetiganError {
  * Error thrown when API request fails
  */
 export class ApiError extends MetiganError {
-    status?: number;
+    static readonly [ERROR_BRAND]: string = "ApiError";
+
+    /** Response headers (lower-cased names), when the server responded */
+    headers?: Record<string, string>;
+    /** Response body, when the server responded */
+    data?: any;
 
-    constructor(message: string, code: ErrorCode = ErrorCode.API_REQUEST_FAILED, status?: number) {
-        super(message, code);
+    constructor(
+        message: string,
+        code: ErrorCode = ErrorCode.API_REQUEST_FAILED,
+        status?: number,
+        headers?: Record<string, string>,
+        options: MetiganErrorOptions = {},
+    ) {
+        super(message, code, { ...options, status: status ?? options.status });
         this.name = "ApiError";
-        this.status = status;
+        this.headers = headers;
         
         // Ensure stack trace is properly captured
         if (Error.captureStackTrace) {
@@ -82,6 +292,24 @@ export class ApiError extends MetiganError {
         }
     }
 
+    /**
+     * Request ID reported by the server, read from the response headers when no metadata was attached
+     */
+    get requestId(): string | undefined {
+        return this.meta?.requestId ?? getRequestId(this.headers);
+    }
+
+    /**
+     * Convert the error to a plain object, response headers and body included
+     * @returns Serialized error
+     */
+    toJSON(): SerializedMetiganError {
+        const json = super.toJSON();
+        if (this.headers !== undefined) json.headers = this.headers;
+        if (this.data !== undefined) json.data = this.data;
+        return json;
+    }
+
     /**
      * Create an API error from an error code
      * @param code - Error code
@@ -109,38 +337,34 @@ export class ApiError extends MetiganError {
      * Create an API error from HTTP status
      * @param status - HTTP status code
      * @param context - Additional context for the error
+     * @param headers - Response headers
+     * @param resource - Resource the request targeted, for resource-specific codes
+     * @param locale - Locale of the message (default: "en")
      * @returns ApiError instance
      */
-    static fromStatus(status: number, context?: string): ApiError {
-        let code: ErrorCode;
+    static fromStatus(status: number, context?: string, headers?: Record<string, string>, resource?: ErrorResource, locale?: string): ApiError {
+        const code = getErrorCodeForStatus(status, resource);
+        return new ApiError(getErrorDetails(code, context, locale), code, status, headers);
+    }
+}
+
+/**
+ * Error thrown when an API response does not match its expected shape
+ */
+export class ResponseValidationError extends MetiganError {
+    static readonly [ERROR_BRAND]: string = "ResponseValidationError";
+
+    /** Path of the offending value in the payload, e.g. $.successfulEmails[0].messageId */
+    path!: string;
+
+    constructor(message: string, path: string, code: ErrorCode = ErrorCode.INVALID_RESPONSE, options: MetiganErrorOptions = {}) {
+        super(message, code, { ...options, path });
+        this.name = "ResponseValidationError";
         
-        switch (status) {
-            case 400:
-                code = ErrorCode.MISSING_REQUIRED_FIELD;
-                break;
-            case 401:
-            case 403:
-                code = ErrorCode.UNAUTHORIZED;
-                break;
-            case 404:
-                code = ErrorCode.API_REQUEST_FAILED;
-                break;
-            case 422:
-                code = ErrorCode.INVALID_EMAIL_FORMAT;
-                break;
-            case 429:
-                code = ErrorCode.RATE_LIMIT_EXCEEDED;
-                break;
-            case 500:
-            case 502:
-            case 503:
-                code = ErrorCode.SERVICE_UNAVAILABLE;
-                break;
-            default:
-                code = ErrorCode.API_REQUEST_FAILED;
+        // Ensure stack trace is properly captured
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, this.constructor);
         }
-        
-        return new ApiError(getErrorDetails(code, context), code, status);
     }
 }
 
@@ -148,8 +372,10 @@ export class ApiError extends MetiganError {
  * Error thrown when network issues occur
  */
 export class NetworkError extends MetiganError {
-    constructor(message: string, code: ErrorCode = ErrorCode.NETWORK_ERROR) {
-        super(message, code);
+    static readonly [ERROR_BRAND]: string = "NetworkError";
+
+    constructor(message: string, code: ErrorCode = ErrorCode.NETWORK_ERROR, options: MetiganErrorOptions = {}) {
+        super(message, code, options);
         this.name = "NetworkError";
         
         // Ensure stack trace is properly captured
@@ -173,8 +399,10 @@ export class NetworkError extends MetiganError {
  * Error thrown when contact operations fail
  */
 export class ContactError extends MetiganError {
-    constructor(message: string, code: ErrorCode = ErrorCode.CONTACT_NOT_FOUND) {
-        super(message, code);
+    static readonly [ERROR_BRAND]: string = "ContactError";
+
+    constructor(message: string, code: ErrorCode = ErrorCode.CONTACT_NOT_FOUND, options: MetiganErrorOptions = {}) {
+        super(message, code, options);
         this.name = "ContactError";
         
         // Ensure stack trace is properly captured
@@ -192,4 +420,248 @@ export class ContactError extends MetiganError {
     static fromCode(code: ErrorCode, context?: string): ContactError {
         return new ContactError(getErrorDetails(code, context), code);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Error thrown when audience operations fail
+ */
+export class AudienceError extends MetiganError {
+    static readonly [ERROR_BRAND]: string = "AudienceError";
+
+    constructor(message: string, code: ErrorCode = ErrorCode.AUDIENCE_NOT_FOUND, options: MetiganErrorOptions = {}) {
+        super(message, code, options);
+        this.name = "AudienceError";
+        
+        // Ensure stack trace is properly captured
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, this.constructor);
+        }
+    }
+
+    /**
+     * Create an audience error from an error code
+     * @param code - Error code
+     * @param context - Additional context for the error
+     * @returns AudienceError instance
+     */
+    static fromCode(code: ErrorCode, context?: string): AudienceError {
+        return new AudienceError(getErrorDetails(code, context), code);
+    }
+}
+
+/**
+ * Error thrown when a template is missing or cannot be rendered
+ */
+export class TemplateError extends MetiganError {
+    static readonly [ERROR_BRAND]: string = "TemplateError";
+
+    constructor(message: string, code: ErrorCode = ErrorCode.TEMPLATE_NOT_FOUND, options: MetiganErrorOptions = {}) {
+        super(message, code, options);
+        this.name = "TemplateError";
+        
+        // Ensure stack trace is properly captured
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, this.constructor);
+        }
+    }
+
+    /**
+     * Create a template error from an error code
+     * @param code - Error code
+     * @param context - Additional context for the error
+     * @returns TemplateError instance
+     */
+    static fromCode(code: ErrorCode, context?: string): TemplateError {
+        return new TemplateError(getErrorDetails(code, context), code);
+    }
+}
+
+/**
+ * Error thrown when an attachment is invalid or too large
+ */
+export class AttachmentError extends MetiganError {
+    static readonly [ERROR_BRAND]: string = "AttachmentError";
+
+    constructor(message: string, code: ErrorCode = ErrorCode.INVALID_ATTACHMENT, options: MetiganErrorOptions = {}) {
+        super(message, code, options);
+        this.name = "AttachmentError";
+        
+        // Ensure stack trace is properly captured
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, this.constructor);
+        }
+    }
+
+    /**
+     * Create an attachment error from an error code
+     * @param code - Error code
+     * @param context - Additional context for the error
+     * @returns AttachmentError instance
+     */
+    static fromCode(code: ErrorCode, context?: string): AttachmentError {
+        return new AttachmentError(getErrorDetails(code, context), code);
+    }
+}
+
+/**
+ * Error thrown when the server answers 409 Conflict, e.g. a duplicate audience
+ */
+export class ConflictError extends ApiError {
+    static readonly [ERROR_BRAND]: string = "ConflictError";
+
+    constructor(
+        message: string,
+        code: ErrorCode = ErrorCode.CONFLICT,
+        status: number = 409,
+        headers?: Record<string, string>,
+        options: MetiganErrorOptions = {},
+    ) {
+        super(message, code, status, headers, options);
+        this.name = "ConflictError";
+        
+        // Ensure stack trace is properly captured
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, this.constructor);
+        }
+    }
+
+    /**
+     * Create a conflict error from an error code
+     * @param code - Error code
+     * @param context - Additional context for the error
+     * @returns ConflictError instance
+     */
+    static fromCode(code: ErrorCode, context?: string): ConflictError {
+        return new ConflictError(getErrorDetails(code, context), code);
+    }
+}
+
+/**
+ * Create the error for an API error response
+ * The code comes from the server's error code when it sends a known one,
+ * otherwise from the HTTP status and resource; the class follows the code.
+ * @param status - HTTP status code
+ * @param data - Response body
+ * @param resource - Resource the request targeted
+ * @param headers - Response headers
+ * @param message - Message replacing the server's
+ * @param cause - Error thrown by the transport
+ * @param locale - Locale of the fallback message, e.g. "pt" or "pt-BR" (default: "en")
+ * @returns Error instance
+ */
+export function createResponseError(
+    status: number,
+    data: any,
+    resource: ErrorResource,
+    headers?: Record<string, string>,
+    message?: string,
+    cause?: unknown,
+    locale?: string,
+): MetiganError {
+    const code =
+        fromServerErrorCode(data?.code) ??
+        fromServerErrorCode(data?.errorCode) ??
+        getErrorCodeForStatus(status, resource);
+    const text = message || data?.message || data?.error || formatMessage("requestFailed", { status }, locale);
+
+    const options: MetiganErrorOptions = cause === undefined ? { status } : { status, cause };
+
+    let error: MetiganError;
+    if (status === 409 || code === ErrorCode.CONFLICT || code === ErrorCode.CONTACT_ALREADY_EXISTS || code === ErrorCode.AUDIENCE_ALREADY_EXISTS) {
+        error = new ConflictError(text, code, status, headers, options);
+    } else if (code === ErrorCode.AUDIENCE_NOT_FOUND || code === ErrorCode.INVALID_AUDIENCE_ID) {
+        error = new AudienceError(text, code, options);
+    } else if (code >= ErrorCode.CONTACT_NOT_FOUND && code <= ErrorCode.CONTACT_DELETE_FAILED) {
+        error = new ContactError(text, code, options);
+    } else if (code === ErrorCode.TEMPLATE_NOT_FOUND || code === ErrorCode.INVALID_TEMPLATE || code === ErrorCode.INVALID_TEMPLATE_VARIABLES) {
+        error = new TemplateError(text, code, options);
+    } else if (code === ErrorCode.INVALID_ATTACHMENT || code === ErrorCode.ATTACHMENT_TOO_LARGE) {
+        error = new AttachmentError(text, code, options);
+    } else {
+        error = new ApiError(text, code, status, headers, options);
+    }
+
+    if (error instanceof ApiError) {
+        error.data = data;
+    }
+    return error;
+}
+
+/**
+ * Redacts the message and stack of an error in place, once
+ * @param error - Error to redact
+ * @param redact - Redaction applied to the message and stack
+ */
+export function redactErrorMessage(error: MetiganError, redact: (text: string) => string): void {
+    if (unredactedMessages.has(error)) {
+        return;
+    }
+
+    const original = error.message;
+    unredactedMessages.set(error, original);
+    error.message = redact(original);
+    if (error.stack) {
+        error.stack = redact(error.stack);
+    }
+    if (error instanceof ValidationError) {
+        error.issues = error.issues.map((issue) => ({ ...issue, message: redact(issue.message) }));
+    }
+}
+
+// Factories used by MetiganError.fromJSON, by error name
+const errorFactories: Record<string, (message: string, code: ErrorCode, options: MetiganErrorOptions) => MetiganError> = {
+    MetiganError: (message, code, options) => new MetiganError(message, code, options),
+    ValidationError: (message, code, options) => new ValidationError(message, code, options),
+    ApiError: (message, code, options) => new ApiError(message, code, options.status, undefined, options),
+    ResponseValidationError: (message, code, options) => new ResponseValidationError(message, options.path || "$", code, options),
+    NetworkError: (message, code, options) => new NetworkError(message, code, options),
+    ContactError: (message, code, options) => new ContactError(message, code, options),
+    AudienceError: (message, code, options) => new AudienceError(message, code, options),
+    TemplateError: (message, code, options) => new TemplateError(message, code, options),
+    AttachmentError: (message, code, options) => new AttachmentError(message, code, options),
+    ConflictError: (message, code, options) => new ConflictError(message, code, options.status, undefined, options),
+};
+
+/**
+ * Serialize an error cause, recursing into Metigan errors
+ * @param cause - Cause to serialize
+ * @returns JSON-safe value
+ */
+function serializeCause(cause: unknown): unknown {
+    if (cause instanceof MetiganError) {
+        return cause.toJSON();
+    }
+    if (cause instanceof Error) {
+        const json: Record<string, unknown> = { name: cause.name, message: cause.message };
+        const code = "code" in cause ? cause.code : undefined;
+        if (code !== undefined) json.code = code;
+        if (cause.stack !== undefined) json.stack = cause.stack;
+        return json;
+    }
+    return cause;
+}
+
+/**
+ * Recreate an error cause serialized by serializeCause
+ * @param cause - Serialized cause
+ * @returns Metigan error, Error or the value as is
+ */
+function deserializeCause(cause: unknown): unknown {
+    if (!cause || typeof cause !== "object") {
+        return cause;
+    }
+
+    const json = cause as Record<string, any>;
+    if (typeof json.name !== "string" || typeof json.message !== "string") {
+        return cause;
+    }
+    if (typeof json.code === "number" && typeof json.retryable === "boolean") {
+        return MetiganError.fromJSON(json as SerializedMetiganError);
+    }
+
+    const error: Error & { code?: unknown } = new Error(json.message);
+    error.name = json.name;
+    if (json.code !== undefined) error.code = json.code;
+    if (json.stack !== undefined) error.stack = json.stack;
+    return error;
+}
@@ -0,0 +1,105 @@
+/**
+ * Typed lifecycle events of the Metigan client
+ * Handlers run synchronously in registration order; a handler that throws or
+ * rejects is reported and never affects the operation that emitted the event.
+ */
+
+import type { HttpMethod } from "../utils/http"
+import type { MetiganError } from "./errors"
+import type { EmailSuccessResponse } from "./types"
+
+/**
+ * Event payloads by event name
+ */
+export interface MetiganEvents {
+  /** An HTTP attempt is about to be sent */
+  request: { method: HttpMethod; url: string; attempt: number }
+  /** An HTTP attempt succeeded */
+  response: { method: HttpMethod; url: string; attempt: number; status: number; latency: number }
+  /** An HTTP attempt failed and will be retried after `delay` ms */
+  retry: { method: HttpMethod; url: string; attempt: number; delay: number; error: any }
+  /** An email was accepted by the API */
+  sent: { operation: "sendEmail" | "sendEmailWithTemplate"; response: EmailSuccessResponse; recipients: string[]; idempotencyKey: string }
+  /** A send or contact creation failed */
+  failed: { operation: "sendEmail" | "sendEmailWithTemplate" | "createContacts"; error: MetiganError }
+  /** A contact was created in an audience */
+  contactCreated: { email: string; audienceId: string }
+}
+
+export type MetiganEventName = keyof MetiganEvents
+
+export type MetiganEventHandler<E extends MetiganEventName> = (payload: MetiganEvents[E]) => void | Promise<void>
+
+/**
+ * Minimal typed event emitter
+ */
+export class TypedEventEmitter<Events extends Record<string, any>> {
+  private handlers: { [E in keyof Events]?: Array<(payload: Events[E]) => void | Promise<void>> } = {}
+
+  /**
+   * @param onHandlerError - Called when a handler throws or rejects
+   */
+  constructor(private readonly onHandlerError: (event: keyof Events, error: unknown) => void = () => undefined) {}
+
+  /**
+   * Registers a handler
+   * @param event - Event name
+   * @param handler - Handler to call with the payload
+   */
+  on<E extends keyof Events>(event: E, handler: (payload: Events[E]) => void | Promise<void>): void {
+    const handlers = this.handlers[event] || []
+    handlers.push(handler)
+    this.handlers[event] = handlers
+  }
+
+  /**
+   * Removes a handler
+   * @param event - Event name
+   * @param handler - Handler passed to on
+   */
+  off<E extends keyof Events>(event: E, handler: (payload: Events[E]) => void | Promise<void>): void {
+    this.handlers[event] = (this.handlers[event] || []).filter((registered) => registered !== handler)
+  }
+
+  /**
+   * Number of handlers registered for an event
+   * @param event - Event name
+   * @returns Handler count
+   */
+  listenerCount<E extends keyof Events>(event: E): number {
+    return this.handlers[event]?.length ?? 0
+  }
+
+  /**
+   * Calls every handler of an event, isolating their failures
+   * @param event - Event name
+   * @param payload - Event payload
+   */
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    const handlers = this.handlers[event]
+    if (!handlers || handlers.length === 0) return
+
+    for (const handler of handlers.slice()) {
+      try {
+        const result = handler(payload)
+        if (result && typeof (result as Promise<void>).catch === "function") {
+          ;(result as Promise<void>).catch((error: unknown) => this.reportError(event, error))
+        }
+      } catch (error: unknown) {
+        this.reportError(event, error)
+      }
+    }
+  }
+
+  /**
+   * Reports a handler failure without ever throwing
+   * @private
+   */
+  private reportError(event: keyof Events, error: unknown): void {
+    try {
+      this.onHandlerError(event, error)
+    } catch {
+      // Nothing left to report to
+    }
+  }
+}
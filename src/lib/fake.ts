@@ -0,0 +1,787 @@
+/**
+ * In-memory fake of the Metigan API
+ * Implements the email, contacts and audiences endpoints with realistic state,
+ * validation, pagination and error responses, so tests can exercise a real
+ * Metigan client without the network. Point a client at it through its
+ * transport (see createClient) or through baseUrl (see listen).
+ */
+
+import { processHttpError, type Transport, type TransportRequest, type TransportResponse } from "../utils/http"
+import { extractEmailAddress, isValidEmail } from "../utils/validation"
+import { Metigan, type MetiganOptions } from "./metigan"
+
+/**
+ * Fake server options
+ */
+export interface MetiganFakeOptions {
+  /** Only this API key is accepted when set; any non-empty key is accepted otherwise */
+  apiKey?: string
+  /** Base URL reported to clients (default: https://metigan.fake) */
+  baseUrl?: string
+  /** Answer 429 once more than `limit` requests arrive within `windowMs` (disabled when omitted) */
+  rateLimit?: { limit: number; windowMs?: number }
+  /** Page size used when listing contacts without a limit (default: 10) */
+  defaultPageSize?: number
+}
+
+/**
+ * Email accepted by the fake
+ */
+export interface FakeSentEmail {
+  id: string
+  from: string
+  recipients: string[]
+  cc?: string[]
+  bcc?: string[]
+  replyTo?: string
+  subject: string
+  content?: string
+  templateId?: string
+  templateVariables?: Record<string, string | number | boolean>
+  trackingId: string
+  attachmentsCount: number
+  idempotencyKey?: string
+  sentAt: string
+}
+
+/**
+ * Audience stored by the fake
+ */
+export interface FakeAudience {
+  id: string
+  name: string
+  description?: string
+  userId: string
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Contact stored by the fake
+ */
+export interface FakeContact {
+  email: string
+  audienceId: string
+  fields: Record<string, any>
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Failure injected with failNext
+ */
+interface InjectedFailure {
+  status: number
+  message: string
+  headers: Record<string, string>
+  remaining: number
+}
+
+/**
+ * Request as seen by the route handlers
+ */
+interface FakeRequest {
+  method: string
+  segments: string[]
+  query: URLSearchParams
+  headers: Record<string, string>
+  body: any
+}
+
+const FAKE_USER_ID = "fake-user"
+
+const STATUS_TEXT: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  404: "Not Found",
+  409: "Conflict",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  503: "Service Unavailable",
+}
+
+/**
+ * Deep-copies a JSON value so callers never share state with the fake
+ * @param value - Value to copy
+ * @returns Copy of the value
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
+
+/**
+ * Builds an API error response
+ * @param status - HTTP status
+ * @param message - Error message
+ * @param headers - Response headers
+ * @returns Error response
+ */
+function failure(status: number, message: string, headers: Record<string, string> = {}): TransportResponse {
+  return {
+    status,
+    data: { success: false, error: STATUS_TEXT[status] || "Error", message },
+    headers,
+  }
+}
+
+/**
+ * Checks whether a request value is a valid address (email or Name <email>)
+ * @param value - Value from the request body
+ * @returns True for valid address strings
+ */
+function isEmailAddress(value: unknown): value is string {
+  return typeof value === "string" && isValidEmail(extractEmailAddress(value))
+}
+
+/**
+ * Builds a successful API response
+ * @param data - Response body
+ * @param status - HTTP status (default: 200)
+ * @returns Response
+ */
+function ok(data: any, status = 200): TransportResponse {
+  return { status, data: { success: true, ...data }, headers: {} }
+}
+
+/**
+ * In-memory Metigan API
+ */
+export class MetiganFake {
+  readonly baseUrl: string
+  /** Transport that answers requests in-process */
+  readonly transport: Transport
+
+  private readonly apiKey?: string
+  private readonly rateLimit?: { limit: number; windowMs: number }
+  private readonly defaultPageSize: number
+  private sent: FakeSentEmail[] = []
+  private audiences = new Map<string, FakeAudience>()
+  private contacts = new Map<string, Map<string, FakeContact>>()
+  private idempotentResponses = new Map<string, TransportResponse>()
+  private failures: InjectedFailure[] = []
+  private requestTimes: number[] = []
+  private sequence = 0
+  private server?: import("http").Server
+
+  constructor(options: MetiganFakeOptions = {}) {
+    this.apiKey = options.apiKey
+    this.baseUrl = (options.baseUrl || "https://metigan.fake").replace(/\/+$/, "")
+    this.rateLimit = options.rateLimit
+      ? { limit: options.rateLimit.limit, windowMs: options.rateLimit.windowMs ?? 1000 }
+      : undefined
+    this.defaultPageSize = options.defaultPageSize ?? 10
+    this.transport = {
+      request: async <T>(request: TransportRequest): Promise<TransportResponse<T>> => {
+        const response = this.answer(request)
+        if (response.status >= 400) {
+          throw processHttpError({
+            status: response.status,
+            data: response.data,
+            message: STATUS_TEXT[response.status] || "Error",
+            headers: response.headers,
+          })
+        }
+        return response as TransportResponse<T>
+      },
+    }
+  }
+
+  /**
+   * Creates a Metigan client wired to this fake
+   * @param options - Client options (transport and baseUrl are set by the fake)
+   * @returns Metigan client
+   */
+  createClient(options: Omit<MetiganOptions, "transport" | "baseUrl"> = {}): Metigan {
+    return new Metigan(this.apiKey || "fake-api-key", {
+      disableLogs: true,
+      ...options,
+      baseUrl: this.baseUrl,
+      transport: this.transport,
+    })
+  }
+
+  /**
+   * Emails accepted so far, oldest first
+   */
+  get emails(): FakeSentEmail[] {
+    return clone(this.sent)
+  }
+
+  /**
+   * Lists the stored audiences
+   * @returns Audiences, oldest first
+   */
+  getAudiences(): FakeAudience[] {
+    return clone(Array.from(this.audiences.values()))
+  }
+
+  /**
+   * Lists the contacts of an audience
+   * @param audienceId - Audience ID
+   * @returns Contacts, oldest first
+   */
+  getContacts(audienceId: string): FakeContact[] {
+    return clone(Array.from(this.contacts.get(audienceId)?.values() || []))
+  }
+
+  /**
+   * Seeds an audience
+   * @param audience - Audience name and optional description or ID
+   * @returns Stored audience
+   */
+  addAudience(audience: { name: string; description?: string; id?: string }): FakeAudience {
+    const now = new Date().toISOString()
+    const stored: FakeAudience = {
+      id: audience.id || this.nextId("aud"),
+      name: audience.name,
+      description: audience.description,
+      userId: FAKE_USER_ID,
+      createdAt: now,
+      updatedAt: now,
+    }
+    this.audiences.set(stored.id, stored)
+    this.contacts.set(stored.id, new Map())
+    return clone(stored)
+  }
+
+  /**
+   * Seeds a contact in an existing audience
+   * @param audienceId - Audience ID
+   * @param email - Contact email
+   * @param fields - Contact fields
+   * @returns Stored contact
+   */
+  addContact(audienceId: string, email: string, fields: Record<string, any> = {}): FakeContact {
+    const audienceContacts = this.contacts.get(audienceId)
+    if (!audienceContacts) {
+      throw new Error(`Unknown audience: ${audienceId}`)
+    }
+    const now = new Date().toISOString()
+    const contact: FakeContact = { email, audienceId, fields: { ...fields }, createdAt: now, updatedAt: now }
+    audienceContacts.set(email.toLowerCase(), contact)
+    return clone(contact)
+  }
+
+  /**
+   * Makes the next requests fail with the given status, e.g. 503 or 429
+   * @param status - HTTP status to answer with
+   * @param options - Number of requests to fail (default: 1), message and response headers
+   */
+  failNext(status: number, options: { times?: number; message?: string; headers?: Record<string, string> } = {}): void {
+    this.failures.push({
+      status,
+      message: options.message || STATUS_TEXT[status] || "Injected failure",
+      headers: options.headers || {},
+      remaining: options.times ?? 1,
+    })
+  }
+
+  /**
+   * Clears every email, audience, contact and injected failure
+   */
+  reset(): void {
+    this.sent = []
+    this.audiences.clear()
+    this.contacts.clear()
+    this.idempotentResponses.clear()
+    this.failures = []
+    this.requestTimes = []
+  }
+
+  /**
+   * Serves the fake over HTTP on localhost (Node.js only)
+   * @param port - Port to listen on (default: a random free port)
+   * @returns Base URL to pass to a client as baseUrl
+   */
+  async listen(port = 0): Promise<string> {
+    const http = await import("http")
+
+    const server = http.createServer((req, res) => {
+      let raw = ""
+      req.setEncoding("utf8")
+      req.on("data", (chunk: string) => (raw += chunk))
+      req.on("end", () => {
+        let body: any = null
+        if (raw) {
+          try {
+            body = JSON.parse(raw)
+          } catch {
+            body = raw
+          }
+        }
+
+        const headers: Record<string, string> = {}
+        for (const [key, value] of Object.entries(req.headers)) {
+          if (value !== undefined) headers[key] = Array.isArray(value) ? value.join(", ") : value
+        }
+
+        const response = this.answer({
+          method: (req.method || "GET") as TransportRequest["method"],
+          url: req.url || "/",
+          data: body,
+          headers,
+        })
+        res.writeHead(response.status, { ...response.headers, "content-type": "application/json" })
+        res.end(JSON.stringify(response.data))
+      })
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject)
+      server.listen(port, "127.0.0.1", () => resolve())
+    })
+    this.server = server
+
+    const address = server.address()
+    return `http://127.0.0.1:${typeof address === "object" && address ? address.port : port}`
+  }
+
+  /**
+   * Stops the HTTP server started by listen
+   */
+  async close(): Promise<void> {
+    const server = this.server
+    if (!server) return
+    this.server = undefined
+    await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())))
+  }
+
+  /**
+   * Answers a request, turning handler failures into 400 responses
+   * A handler failure must never take down the process serving the tests, nor
+   * reach the client as a transport failure.
+   * @param request - Incoming request
+   * @returns Response, including error statuses
+   * @private
+   */
+  private answer(request: TransportRequest): TransportResponse {
+    try {
+      return this.dispatch(request)
+    } catch (error: unknown) {
+      return failure(400, `Malformed request: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  /**
+   * Routes a request to its handler
+   * @param request - Incoming request
+   * @returns Response, including error statuses
+   * @private
+   */
+  private dispatch(request: TransportRequest): TransportResponse {
+    const url = new URL(request.url, this.baseUrl)
+    const headers: Record<string, string> = {}
+    for (const [key, value] of Object.entries(request.headers || {})) {
+      headers[key.toLowerCase()] = value
+    }
+
+    let segments: string[]
+    try {
+      segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent)
+    } catch (error: unknown) {
+      if (error instanceof URIError) {
+        return failure(400, `Malformed URL path: ${url.pathname}`)
+      }
+      throw error
+    }
+
+    // Usage logs are accepted and discarded
+    if (segments[0] === "api" && segments[1] === "logs") {
+      return ok({})
+    }
+
+    const apiKey = headers["x-api-key"]
+    if (!apiKey || (this.apiKey !== undefined && apiKey !== this.apiKey)) {
+      return failure(401, "Invalid API key")
+    }
+
+    const injected = this.failures[0]
+    if (injected) {
+      injected.remaining--
+      if (injected.remaining <= 0) this.failures.shift()
+      return failure(injected.status, injected.message, injected.headers)
+    }
+
+    const limited = this.checkRateLimit()
+    if (limited) return limited
+
+    if (segments[0] !== "api" || segments[1] !== "end") {
+      return failure(404, `Route not found: ${request.method} ${url.pathname}`)
+    }
+
+    const fakeRequest: FakeRequest = {
+      method: request.method,
+      segments: segments.slice(3),
+      query: url.searchParams,
+      headers,
+      body: this.parseBody(request.data),
+    }
+
+    switch (segments[2]) {
+      case "email":
+        return this.handleEmail(fakeRequest)
+      case "contacts":
+        return this.handleContacts(fakeRequest)
+      case "audiences":
+        return this.handleAudiences(fakeRequest)
+      default:
+        return failure(404, `Route not found: ${request.method} ${url.pathname}`)
+    }
+  }
+
+  /**
+   * Applies the fixed-window rate limit
+   * @returns A 429 response when over the limit
+   * @private
+   */
+  private checkRateLimit(): TransportResponse | undefined {
+    if (!this.rateLimit) return undefined
+
+    const now = Date.now()
+    const windowStart = now - this.rateLimit.windowMs
+    this.requestTimes = this.requestTimes.filter((time) => time > windowStart)
+
+    if (this.requestTimes.length >= this.rateLimit.limit) {
+      const retryAfter = Math.max(1, Math.ceil((this.requestTimes[0] + this.rateLimit.windowMs - now) / 1000))
+      return failure(429, "Too many requests", {
+        "retry-after": String(retryAfter),
+        "x-ratelimit-limit": String(this.rateLimit.limit),
+        "x-ratelimit-remaining": "0",
+      })
+    }
+
+    this.requestTimes.push(now)
+    return undefined
+  }
+
+  /**
+   * Normalizes JSON and FormData bodies into a plain object
+   * @param data - Request body
+   * @returns Plain object
+   * @private
+   */
+  private parseBody(data: any): any {
+    if (data && typeof data.getAll === "function" && typeof data.get === "function") {
+      const body: Record<string, any> = {}
+      const files = data.getAll("files")
+      data.forEach((value: any, key: string) => {
+        if (key !== "files") body[key] = value
+      })
+      if (typeof body.recipients === "string") body.recipients = JSON.parse(body.recipients)
+      if (typeof body.cc === "string") body.cc = JSON.parse(body.cc)
+      if (typeof body.bcc === "string") body.bcc = JSON.parse(body.bcc)
+      if (typeof body.contactFields === "string") body.contactFields = JSON.parse(body.contactFields)
+      body.attachments = files
+      return body
+    }
+    return data || {}
+  }
+
+  /**
+   * POST /email
+   * @private
+   */
+  private handleEmail(request: FakeRequest): TransportResponse {
+    if (request.method !== "POST" || request.segments.length > 0) {
+      return failure(404, "Route not found")
+    }
+
+    const idempotencyKey = request.headers["idempotency-key"]
+    const replay = idempotencyKey ? this.idempotentResponses.get(idempotencyKey) : undefined
+    if (replay) {
+      return clone(replay)
+    }
+
+    const body = request.body
+    const useTemplate = body.useTemplate === true || body.useTemplate === "true"
+
+    if (!isEmailAddress(body.from)) {
+      return failure(400, "Invalid sender email format")
+    }
+    if (!Array.isArray(body.recipients) || body.recipients.length === 0) {
+      return failure(400, "At least one recipient is required")
+    }
+    const invalidRecipient = body.recipients.find((recipient: unknown) => !isEmailAddress(recipient))
+    if (invalidRecipient !== undefined) {
+      return failure(400, `Invalid recipient email format: ${invalidRecipient}`)
+    }
+    const cc: string[] = Array.isArray(body.cc) ? body.cc : []
+    const bcc: string[] = Array.isArray(body.bcc) ? body.bcc : []
+    const invalidCopyRecipient = [...cc, ...bcc].find((recipient) => !isEmailAddress(recipient))
+    if (invalidCopyRecipient !== undefined) {
+      return failure(400, `Invalid recipient email format: ${invalidCopyRecipient}`)
+    }
+    if (body.replyTo !== undefined && !isEmailAddress(body.replyTo)) {
+      return failure(400, `Invalid reply-to email format: ${body.replyTo}`)
+    }
+    if (!body.subject) {
+      return failure(400, "Subject is required")
+    }
+    if (useTemplate ? !body.templateId : !body.content) {
+      return failure(400, useTemplate ? "Template ID is required" : "Content is required")
+    }
+    let templateVariables = body.templateVariables
+    if (typeof templateVariables === "string") {
+      try {
+        templateVariables = JSON.parse(templateVariables)
+      } catch {
+        return failure(400, "templateVariables must be a JSON object")
+      }
+    }
+    if (templateVariables !== undefined && (!templateVariables || typeof templateVariables !== "object" || Array.isArray(templateVariables))) {
+      return failure(400, "templateVariables must be a JSON object")
+    }
+
+    const createContact = body.createContact === true || body.createContact === "true"
+    if (createContact && !this.audiences.has(body.audienceId)) {
+      return failure(404, `Audience not found: ${body.audienceId}`)
+    }
+
+    const trackingId = body.trackingId || this.nextId("trk")
+    const attachmentsCount = Array.isArray(body.attachments) ? body.attachments.length : 0
+    const email: FakeSentEmail = {
+      id: this.nextId("email"),
+      from: body.from,
+      recipients: body.recipients.slice(),
+      cc: cc.length > 0 ? cc.slice() : undefined,
+      bcc: bcc.length > 0 ? bcc.slice() : undefined,
+      replyTo: body.replyTo || undefined,
+      subject: body.subject,
+      content: useTemplate ? undefined : body.content,
+      templateId: useTemplate ? body.templateId : undefined,
+      templateVariables,
+      trackingId,
+      attachmentsCount,
+      idempotencyKey,
+      sentAt: new Date().toISOString(),
+    }
+    this.sent.push(email)
+
+    let contactsCreated: number | undefined
+    if (createContact) {
+      contactsCreated = 0
+      for (const recipient of email.recipients) {
+        if (this.storeContact(body.audienceId, extractEmailAddress(recipient), body.contactFields || {})) {
+          contactsCreated++
+        }
+      }
+    }
+
+    const response = ok({
+      message: "Emails sent successfully",
+      successfulEmails: email.recipients.map((recipient) => ({
+        success: true,
+        recipient,
+        messageId: this.nextId("msg"),
+        trackingId,
+      })),
+      failedEmails: [],
+      recipientCount: email.recipients.length,
+      hasAttachments: attachmentsCount > 0,
+      attachmentsCount,
+      ...(contactsCreated !== undefined ? { contactsCreated } : {}),
+    })
+
+    if (idempotencyKey) {
+      this.idempotentResponses.set(idempotencyKey, clone(response))
+    }
+    return response
+  }
+
+  /**
+   * /contacts routes
+   * @private
+   */
+  private handleContacts(request: FakeRequest): TransportResponse {
+    const { method, segments, query, body } = request
+
+    // POST /contacts
+    if (method === "POST" && segments.length === 0) {
+      if (!Array.isArray(body.emails) || body.emails.length === 0) {
+        return failure(400, "At least one email is required")
+      }
+      if (!this.audiences.has(body.audienceId)) {
+        return failure(404, `Audience not found: ${body.audienceId}`)
+      }
+      const invalid = body.emails.find((email: unknown) => typeof email !== "string" || !isValidEmail(email))
+      if (invalid !== undefined) {
+        return failure(400, `Invalid email format: ${invalid}`)
+      }
+
+      const results = body.emails.map((email: string) =>
+        this.storeContact(body.audienceId, email, body.fields || {})
+          ? { email, audienceId: body.audienceId, success: true }
+          : { email, audienceId: body.audienceId, success: false, error: "Contact already exists" },
+      )
+      const contactsCreated = results.filter((result: { success: boolean }) => result.success).length
+      if (contactsCreated === 0) {
+        return failure(409, "Contact already exists")
+      }
+
+      return ok({ message: "Contacts created successfully", contactsCreated, contacts: results })
+    }
+
+    // GET /contacts?audienceId=...
+    if (method === "GET" && segments.length === 0) {
+      const audienceContacts = this.contacts.get(query.get("audienceId") || "")
+      if (!audienceContacts) {
+        return failure(404, `Audience not found: ${query.get("audienceId")}`)
+      }
+
+      let matches = Array.from(audienceContacts.values())
+      query.forEach((value, key) => {
+        const filter = key.match(/^filter\[(.+)\]$/)
+        if (filter) {
+          matches = matches.filter((contact) => String(contact.fields[filter[1]]) === value)
+        }
+      })
+
+      const page = Math.max(1, parseInt(query.get("page") || "1", 10) || 1)
+      const limit = Math.max(1, parseInt(query.get("limit") || "", 10) || this.defaultPageSize)
+      const start = (page - 1) * limit
+
+      return ok({
+        message: "Contacts retrieved successfully",
+        contacts: clone(matches.slice(start, start + limit)),
+        pagination: { page, limit, total: matches.length, pages: Math.ceil(matches.length / limit) },
+      })
+    }
+
+    // GET /contacts/:email?audienceId=...
+    if (method === "GET" && segments.length === 1) {
+      const contact = this.contacts.get(query.get("audienceId") || "")?.get(segments[0].toLowerCase())
+      if (!contact) {
+        return failure(404, `Contact not found: ${segments[0]}`)
+      }
+      return ok({ message: "Contact retrieved successfully", contact: clone(contact) })
+    }
+
+    // PUT /contacts
+    if (method === "PUT" && segments.length === 0) {
+      const contact = this.contacts.get(body.audienceId)?.get(String(body.email || "").toLowerCase())
+      if (!contact) {
+        return failure(404, `Contact not found: ${body.email}`)
+      }
+      contact.fields = { ...contact.fields, ...(body.fields || {}) }
+      contact.updatedAt = new Date().toISOString()
+
+      return ok({
+        message: "Contact updated successfully",
+        contact: {
+          email: contact.email,
+          audienceId: contact.audienceId,
+          updated: true,
+          fields: clone(contact.fields),
+          updatedAt: contact.updatedAt,
+        },
+      })
+    }
+
+    // DELETE /contacts/:email/:audienceId
+    if (method === "DELETE" && segments.length === 2) {
+      const [email, audienceId] = segments
+      if (!this.contacts.get(audienceId)?.delete(email.toLowerCase())) {
+        return failure(404, `Contact not found: ${email}`)
+      }
+      return ok({ message: "Contact deleted successfully", email, audienceId, deleted: true })
+    }
+
+    return failure(404, "Route not found")
+  }
+
+  /**
+   * /audiences routes
+   * @private
+   */
+  private handleAudiences(request: FakeRequest): TransportResponse {
+    const { method, segments, body } = request
+    const id = segments[0]
+
+    // POST /audiences
+    if (method === "POST" && segments.length === 0) {
+      if (!body.name || typeof body.name !== "string") {
+        return failure(400, "Audience name is required")
+      }
+      if (this.findAudienceByName(body.name)) {
+        return failure(409, `Audience already exists: ${body.name}`)
+      }
+      const { updatedAt, ...audience } = this.addAudience({ name: body.name, description: body.description })
+      return ok({ message: "Audience created successfully", audience }, 201)
+    }
+
+    // GET /audiences
+    if (method === "GET" && segments.length === 0) {
+      return ok({ message: "Audiences retrieved successfully", audiences: this.getAudiences() })
+    }
+
+    if (segments.length !== 1) {
+      return failure(404, "Route not found")
+    }
+
+    const audience = this.audiences.get(id)
+    if (!audience) {
+      return failure(404, `Audience not found: ${id}`)
+    }
+
+    // GET /audiences/:id
+    if (method === "GET") {
+      return ok({ message: "Audience retrieved successfully", audience: clone(audience) })
+    }
+
+    // PUT /audiences/:id
+    if (method === "PUT") {
+      if (!body.name || typeof body.name !== "string") {
+        return failure(400, "Audience name is required")
+      }
+      const existing = this.findAudienceByName(body.name)
+      if (existing && existing.id !== id) {
+        return failure(409, `Audience already exists: ${body.name}`)
+      }
+      audience.name = body.name
+      audience.description = body.description
+      audience.updatedAt = new Date().toISOString()
+      const { createdAt, ...updated } = audience
+      return ok({ message: "Audience updated successfully", audience: clone(updated) })
+    }
+
+    // DELETE /audiences/:id
+    if (method === "DELETE") {
+      this.audiences.delete(id)
+      this.contacts.delete(id)
+      return ok({ message: "Audience deleted successfully", id, deleted: true })
+    }
+
+    return failure(404, "Route not found")
+  }
+
+  /**
+   * Stores a contact unless it already exists in the audience
+   * @returns True when the contact was created
+   * @private
+   */
+  private storeContact(audienceId: string, email: string, fields: Record<string, any>): boolean {
+    const audienceContacts = this.contacts.get(audienceId)
+    if (!audienceContacts || audienceContacts.has(email.toLowerCase())) {
+      return false
+    }
+    this.addContact(audienceId, email, fields)
+    return true
+  }
+
+  /**
+   * Finds an audience by name, ignoring case
+   * @private
+   */
+  private findAudienceByName(name: string): FakeAudience | undefined {
+    return Array.from(this.audiences.values()).find((audience) => audience.name.toLowerCase() === name.toLowerCase())
+  }
+
+  /**
+   * Generates a sequential ID with a prefix
+   * @private
+   */
+  private nextId(prefix: string): string {
+    this.sequence++
+    return `${prefix}_${this.sequence.toString().padStart(6, "0")}`
+  }
+}
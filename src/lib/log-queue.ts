@@ -0,0 +1,199 @@
+/**
+ * Bounded queue of usage log entries waiting to be sent
+ * The queue can be mirrored to a file so entries recorded before a crash or
+ * restart are loaded and sent by the next client using the same file. Entries
+ * only leave the queue once a sink has accepted them.
+ */
+
+import { noopLogger, type Logger } from "./logger"
+import type { UsageLogEntry } from "./log-sinks"
+
+/**
+ * What to do with a new entry when the queue is full
+ * - "drop-oldest": discard the oldest queued entry to make room
+ * - "drop-newest": discard the new entry
+ */
+export type LogOverflowPolicy = "drop-oldest" | "drop-newest"
+
+/**
+ * Usage log batching options
+ */
+export interface LogBatchingOptions {
+  /** Maximum entries per sink write; a full batch is sent right away (default: 50) */
+  batchSize?: number
+  /** Time between batches (ms, default: 1000) */
+  flushInterval?: number
+  /** Maximum queued entries (default: 1000) */
+  maxQueueSize?: number
+  /** Policy when the queue is full (default: "drop-oldest") */
+  overflow?: LogOverflowPolicy
+  /** File mirroring the queue, replayed on startup (Node.js only, disabled when omitted) */
+  persistPath?: string
+}
+
+/**
+ * Batching options with defaults applied
+ */
+export interface ResolvedLogBatching {
+  batchSize: number
+  flushInterval: number
+  maxQueueSize: number
+  overflow: LogOverflowPolicy
+  persistPath?: string
+}
+
+/**
+ * Applies defaults to batching options
+ * @param options - Batching options
+ * @returns Resolved options
+ */
+export function resolveLogBatching(options: LogBatchingOptions = {}): ResolvedLogBatching {
+  return {
+    batchSize: Math.max(1, options.batchSize ?? 50),
+    flushInterval: Math.max(0, options.flushInterval ?? 1000),
+    maxQueueSize: Math.max(1, options.maxQueueSize ?? 1000),
+    overflow: options.overflow || "drop-oldest",
+    persistPath: options.persistPath,
+  }
+}
+
+/**
+ * Queue of usage log entries
+ */
+export class LogQueue {
+  /** Settles once persisted entries have been loaded */
+  readonly ready: Promise<void>
+  private entries: UsageLogEntry[] = []
+  private dropped = 0
+  private persisting: Promise<void> = Promise.resolve()
+
+  constructor(
+    private readonly options: ResolvedLogBatching,
+    private readonly sdkLogger: Logger = noopLogger,
+  ) {
+    this.ready = this.load()
+  }
+
+  /**
+   * Number of queued entries
+   */
+  get size(): number {
+    return this.entries.length
+  }
+
+  /**
+   * Number of entries discarded because the queue was full
+   */
+  get droppedCount(): number {
+    return this.dropped
+  }
+
+  /**
+   * Adds an entry, applying the overflow policy when the queue is full
+   * @param entry - Entry to add
+   */
+  push(entry: UsageLogEntry): void {
+    if (this.entries.length >= this.options.maxQueueSize) {
+      this.dropped++
+      this.sdkLogger.debug(`Usage log queue full, dropping the ${this.options.overflow === "drop-oldest" ? "oldest" : "newest"} entry`, {
+        endpoint: entry.endpoint,
+      })
+      if (this.options.overflow === "drop-newest") return
+      this.entries.shift()
+    }
+
+    this.entries.push(entry)
+    this.persist()
+  }
+
+  /**
+   * Returns the oldest entries without removing them
+   * @param count - Maximum number of entries
+   * @returns Oldest entries
+   */
+  peek(count: number): UsageLogEntry[] {
+    return this.entries.slice(0, count)
+  }
+
+  /**
+   * Checks whether an entry is still waiting to be delivered
+   * @param entry - Entry returned by peek()
+   */
+  includes(entry: UsageLogEntry): boolean {
+    return this.entries.includes(entry)
+  }
+
+  /**
+   * Removes entries once they have been delivered
+   * Entries already dropped by the overflow policy are ignored.
+   * @param batch - Entries returned by peek()
+   */
+  remove(batch: UsageLogEntry[]): void {
+    const delivered = new Set(batch)
+    const remaining = this.entries.filter((entry) => !delivered.has(entry))
+    if (remaining.length === this.entries.length) return
+
+    this.entries = remaining
+    this.persist()
+  }
+
+  /**
+   * Waits for pending writes to the persistence file
+   */
+  async settled(): Promise<void> {
+    await this.ready
+    await this.persisting
+  }
+
+  /**
+   * Loads the entries persisted by a previous client
+   * @private
+   */
+  private async load(): Promise<void> {
+    const path = this.options.persistPath
+    if (!path) return
+
+    try {
+      const fs = await import("fs")
+      const content = await fs.promises.readFile(path, "utf8").catch((error: any) => {
+        if (error.code === "ENOENT") return ""
+        throw error
+      })
+      const persisted: UsageLogEntry[] = []
+      for (const line of content.split("\n")) {
+        if (!line.trim()) continue
+        try {
+          persisted.push(JSON.parse(line))
+        } catch {
+          // Skip lines torn by a crash mid-write
+        }
+      }
+
+      // Entries recorded before loading finished are newer
+      const overflow = Math.max(0, persisted.length + this.entries.length - this.options.maxQueueSize)
+      this.dropped += overflow
+      this.entries = [...persisted, ...this.entries].slice(overflow)
+    } catch (error: any) {
+      this.sdkLogger.warn(`Could not load persisted usage logs: ${error.message || "Unknown error"}`)
+    }
+  }
+
+  /**
+   * Mirrors the queue to the persistence file, one write at a time
+   * @private
+   */
+  private persist(): void {
+    const path = this.options.persistPath
+    if (!path) return
+
+    this.persisting = this.persisting
+      .then(() => this.ready)
+      .then(async () => {
+        const fs = await import("fs")
+        await fs.promises.writeFile(path, this.entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""), "utf8")
+      })
+      .catch((error: any) => {
+        this.sdkLogger.warn(`Could not persist usage logs: ${error.message || "Unknown error"}`)
+      })
+  }
+}
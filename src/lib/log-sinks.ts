@@ -0,0 +1,204 @@
+/**
+ * Sinks for the usage logs recorded by the Metigan client
+ * By default usage logs are posted to the logs API of the configured base URL;
+ * a sink can send them elsewhere (a file, memory, or any function) instead.
+ */
+
+import type { Transport } from "../utils/http"
+import { ErrorCode } from "./error-codes"
+import { noopLogger, type Logger } from "./logger"
+import { DEFAULT_RETRYABLE_STATUSES } from "./retry"
+
+/**
+ * Usage log entry, as posted to the logs API
+ */
+export interface UsageLogEntry {
+  userId: string
+  endpoint: string
+  status: string
+  statusLabel: string
+  method: string
+  userAgent: string
+  timestamp: string
+  /** Actual HTTP status (status is coerced to the statuses the logs API accepts) */
+  httpStatus?: number
+  /** Duration of the operation, retries included (ms) */
+  latency?: number
+  /** Metigan error code, when the operation failed */
+  errorCode?: ErrorCode
+}
+
+/**
+ * Destination of usage log batches
+ * A sink reports a failed delivery by throwing (or rejecting); the batch then
+ * stays queued and is written again later.
+ */
+export interface LogSink {
+  write(entries: UsageLogEntry[]): void | Promise<void>
+}
+
+/**
+ * Function sink, called with each batch
+ */
+export type LogSinkFunction = (entries: UsageLogEntry[]) => void | Promise<void>
+
+/**
+ * HTTP sink options
+ */
+export interface HttpLogSinkOptions {
+  /** Logs API URL, e.g. https://api.example.com/api/logs */
+  url: string
+  /** API key sent with each batch */
+  apiKey: string
+  /** Transport used to post the batches */
+  transport: Transport
+  /** Logger for delivery warnings (default: no-op) */
+  logger?: Logger
+  /** Number of attempts per batch (default: 3) */
+  retryCount?: number
+  /** Base delay between attempts (ms, default: 500) */
+  retryDelay?: number
+  /** Timeout per attempt (ms, default: 5000) */
+  timeout?: number
+}
+
+/**
+ * In-memory sink, keeping every entry it receives
+ */
+export interface MemoryLogSink extends LogSink {
+  readonly entries: UsageLogEntry[]
+  clear(): void
+}
+
+/**
+ * Checks whether telemetry is disabled through the environment
+ * DO_NOT_TRACK (see https://consoledonottrack.com) and METIGAN_DISABLE_TELEMETRY
+ * are honored with any value other than "0" or "false".
+ * @returns True when usage logs must not be recorded
+ */
+export function isTelemetryDisabled(): boolean {
+  if (typeof process === "undefined" || !process.env) {
+    return false
+  }
+
+  return ["DO_NOT_TRACK", "METIGAN_DISABLE_TELEMETRY"].some((name) => {
+    const value = process.env[name]
+    return value !== undefined && value !== "" && value !== "0" && value.toLowerCase() !== "false"
+  })
+}
+
+/**
+ * Creates the sink posting batches to the logs API
+ * Network failures, timeouts, rate limits and server errors are thrown after the
+ * last attempt so the batch stays queued; batches the API rejects are dropped
+ * with a warning, as sending them again would fail the same way.
+ * @param options - HTTP sink options
+ * @returns Log sink
+ */
+export function createHttpLogSink(options: HttpLogSinkOptions): LogSink {
+  const { url, apiKey, transport } = options
+  const logger = options.logger || noopLogger
+  const retryCount = options.retryCount || 3
+  const retryDelay = options.retryDelay || 500
+  const timeout = options.timeout || 5000
+
+  return {
+    async write(entries: UsageLogEntry[]): Promise<void> {
+      const headers = {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "Authorization": `Bearer ${apiKey}`,
+        "User-Agent": entries[0]?.userAgent || "SDK",
+      }
+
+      for (let attempt = 0; attempt < retryCount; attempt++) {
+        try {
+          await transport.request({ method: "POST", url, data: { logs: entries }, headers, timeout })
+          return
+        } catch (err: any) {
+          const lastAttempt = attempt === retryCount - 1
+
+          // Authentication problems are not worth retrying further
+          if (err.status === 403 && lastAttempt) {
+            logger.warn("Authentication error when logging. Please check your API key.", {
+              endpoint: url,
+              attempt: attempt + 1,
+              status: err.status,
+              errorCode: err.code,
+            })
+            return
+          }
+
+          // Network error or timeout, the batch is kept for a later attempt
+          if ((!err.status || err.code === ErrorCode.TIMEOUT) && lastAttempt) {
+            throw new Error(`Connection error when logging: ${err.message || "Unknown error"}`)
+          }
+
+          // Rate limit or server error, the batch is kept for a later attempt
+          if (DEFAULT_RETRYABLE_STATUSES.includes(err.status) && lastAttempt) {
+            throw new Error(`Logs API unavailable (status ${err.status}): ${err.message || "Unknown error"}`)
+          }
+
+          if (lastAttempt) {
+            logger.warn(`Warning when processing log batch: ${err.message || "Unknown error"}`, {
+              endpoint: url,
+              status: err.status,
+              errorCode: err.code,
+            })
+            return
+          }
+
+          // Wait before trying again, longer after each attempt
+          await new Promise((resolve) => {
+            const timer = setTimeout(resolve, retryDelay * (attempt + 1))
+            // Never keep the process alive just to retry a log batch
+            if (typeof timer.unref === "function") {
+              timer.unref()
+            }
+          })
+        }
+      }
+    },
+  }
+}
+
+/**
+ * Creates a sink appending each entry as a JSON line to a file (Node.js only)
+ * @param path - File path
+ * @returns Log sink
+ */
+export function createFileLogSink(path: string): LogSink {
+  return {
+    async write(entries: UsageLogEntry[]): Promise<void> {
+      const fs = await import("fs")
+      await fs.promises.appendFile(path, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""), "utf8")
+    },
+  }
+}
+
+/**
+ * Creates a sink keeping entries in memory, e.g. for tests
+ * @returns In-memory sink
+ */
+export function createMemoryLogSink(): MemoryLogSink {
+  const entries: UsageLogEntry[] = []
+
+  return {
+    entries,
+    write(batch: UsageLogEntry[]): void {
+      entries.push(...batch)
+    },
+    clear(): void {
+      entries.length = 0
+    },
+  }
+}
+
+/**
+ * Normalizes a sink option
+ * @param sink - Sink or function
+ * @returns Log sink
+ */
+export function toLogSink(sink: LogSink | LogSinkFunction): LogSink {
+  return typeof sink === "function" ? { write: sink } : sink
+}
@@ -0,0 +1,113 @@
+/**
+ * Structured, pluggable logger for SDK diagnostics
+ * The SDK never writes to the console on its own: pass a logger (or one of the
+ * adapters below) through MetiganOptions.logger to receive its messages.
+ */
+
+import type { ErrorCode } from "./error-codes"
+
+/**
+ * Log levels, from most to least verbose
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+/**
+ * Structured fields attached to SDK log messages
+ */
+export interface LogFields {
+  /** API path the message relates to, e.g. /api/end/email */
+  endpoint?: string
+  /** HTTP method */
+  method?: string
+  /** Attempt number (starts at 1) */
+  attempt?: number
+  /** HTTP status, when the server responded */
+  status?: number
+  /** Metigan error code */
+  errorCode?: ErrorCode
+  /** Duration of the attempt (ms) */
+  latency?: number
+  [key: string]: unknown
+}
+
+/**
+ * Logger accepted by the Metigan client
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+}
+
+/**
+ * pino-style logger: fields object first, message second
+ */
+export interface PinoLikeLogger {
+  debug(fields: object, message?: string): unknown
+  info(fields: object, message?: string): unknown
+  warn(fields: object, message?: string): unknown
+  error(fields: object, message?: string): unknown
+}
+
+/**
+ * winston-style logger: level, message and metadata
+ */
+export interface WinstonLikeLogger {
+  log(level: string, message: string, meta?: object): unknown
+}
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"]
+
+/**
+ * Logger that discards every message (the default)
+ */
+export const noopLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+}
+
+/**
+ * Creates a logger that writes single-line JSON to the console
+ * @param minLevel - Least severe level that is written (default: info)
+ * @returns Logger
+ */
+export function createConsoleLogger(minLevel: LogLevel = "info"): Logger {
+  const threshold = LEVELS.indexOf(minLevel)
+  const write = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+    if (LEVELS.indexOf(level) < threshold) return
+    console[level](JSON.stringify({ level, message, ...fields, time: new Date().toISOString() }))
+  }
+
+  return { debug: write("debug"), info: write("info"), warn: write("warn"), error: write("error") }
+}
+
+/**
+ * Adapts a pino (or pino-compatible) logger
+ * @param pino - pino logger instance
+ * @returns Logger
+ */
+export function createPinoLogger(pino: PinoLikeLogger): Logger {
+  return {
+    debug: (message, fields = {}) => pino.debug(fields, message),
+    info: (message, fields = {}) => pino.info(fields, message),
+    warn: (message, fields = {}) => pino.warn(fields, message),
+    error: (message, fields = {}) => pino.error(fields, message),
+  }
+}
+
+/**
+ * Adapts a winston (or winston-compatible) logger
+ * @param winston - winston logger instance
+ * @returns Logger
+ */
+export function createWinstonLogger(winston: WinstonLikeLogger): Logger {
+  return {
+    debug: (message, fields = {}) => winston.log("debug", message, fields),
+    info: (message, fields = {}) => winston.log("info", message, fields),
+    warn: (message, fields = {}) => winston.log("warn", message, fields),
+    error: (message, fields = {}) => winston.log("error", message, fields),
+  }
+}
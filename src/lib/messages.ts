@@ -0,0 +1,181 @@
+/**
+ * Localized messages of the errors raised by the Metigan client
+ * Messages are templates whose {placeholders} are filled in from parameters.
+ */
+
+import { resolveLocale, type Locale } from "./error-codes"
+
+const en = {
+  apiKeyRequired: "API key is required",
+  clientClosed: "The client is closed",
+  circuitOpen: "The {service} service is unavailable (circuit breaker open)",
+
+  // Email validation
+  senderRequired: "Sender email (from) is required",
+  recipientsRequired: "Recipients must be a non-empty array",
+  subjectRequired: "Subject is required",
+  contentRequired: "Content is required",
+  templateIdRequired: "Template ID is required",
+  templateContentRequired: "Template content is required",
+  invalidSenderEmail: "Invalid sender email format: {email}",
+  invalidRecipientEmail: "Invalid recipient email format: {email}",
+  copyRecipientsInvalid: "{field} must be an array of email addresses",
+  invalidCopyRecipientEmail: "Invalid {field} email format: {email}",
+  invalidReplyToEmail: "Invalid reply-to email format: {email}",
+
+  // Attachments
+  attachmentTooLarge: "File {filename} exceeds the maximum size of 7MB",
+  invalidAttachment: "Invalid attachment format. Please use a valid File, NodeAttachment, or CustomAttachment format.",
+  browserAttachmentRequired: "In browser environments, attachments must be File objects",
+
+  // Contact validation
+  invalidEmail: "Invalid email format: {email}",
+  audienceIdRequired: "audienceId is required",
+  audienceIdRequiredForCreateContact: "audienceId is required when createContact is true",
+  audienceIdRequiredForContacts: "audienceId is required when creating contacts",
+  audienceIdRequiredForContactCreation: "audienceId is required for contact creation",
+  audienceIdRequiredForContactQueries: "audienceId is required for contact queries",
+  audienceIdRequiredForContactUpdates: "audienceId is required for contact updates",
+  createContactRequired: "createContact must be true",
+  emailsRequired: "At least one email is required for contact creation",
+  pageInvalid: "page must be a positive number",
+  limitInvalid: "limit must be a positive number",
+  fieldsRequired: "At least one field must be provided for update",
+
+  // Audience validation
+  audienceIdMissing: "Audience ID is required",
+  audienceNameRequiredForCreation: "name is required for audience creation",
+  audienceNameRequiredForUpdate: "name is required for audience update",
+
+  // API responses
+  contactNotFound: "Contact not found: {email}",
+  audienceNotFound: "Audience not found: {id}",
+  audienceNameTaken: "Audience with this name already exists",
+  contactServiceUnreachable: "Failed to connect to the contact service",
+  audienceServiceUnreachable: "Failed to connect to the audience service",
+  emailServiceUnreachable: "Failed to connect to the email service",
+  requestFailed: "Request failed with status {status}",
+  malformedResponse: "Malformed API response at {path}: expected {expected}, received {received}",
+
+  // Transport
+  requestAborted: "Request was aborted by the caller.",
+  requestTimedOut: "Request timed out. Please check your network connection.",
+  networkUnavailable: "Network error. Please check your internet connection.",
+  requestErrored: "An error occurred during the request",
+  unexpectedRequestError: "An unexpected error occurred during the request",
+  fetchUnavailable: "Fetch API is not available in this environment",
+
+  // Unexpected failures
+  unexpectedCreateContacts: "An unexpected error occurred while creating contacts",
+  unexpectedGetContact: "An unexpected error occurred while getting contact",
+  unexpectedListContacts: "An unexpected error occurred while listing contacts",
+  unexpectedUpdateContact: "An unexpected error occurred while updating contact",
+  unexpectedDeleteContact: "An unexpected error occurred while deleting contact",
+  unexpectedCreateAudience: "An unexpected error occurred while creating audience",
+  unexpectedListAudiences: "An unexpected error occurred while listing audiences",
+  unexpectedGetAudience: "An unexpected error occurred while getting audience",
+  unexpectedUpdateAudience: "An unexpected error occurred while updating audience",
+  unexpectedDeleteAudience: "An unexpected error occurred while deleting audience",
+  unexpectedSendEmail: "An unexpected error occurred while sending email",
+  unexpectedSendTemplate: "An unexpected error occurred while sending email with template",
+}
+
+/**
+ * Keys of the client error messages
+ */
+export type MessageKey = keyof typeof en
+
+const pt: Record<MessageKey, string> = {
+  apiKeyRequired: "A chave de API é obrigatória",
+  clientClosed: "O cliente está fechado",
+  circuitOpen: "O serviço {service} está indisponível (circuit breaker aberto)",
+
+  // Email validation
+  senderRequired: "O email do remetente (from) é obrigatório",
+  recipientsRequired: "Os destinatários devem ser uma lista não vazia",
+  subjectRequired: "O assunto é obrigatório",
+  contentRequired: "O conteúdo é obrigatório",
+  templateIdRequired: "O ID do template é obrigatório",
+  templateContentRequired: "O conteúdo do template é obrigatório",
+  invalidSenderEmail: "Formato de email do remetente inválido: {email}",
+  invalidRecipientEmail: "Formato de email do destinatário inválido: {email}",
+  copyRecipientsInvalid: "{field} deve ser uma lista de endereços de email",
+  invalidCopyRecipientEmail: "Formato de email inválido em {field}: {email}",
+  invalidReplyToEmail: "Formato de email de resposta (reply-to) inválido: {email}",
+
+  // Attachments
+  attachmentTooLarge: "O arquivo {filename} excede o tamanho máximo de 7MB",
+  invalidAttachment: "Formato de anexo inválido. Use um File, NodeAttachment ou CustomAttachment válido.",
+  browserAttachmentRequired: "Em navegadores, os anexos devem ser objetos File",
+
+  // Contact validation
+  invalidEmail: "Formato de email inválido: {email}",
+  audienceIdRequired: "O audienceId é obrigatório",
+  audienceIdRequiredForCreateContact: "O audienceId é obrigatório quando createContact é true",
+  audienceIdRequiredForContacts: "O audienceId é obrigatório para criar contatos",
+  audienceIdRequiredForContactCreation: "O audienceId é obrigatório para a criação de contatos",
+  audienceIdRequiredForContactQueries: "O audienceId é obrigatório para consultar contatos",
+  audienceIdRequiredForContactUpdates: "O audienceId é obrigatório para atualizar contatos",
+  createContactRequired: "createContact deve ser true",
+  emailsRequired: "Informe pelo menos um email para criar contatos",
+  pageInvalid: "page deve ser um número positivo",
+  limitInvalid: "limit deve ser um número positivo",
+  fieldsRequired: "Informe pelo menos um campo para atualizar",
+
+  // Audience validation
+  audienceIdMissing: "O ID da audiência é obrigatório",
+  audienceNameRequiredForCreation: "O nome é obrigatório para criar a audiência",
+  audienceNameRequiredForUpdate: "O nome é obrigatório para atualizar a audiência",
+
+  // API responses
+  contactNotFound: "Contato não encontrado: {email}",
+  audienceNotFound: "Audiência não encontrada: {id}",
+  audienceNameTaken: "Já existe uma audiência com este nome",
+  contactServiceUnreachable: "Falha ao conectar ao serviço de contatos",
+  audienceServiceUnreachable: "Falha ao conectar ao serviço de audiências",
+  emailServiceUnreachable: "Falha ao conectar ao serviço de email",
+  requestFailed: "A requisição falhou com o status {status}",
+  malformedResponse: "Resposta da API malformada em {path}: esperado {expected}, recebido {received}",
+
+  // Transport
+  requestAborted: "A requisição foi cancelada pelo chamador.",
+  requestTimedOut: "A requisição expirou. Verifique sua conexão de rede.",
+  networkUnavailable: "Erro de rede. Verifique sua conexão com a internet.",
+  requestErrored: "Ocorreu um erro durante a requisição",
+  unexpectedRequestError: "Ocorreu um erro inesperado durante a requisição",
+  fetchUnavailable: "A Fetch API não está disponível neste ambiente",
+
+  // Unexpected failures
+  unexpectedCreateContacts: "Ocorreu um erro inesperado ao criar contatos",
+  unexpectedGetContact: "Ocorreu um erro inesperado ao obter o contato",
+  unexpectedListContacts: "Ocorreu um erro inesperado ao listar contatos",
+  unexpectedUpdateContact: "Ocorreu um erro inesperado ao atualizar o contato",
+  unexpectedDeleteContact: "Ocorreu um erro inesperado ao excluir o contato",
+  unexpectedCreateAudience: "Ocorreu um erro inesperado ao criar a audiência",
+  unexpectedListAudiences: "Ocorreu um erro inesperado ao listar audiências",
+  unexpectedGetAudience: "Ocorreu um erro inesperado ao obter a audiência",
+  unexpectedUpdateAudience: "Ocorreu um erro inesperado ao atualizar a audiência",
+  unexpectedDeleteAudience: "Ocorreu um erro inesperado ao excluir a audiência",
+  unexpectedSendEmail: "Ocorreu um erro inesperado ao enviar o email",
+  unexpectedSendTemplate: "Ocorreu um erro inesperado ao enviar o email com template",
+}
+
+/**
+ * Client error message catalogs by locale
+ */
+export const Messages: Record<Locale, Record<MessageKey, string>> = { en, pt }
+
+/**
+ * Formats a client error message
+ * Placeholders without a matching parameter are left as they are.
+ * @param key - Message key
+ * @param params - Values of the {placeholders}
+ * @param locale - Locale, e.g. "pt" or "pt-BR" (default: "en")
+ * @returns Localized message
+ */
+export function formatMessage(key: MessageKey, params: Record<string, string | number | undefined> = {}, locale?: string): string {
+  const template = Messages[resolveLocale(locale)][key] || Messages.en[key]
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder,
+  )
+}
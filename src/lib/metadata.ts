@@ -0,0 +1,78 @@
+/**
+ * Response metadata helpers
+ * Extracts the request ID and rate-limit state from response headers and
+ * attaches metadata to results without changing their serialized shape.
+ */
+
+import type { RateLimitInfo, ResponseMetadata } from "./types"
+
+// Header names servers and proxies use for request IDs, in order of preference
+const REQUEST_ID_HEADERS = ["x-request-id", "request-id", "x-amzn-requestid", "x-correlation-id"]
+
+/**
+ * Reads the request ID from response headers
+ * @param headers - Response headers with lower-cased names
+ * @returns Request ID, if the server sent one
+ */
+export function getRequestId(headers?: Record<string, string>): string | undefined {
+  if (!headers) return undefined
+  for (const name of REQUEST_ID_HEADERS) {
+    if (headers[name]) return headers[name]
+  }
+  return undefined
+}
+
+/**
+ * Reads the rate-limit headers (IETF RateLimit-* or X-RateLimit-*)
+ * @param headers - Response headers with lower-cased names
+ * @returns Rate-limit state, if the server sent any
+ */
+export function getRateLimitInfo(headers?: Record<string, string>): RateLimitInfo | undefined {
+  if (!headers) return undefined
+
+  const read = (name: string): number | undefined => {
+    const value = headers[`ratelimit-${name}`] ?? headers[`x-ratelimit-${name}`]
+    const parsed = value === undefined ? NaN : Number(value)
+    return Number.isFinite(parsed) ? parsed : undefined
+  }
+
+  const info: RateLimitInfo = { limit: read("limit"), remaining: read("remaining"), reset: read("reset") }
+  return info.limit === undefined && info.remaining === undefined && info.reset === undefined ? undefined : info
+}
+
+/**
+ * Builds the metadata of a request
+ * @param status - HTTP status of the last attempt, if the server responded
+ * @param headers - Response headers of the last attempt
+ * @param latency - Total time spent, retries included (ms)
+ * @param attempts - Number of attempts made
+ * @returns Response metadata
+ */
+export function createResponseMetadata(
+  status: number | undefined,
+  headers: Record<string, string> | undefined,
+  latency: number,
+  attempts: number,
+): ResponseMetadata {
+  return {
+    status,
+    requestId: getRequestId(headers),
+    rateLimit: getRateLimitInfo(headers),
+    latency,
+    attempts,
+  }
+}
+
+/**
+ * Attaches metadata to a result as a non-enumerable `meta` property,
+ * so it is readable but left out of JSON and equality checks
+ * @param result - Result to annotate
+ * @param meta - Metadata to attach
+ * @returns The same result
+ */
+export function attachMetadata<T>(result: T, meta: ResponseMetadata | undefined): T {
+  if (meta && result && typeof result === "object" && Object.isExtensible(result)) {
+    Object.defineProperty(result, "meta", { value: meta, enumerable: false, configurable: true, writable: true })
+  }
+  return result
+}
@@ -5,11 +5,41 @@
  */
 
 // Import dependencies in a way that doesn't expose them in stack traces
-import * as httpUtils from "../utils/http"
-import axios from "axios"
+import { createAxiosTransport, type HttpMethod, type Transport } from "../utils/http"
+import { isAbortError, sleep, throwIfAborted } from "../utils/abort"
+import { getRetryAfterDelay, planRetry, resolveRetryPolicy, type ResolvedRetryPolicy, type RetryPolicy } from "./retry"
+import { RateLimiter, type RateLimiterOptions } from "./rate-limiter"
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitBreakerSnapshot,
+  type EndpointGroup,
+} from "./circuit-breaker"
+import { MiddlewarePipeline, isMiddlewareError, type Middleware } from "./middleware"
+import { createDryRunTransport } from "./dry-run"
+import { noopLogger, type Logger } from "./logger"
+import { Redactor, type RedactionMode, type RedactionOptions } from "./redaction"
+import {
+  createHttpLogSink,
+  isTelemetryDisabled,
+  toLogSink,
+  type LogSink,
+  type LogSinkFunction,
+} from "./log-sinks"
+import { LogQueue, resolveLogBatching, type LogBatchingOptions, type ResolvedLogBatching } from "./log-queue"
+import { TypedEventEmitter, type MetiganEventHandler, type MetiganEventName, type MetiganEvents } from "./events"
+import { OperationScope, formatTraceparent, type SpanAttributes, type TracingOptions } from "./tracing"
+import { attachMetadata, createResponseMetadata } from "./metadata"
+import {
+  responseSchemas,
+  validateResponse,
+  type ResponseSchema,
+  type ResponseValidationMode,
+} from "./response-validation"
 import type {
   EmailOptions,
   EmailApiResponse,
+  ValidationIssue,
   ValidationResult,
   ProcessedAttachment,
   NodeAttachment,
@@ -24,13 +54,50 @@ import type {
   AudienceCreationOptions,
   AudienceUpdateOptions,
   AudienceApiResponse,
+  RequestOptions,
+  ResponseMetadata,
 } from "./types"
-import { MetiganError } from "./errors"
-import { ErrorCode } from "./error-codes"
+import {
+  AttachmentError,
+  AudienceError,
+  MetiganError,
+  NetworkError,
+  ResponseValidationError,
+  TemplateError,
+  ValidationError,
+  createResponseError,
+} from "./errors"
+import { ErrorCode, resolveLocale, type ErrorResource, type Locale } from "./error-codes"
+import { formatMessage, type MessageKey } from "./messages"
+import { createSafeClient, type SafeMetigan } from "./safe"
 
 // Private constants
 const MAX_FILE_SIZE = 7 * 1024 * 1024 // 7MB in bytes
-const LOG_API_URL = "https://metigan-emails-api.savanapoint.com/api/logs" // URL of the logs API
+const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key"
+const OPERATION = Symbol("metigan.operation")
+const TOLERATED_CODES = Symbol("metigan.toleratedCodes")
+
+// State of the public method call a request belongs to
+interface OperationContext {
+  /** Time the operation started (ms since epoch) */
+  startedAt: number
+  /** Operation span, when tracing is enabled */
+  scope?: OperationScope
+  /** Metadata of the last request that failed */
+  lastMeta?: ResponseMetadata
+  /** Contact field values sent by the operation, redacted from its errors */
+  fieldValues: string[]
+}
+
+// Request options carrying the public method call down to the HTTP attempts, and
+// the error codes a calling operation recovers from, which are not reported as failed
+type OperationRequestOptions = RequestOptions & { [OPERATION]?: OperationContext; [TOLERATED_CODES]?: ErrorCode[] }
+
+// Details recorded with a usage log entry
+interface UsageLogDetails {
+  latency?: number
+  errorCode?: ErrorCode
+}
 
 // Status options constants
 const STATUS_OPTIONS = [
@@ -52,26 +119,36 @@ const STATUS_OPTIONS = [
  * Logger for monitoring the Metigan library
  */
 class MetiganLogger {
-  private apiKey: string
   private userId: string
+  private sink: LogSink
+  private sdkLogger: Logger
+  private batching: ResolvedLogBatching
   private disabled = false
-  private retryCount = 3 // Number of retry attempts in case of failure
-  private retryDelay = 500 // Delay between retry attempts (ms)
-  private pendingLogs: Array<{ endpoint: string; status: number; method: string }> = []
+  private pendingLogs: LogQueue
   private isBatchProcessing = false
   private batchTimeout: NodeJS.Timeout | null = null
+  private currentBatch: Promise<boolean> | null = null
 
-  constructor(apiKey: string, userId: string) {
-    this.apiKey = apiKey
+  constructor(userId: string, sink: LogSink, sdkLogger: Logger, batching: ResolvedLogBatching) {
     this.userId = userId
+    this.sink = sink
+    this.sdkLogger = sdkLogger
+    this.batching = batching
+    this.pendingLogs = new LogQueue(batching, sdkLogger)
+
+    // Replay entries persisted by a previous run
+    this.pendingLogs.ready.then(() => {
+      if (this.pendingLogs.size > 0) this.scheduleBatchProcessing()
+    })
   }
 
   /**
    * Disables the logger
+   * Pending logs stay queued (and persisted), they are sent if the logger is enabled again.
    */
   disable(): void {
     this.disabled = true
-    this.clearPendingLogs()
+    this.cancelBatchProcessing()
   }
 
   /**
@@ -79,13 +156,13 @@ class MetiganLogger {
    */
   enable(): void {
     this.disabled = false
+    if (this.pendingLogs.size > 0) this.scheduleBatchProcessing()
   }
 
   /**
-   * Clears pending logs
+   * Cancels the scheduled processing of pending logs
    */
-  private clearPendingLogs(): void {
-    this.pendingLogs = []
+  private cancelBatchProcessing(): void {
     if (this.batchTimeout) {
       clearTimeout(this.batchTimeout)
       this.batchTimeout = null
@@ -127,106 +204,44 @@ class MetiganLogger {
     return "SDK"
   }
 
-    /**
-   * Attempts to make a request with retries
-   * @param url - Request URL
-   * @param data - Data to send
-   * @param headers - Request headers
-   */
-  private async _makeRequestWithRetry(url: string, data: any, headers: any): Promise<any> {
-    // Ensure authentication headers are properly set
-    headers = {
-      ...headers,
-      "x-api-key": this.apiKey,
-      "Authorization": `Bearer ${this.apiKey}`
-    }
-
-    let lastError
-
-    for (let attempt = 0; attempt < this.retryCount; attempt++) {
-      try {
-        return await axios.post(url, data, { headers, timeout: 5000 }) // 5 second timeout
-      } catch (err: any) {
-        lastError = err
-
-        // If the error is 403 (Forbidden), check if it's an authentication problem
-        if (err.response && err.response.status === 403) {
-          // If it's the last attempt, log the error silently
-          if (attempt === this.retryCount - 1) {
-            console.warn("Authentication error when logging. Please check your API key.")
-            return // End the attempts
-          }
-        }
-
-        // If it's a network error or timeout, try again with more urgency
-        if (!err.response || err.code === "ECONNABORTED") {
-          if (attempt === this.retryCount - 1) {
-            console.warn("Connection error when logging. Please check your connectivity.")
-            return
-          }
-        }
-
-        // Wait before trying again (except on the last attempt)
-        if (attempt < this.retryCount - 1) {
-          await new Promise((resolve) => setTimeout(resolve, this.retryDelay * (attempt + 1))) // Exponential backoff
-        }
-      }
-    }
-
-    // If we got here, all attempts failed
-    throw lastError
-  }
   /**
    * Processes the batch of pending logs
+   * A batch leaves the queue only once the sink has accepted it; after a failed
+   * write it stays queued and is sent again with the next batch.
+   * @returns False when a write failed
    */
-  private async processBatch(): Promise<void> {
-    if (this.disabled || this.pendingLogs.length === 0 || this.isBatchProcessing) {
-      return
+  private async processBatch(): Promise<boolean> {
+    await this.pendingLogs.ready
+    if (this.disabled || this.pendingLogs.size === 0 || this.isBatchProcessing) {
+      return true
     }
 
     this.isBatchProcessing = true
-    this.batchTimeout = null
+    this.cancelBatchProcessing()
 
     try {
-      // Copy pending logs and clear the queue
-      const logBatch = [...this.pendingLogs]
-      this.pendingLogs = []
-
-      // Get appropriate userAgent
-      const userAgent = this._getUserAgent()
-
-      // Prepare log batch for sending
-      const batchData = logBatch.map((log) => {
-        const validatedStatus = this._validateStatus(log.status)
-        return {
-          userId: this.userId,
-          endpoint: log.endpoint,
-          status: validatedStatus.code,
-          statusLabel: validatedStatus.label,
-          method: log.method,
-          userAgent,
-          timestamp: new Date().toISOString(),
+      // Send the queue in batches of at most batchSize entries, leaving logs
+      // recorded meanwhile to the next run
+      const newest = this.pendingLogs.peek(this.pendingLogs.size).pop()
+      while (newest && this.pendingLogs.includes(newest) && !this.disabled) {
+        const batch = this.pendingLogs.peek(this.batching.batchSize)
+        try {
+          await this.sink.write(batch)
+        } catch (error: any) {
+          this.sdkLogger.error(`Error processing log batch: ${error.message || "Unknown error"}`, {
+            errorCode: error.code,
+            batchSize: batch.length,
+          })
+          return false
         }
-      })
-
-      // Send batch
-      const headers = {
-        "Content-Type": "application/json",
-        "x-api-key": this.apiKey,
-        "Authorization": `Bearer ${this.apiKey}`,
-        "User-Agent": userAgent,
+        this.pendingLogs.remove(batch)
       }
-
-      await this._makeRequestWithRetry(LOG_API_URL, { logs: batchData }, headers).catch((err) => {
-        console.warn("Warning when processing log batch:", err.message || "Unknown error")
-      })
-    } catch (error: any) {
-      console.warn("Error processing log batch:", error.message || "Unknown error")
+      return true
     } finally {
       this.isBatchProcessing = false
 
-      // Check if new logs were added during processing
-      if (this.pendingLogs.length > 0) {
+      // Check if new logs were added, or a batch failed, during processing
+      if (this.pendingLogs.size > 0) {
         this.scheduleBatchProcessing()
       }
     }
@@ -237,21 +252,77 @@ class MetiganLogger {
    */
   private scheduleBatchProcessing(): void {
     if (!this.batchTimeout && !this.disabled) {
-      this.batchTimeout = setTimeout(() => this.processBatch(), 1000) // Process every 1 second
+      this.batchTimeout = setTimeout(() => this.startBatch(), this.batching.flushInterval)
+      // Never keep the process alive just for pending logs, flush() is there for that
+      if (typeof this.batchTimeout.unref === "function") {
+        this.batchTimeout.unref()
+      }
+    }
+  }
+
+  /**
+   * Starts processing the batch and keeps track of it
+   */
+  private startBatch(): Promise<boolean> {
+    const batch = this.processBatch()
+    this.currentBatch = batch
+    return batch.finally(() => {
+      if (this.currentBatch === batch) this.currentBatch = null
+    })
+  }
+
+  /**
+   * Sends the logs pending at call time now and waits for delivery
+   * Logs recorded meanwhile are left to the next batch, so flush() resolves under constant traffic.
+   */
+  async flush(): Promise<void> {
+    await this.pendingLogs.ready
+    // The queue is first in, first out: the newest pending log leaves last
+    const newest = this.pendingLogs.peek(this.pendingLogs.size).pop()
+    while (newest && this.pendingLogs.includes(newest) && (this.currentBatch || !this.disabled)) {
+      if (this.batchTimeout) {
+        clearTimeout(this.batchTimeout)
+        this.batchTimeout = null
+      }
+      // Failed batches stay queued for a later attempt
+      const delivered = await (this.currentBatch || this.startBatch())
+      if (!delivered) break
     }
+    await this.pendingLogs.settled()
   }
 
   /**
    * Records an operation to be sent in batch to the logs API
+   * @param endpoint - Logged endpoint
+   * @param status - HTTP status of the operation
+   * @param method - HTTP method
+   * @param details - Latency and Metigan error code of the operation
    */
-  async log(endpoint: string, status: number, method: string): Promise<void> {
+  async log(endpoint: string, status: number, method: string, details: UsageLogDetails = {}): Promise<void> {
     if (this.disabled) return
 
-    // Add log to the queue
-    this.pendingLogs.push({ endpoint, status, method })
+    const validatedStatus = this._validateStatus(status)
 
-    // Schedule batch processing if necessary
-    this.scheduleBatchProcessing()
+    // Add log to the queue
+    this.pendingLogs.push({
+      userId: this.userId,
+      endpoint,
+      status: validatedStatus.code,
+      statusLabel: validatedStatus.label,
+      method,
+      userAgent: this._getUserAgent(),
+      timestamp: new Date().toISOString(),
+      httpStatus: status,
+      latency: details.latency,
+      errorCode: details.errorCode,
+    })
+
+    // Send a full batch right away, otherwise wait for the flush interval
+    if (this.pendingLogs.size >= this.batching.batchSize && !this.isBatchProcessing) {
+      this.startBatch()
+    } else {
+      this.scheduleBatchProcessing()
+    }
   }
 }
 
@@ -263,14 +334,38 @@ export interface MetiganOptions {
   userId?: string
   /** Disable logs */
   disableLogs?: boolean
+  /** Language of error messages, e.g. "pt" or "pt-BR" (default: "en") */
+  locale?: Locale | string
+  /** Destination of usage logs (default: the logs API of baseUrl) */
+  logSink?: LogSink | LogSinkFunction
+  /** Usage log batch size, flush interval, queue bound and persistence */
+  logBatching?: LogBatchingOptions
+  /** PII redaction in errors, logs, events and spans (default: "off") */
+  redaction?: RedactionMode | RedactionOptions
   /** Number of retry attempts for failed operations */
   retryCount?: number
   /** Base time between retry attempts (ms) */
   retryDelay?: number
+  /** Retry policy (retryable statuses, attempt and time budget, jitter, veto hook) */
+  retryPolicy?: RetryPolicy
+  /** Client-side rate limiting (disabled when omitted) */
+  rateLimit?: RateLimiterOptions
+  /** Circuit breaker per endpoint group (disabled when omitted) */
+  circuitBreaker?: CircuitBreakerOptions
+  /** Validate response payloads against their schemas (default: "off") */
+  responseValidation?: ResponseValidationMode | "off"
   /** Timeout for requests (ms) */
   timeout?: number
   /** Base URL for API (optional, defaults to localhost) */
   baseUrl?: string
+  /** HTTP transport used for every request (optional, defaults to axios) */
+  transport?: Transport
+  /** "dry-run" validates and builds sends and mutations without calling the API (default: "live") */
+  mode?: "live" | "dry-run"
+  /** Structured logger for SDK diagnostics (default: no-op) */
+  logger?: Logger
+  /** OpenTelemetry tracing (disabled when omitted) */
+  tracing?: TracingOptions
 }
 
 /**
@@ -279,13 +374,28 @@ export interface MetiganOptions {
 export class Metigan {
   private apiKey: string
   private logger: MetiganLogger
+  private sdkLogger: Logger
+  private transport: Transport
   private timeout: number
   private retryCount: number
   private retryDelay: number
+  private retryPolicy: ResolvedRetryPolicy
+  private rateLimiter?: RateLimiter
+  private circuitBreakers?: Record<EndpointGroup, CircuitBreaker>
+  private middleware = new MiddlewarePipeline()
+  private responseValidation: ResponseValidationMode | "off"
+  private tracing?: TracingOptions
+  private events: TypedEventEmitter<MetiganEvents>
   private baseApiUrl: string
   private baseContactApiUrl: string
   private baseAudienceApiUrl: string
   private baseLogApiUrl: string
+  private telemetryDisabled: boolean
+  private redactor: Redactor
+  private locale: Locale
+  private inFlight = new Set<Promise<unknown>>()
+  private closed = false
+  private safeClient?: SafeMetigan
 
   /**
    * Create a new Metigan client
@@ -294,9 +404,10 @@ export class Metigan {
    */
   constructor(apiKey: string, options: MetiganOptions = {}) {
     if (!apiKey) {
-      throw new MetiganError("API key is required", ErrorCode.INVALID_API_KEY)
+      throw new MetiganError(formatMessage("apiKeyRequired", {}, options.locale), ErrorCode.INVALID_API_KEY)
     }
     this.apiKey = apiKey
+    this.locale = resolveLocale(options.locale)
 
     // Set base URLs
     const baseUrl = options.baseUrl || "https://metigan-emails-api.savanapoint.com"
@@ -309,21 +420,47 @@ export class Metigan {
     this.timeout = options.timeout || 30000 // 30 seconds default
     this.retryCount = options.retryCount || 3
     this.retryDelay = options.retryDelay || 1000
+    this.retryPolicy = resolveRetryPolicy(options.retryPolicy, this.retryCount, this.retryDelay)
+    this.rateLimiter = options.rateLimit ? new RateLimiter(options.rateLimit) : undefined
+    if (options.circuitBreaker) {
+      this.circuitBreakers = {
+        email: new CircuitBreaker(options.circuitBreaker),
+        contacts: new CircuitBreaker(options.circuitBreaker),
+        audiences: new CircuitBreaker(options.circuitBreaker),
+      }
+    }
+    this.responseValidation = options.responseValidation || "off"
+    this.tracing = options.tracing
+    this.transport = options.transport || createAxiosTransport(undefined, this.locale)
+    if (options.mode === "dry-run") {
+      this.transport = createDryRunTransport(this.transport)
+    }
 
     // Initialize the logger
     const userId = options.userId || "anonymous"
-    this.logger = new MetiganLogger(apiKey, userId)
-
-    // Disable logs if requested
-    if (options.disableLogs) {
+    this.redactor = new Redactor(options.redaction)
+    this.sdkLogger = this.redactor.logger(options.logger || noopLogger)
+    const logSink = options.logSink
+      ? toLogSink(options.logSink)
+      : createHttpLogSink({ url: this.baseLogApiUrl, apiKey, transport: this.transport, logger: this.sdkLogger })
+    this.logger = new MetiganLogger(this.redactor.text(userId), logSink, this.sdkLogger, resolveLogBatching(options.logBatching))
+    this.events = new TypedEventEmitter<MetiganEvents>((event, error: any) => {
+      this.sdkLogger.warn(`Handler for "${String(event)}" event failed: ${error?.message || error}`)
+    })
+
+    // Disable logs if requested, or opted out of telemetry through the environment
+    this.telemetryDisabled = isTelemetryDisabled()
+    if (options.disableLogs || this.telemetryDisabled) {
       this.logger.disable()
     }
   }
 
   /**
    * Enables logging
+   * Has no effect when telemetry is disabled through DO_NOT_TRACK or METIGAN_DISABLE_TELEMETRY
    */
   enableLogging(): void {
+    if (this.telemetryDisabled) return
     this.logger.enable()
   }
 
@@ -334,6 +471,109 @@ export class Metigan {
     this.logger.disable()
   }
 
+  /**
+   * Waits for the calls in flight and sends their pending usage logs
+   * Call it before a serverless function returns so no log is lost. Calls started
+   * meanwhile are not waited for, so flush() resolves under constant traffic.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.inFlight, (call) => call.catch(() => undefined)))
+    await this.logger.flush()
+  }
+
+  /**
+   * Flushes the client and rejects every later call with CLIENT_CLOSED
+   * Calls already in flight are allowed to finish.
+   */
+  async close(): Promise<void> {
+    this.closed = true
+    await this.flush()
+  }
+
+  /**
+   * Non-throwing variant of the API methods
+   * Each method resolves with { ok: true, data, meta } or { ok: false, error },
+   * where error is the MetiganError the throwing method would have thrown.
+   */
+  get safe(): SafeMetigan {
+    if (!this.safeClient) {
+      this.safeClient = createSafeClient(this, this.locale)
+    }
+    return this.safeClient
+  }
+
+  /**
+   * Emits an event with its payload redacted by the redaction policy
+   * Nothing is copied when the event has no handler.
+   * @param event - Event name
+   * @param payload - Event payload
+   * @private
+   */
+  private _emit<E extends MetiganEventName>(event: E, payload: MetiganEvents[E]): void {
+    if (this.events.listenerCount(event) === 0) return
+
+    const redacted = this.redactor.deep(payload)
+    // Redacted copies leave out the non-enumerable metadata of results
+    const copy = redacted as Record<string, any>
+    for (const [key, value] of Object.entries(payload)) {
+      if (copy[key] !== value && value && typeof value === "object") {
+        attachMetadata(copy[key], value.meta)
+      }
+    }
+    this.events.emit(event, redacted)
+  }
+
+  /**
+   * Registers a request/response middleware
+   * onRequest hooks run in registration order, onResponse and onError hooks in reverse order.
+   * Middleware runs for every API call and for each retry attempt.
+   * @param middleware - Middleware to register
+   * @returns The client, for chaining
+   */
+  use(middleware: Middleware): this {
+    this.middleware.use(middleware)
+    return this
+  }
+
+  /**
+   * Subscribes to a lifecycle event
+   * Handler errors are logged and never affect the operation that emitted the event.
+   * @param event - Event name
+   * @param handler - Handler called with the typed payload
+   * @returns The client, for chaining
+   */
+  on<E extends MetiganEventName>(event: E, handler: MetiganEventHandler<E>): this {
+    this.events.on(event, handler)
+    return this
+  }
+
+  /**
+   * Unsubscribes from a lifecycle event
+   * @param event - Event name
+   * @param handler - Handler passed to on
+   * @returns The client, for chaining
+   */
+  off<E extends MetiganEventName>(event: E, handler: MetiganEventHandler<E>): this {
+    this.events.off(event, handler)
+    return this
+  }
+
+  /**
+   * Returns the circuit breaker state of each endpoint group, for health checks
+   * @returns Snapshot per endpoint group (empty when the circuit breaker is disabled)
+   */
+  getCircuitBreakerState(): Partial<Record<EndpointGroup, CircuitBreakerSnapshot>> {
+    if (!this.circuitBreakers) {
+      return {}
+    }
+
+    return {
+      email: this.circuitBreakers.email.snapshot(),
+      contacts: this.circuitBreakers.contacts.snapshot(),
+      audiences: this.circuitBreakers.audiences.snapshot(),
+    }
+  }
+
   /**
    * Validates an email address format
    * @param email - The email to validate
@@ -376,160 +616,271 @@ export class Metigan {
     return from.trim()
   }
 
+  /**
+   * Builds a validation result from the issues found
+   * @param issues - Validation issues
+   * @returns Validation result, with the first issue as error and code
+   * @private
+   */
+  private _validationResult(issues: ValidationIssue[]): ValidationResult {
+    if (issues.length === 0) {
+      return { isValid: true, issues }
+    }
+    return { isValid: false, error: issues[0].message, code: issues[0].code, issues }
+  }
+
+  /**
+   * Validates the sender and recipients shared by plain and template emails
+   * @param messageData - The email message data
+   * @param issues - Issues found so far, appended to
+   * @private
+   */
+  private _validateAddresses(messageData: EmailOptions | TemplateOptions, issues: ValidationIssue[]): void {
+    // Validate sender email format
+    if (messageData.from) {
+      const fromEmail = this._extractEmailAddress(messageData.from)
+      if (!fromEmail || !this._validateEmail(fromEmail)) {
+        issues.push({ path: "from", code: ErrorCode.INVALID_EMAIL_FORMAT, message: this._message("invalidSenderEmail", { email: fromEmail }) })
+      }
+    }
+
+    // Validate recipient email formats
+    if (Array.isArray(messageData.recipients)) {
+      messageData.recipients.forEach((recipient, index) => {
+        const recipientEmail = this._extractEmailAddress(recipient)
+        if (!recipientEmail || !this._validateEmail(recipientEmail)) {
+          issues.push({
+            path: `recipients[${index}]`,
+            code: ErrorCode.INVALID_RECIPIENT,
+            message: this._message("invalidRecipientEmail", { email: recipientEmail }),
+          })
+        }
+      })
+    }
+
+    // Validate copy recipient email formats
+    for (const field of ["cc", "bcc"] as const) {
+      const addresses = messageData[field]
+      if (addresses === undefined) continue
+
+      if (!Array.isArray(addresses)) {
+        issues.push({ path: field, code: ErrorCode.INVALID_RECIPIENT, message: this._message("copyRecipientsInvalid", { field }) })
+        continue
+      }
+
+      addresses.forEach((address: unknown, index) => {
+        if (typeof address !== "string") {
+          issues.push({ path: `${field}[${index}]`, code: ErrorCode.INVALID_RECIPIENT, message: this._message("copyRecipientsInvalid", { field }) })
+          return
+        }
+
+        const email = this._extractEmailAddress(address)
+        if (!email || !this._validateEmail(email)) {
+          issues.push({
+            path: `${field}[${index}]`,
+            code: ErrorCode.INVALID_RECIPIENT,
+            message: this._message("invalidCopyRecipientEmail", { field, email }),
+          })
+        }
+      })
+    }
+
+    // Validate reply-to email format
+    if (messageData.replyTo !== undefined) {
+      const replyToEmail = this._extractEmailAddress(String(messageData.replyTo))
+      if (!replyToEmail || !this._validateEmail(replyToEmail)) {
+        issues.push({ path: "replyTo", code: ErrorCode.INVALID_EMAIL_FORMAT, message: this._message("invalidReplyToEmail", { email: replyToEmail }) })
+      }
+    }
+  }
+
   /**
    * Validates email message data
    * @param messageData - The email message data
-   * @returns Validation result with status and error message
+   * @returns Validation result with every issue found
    * @private
    */
   private _validateMessageData(messageData: EmailOptions): ValidationResult {
+    const issues: ValidationIssue[] = []
+
     // Check required fields
     if (!messageData.from) {
-      return { isValid: false, error: "Sender email (from) is required", code: ErrorCode.MISSING_REQUIRED_FIELD }
+      issues.push({ path: "from", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("senderRequired") })
     }
 
     if (!messageData.recipients || !Array.isArray(messageData.recipients) || messageData.recipients.length === 0) {
-      return { isValid: false, error: "Recipients must be a non-empty array", code: ErrorCode.MISSING_REQUIRED_FIELD }
+      issues.push({ path: "recipients", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("recipientsRequired") })
     }
 
     if (!messageData.subject) {
-      return { isValid: false, error: "Subject is required", code: ErrorCode.MISSING_REQUIRED_FIELD }
+      issues.push({ path: "subject", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("subjectRequired") })
     }
 
     if (!messageData.content) {
-      return { isValid: false, error: "Content is required", code: ErrorCode.MISSING_REQUIRED_FIELD }
+      issues.push({ path: "content", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("contentRequired") })
     }
 
-    // Validate sender email format
-    const fromEmail = this._extractEmailAddress(messageData.from)
-    if (!fromEmail || !this._validateEmail(fromEmail)) {
-      return { isValid: false, error: `Invalid sender email format: ${fromEmail}`, code: ErrorCode.INVALID_EMAIL_FORMAT }
+    this._validateAddresses(messageData, issues)
+
+    // Validate contact creation options if provided
+    if (messageData.contactOptions?.createContact && !messageData.contactOptions.audienceId) {
+      issues.push({
+        path: "contactOptions.audienceId",
+        code: ErrorCode.INVALID_AUDIENCE_ID,
+        message: this._message("audienceIdRequiredForCreateContact"),
+      })
     }
 
-    // Validate recipient email formats
-    for (const recipient of messageData.recipients) {
-      const recipientEmail = this._extractEmailAddress(recipient)
-      if (!recipientEmail || !this._validateEmail(recipientEmail)) {
-        return { isValid: false, error: `Invalid recipient email format: ${recipientEmail}`, code: ErrorCode.INVALID_RECIPIENT }
-      }
+    return this._validationResult(issues)
+  }
+
+  /**
+   * Validates template email data
+   * @param templateData - The template email data
+   * @returns Validation result with every issue found
+   * @private
+   */
+  private _validateTemplateData(templateData: TemplateOptions): ValidationResult {
+    const issues: ValidationIssue[] = []
+
+    // Check required fields
+    if (!templateData.from) {
+      issues.push({ path: "from", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("senderRequired") })
     }
 
-    // Validate contact creation options if provided
-    if (messageData.contactOptions?.createContact) {
-      if (!messageData.contactOptions.audienceId) {
-        return { isValid: false, error: "audienceId is required when createContact is true", code: ErrorCode.INVALID_AUDIENCE_ID }
-      }
+    if (!templateData.recipients || !Array.isArray(templateData.recipients) || templateData.recipients.length === 0) {
+      issues.push({ path: "recipients", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("recipientsRequired") })
+    }
+
+    if (!templateData.subject) {
+      issues.push({ path: "subject", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("subjectRequired") })
+    }
+
+    if (!templateData.templateId) {
+      issues.push({ path: "templateId", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("templateIdRequired") })
     }
 
-    return { isValid: true }
+    this._validateAddresses(templateData, issues)
+
+    return this._validationResult(issues)
   }
 
   /**
    * Validates contact creation options
    * @param options - Contact creation options
    * @param emails - List of emails to create contacts for
-   * @returns Validation result with status and error message
+   * @returns Validation result with every issue found
    * @private
    */
   private _validateContactOptions(options: ContactCreationOptions, emails: string[]): ValidationResult {
+    const issues: ValidationIssue[] = []
+
     if (!options.createContact) {
-      return { isValid: false, error: "createContact must be true", code: ErrorCode.MISSING_REQUIRED_FIELD }
+      issues.push({ path: "createContact", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("createContactRequired") })
     }
 
     if (!options.audienceId) {
-      return { isValid: false, error: "audienceId is required for contact creation", code: ErrorCode.INVALID_AUDIENCE_ID }
+      issues.push({ path: "audienceId", code: ErrorCode.INVALID_AUDIENCE_ID, message: this._message("audienceIdRequiredForContactCreation") })
     }
 
     if (!emails || !Array.isArray(emails) || emails.length === 0) {
-      return { isValid: false, error: "At least one email is required for contact creation", code: ErrorCode.MISSING_REQUIRED_FIELD }
-    }
-
-    // Validate email formats
-    for (const email of emails) {
-      if (!this._validateEmail(email)) {
-        return { isValid: false, error: `Invalid email format: ${email}`, code: ErrorCode.INVALID_EMAIL_FORMAT }
-      }
+      issues.push({ path: "emails", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("emailsRequired") })
+    } else {
+      // Validate email formats
+      emails.forEach((email, index) => {
+        if (!this._validateEmail(email)) {
+          issues.push({ path: `emails[${index}]`, code: ErrorCode.INVALID_EMAIL_FORMAT, message: this._message("invalidEmail", { email }) })
+        }
+      })
     }
 
-    return { isValid: true }
+    return this._validationResult(issues)
   }
 
   /**
    * Validates contact query options
    * @param options - Contact query options
-   * @returns Validation result with status and error message
+   * @returns Validation result with every issue found
    * @private
    */
   private _validateContactQueryOptions(options: ContactQueryOptions): ValidationResult {
+    const issues: ValidationIssue[] = []
+
     if (!options.audienceId) {
-      return { isValid: false, error: "audienceId is required for contact queries", code: ErrorCode.INVALID_AUDIENCE_ID }
+      issues.push({ path: "audienceId", code: ErrorCode.INVALID_AUDIENCE_ID, message: this._message("audienceIdRequiredForContactQueries") })
     }
 
     if (options.page !== undefined && (typeof options.page !== "number" || options.page < 1)) {
-      return { isValid: false, error: "page must be a positive number", code: ErrorCode.MISSING_REQUIRED_FIELD }
+      issues.push({ path: "page", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("pageInvalid") })
     }
 
     if (options.limit !== undefined && (typeof options.limit !== "number" || options.limit < 1)) {
-      return { isValid: false, error: "limit must be a positive number", code: ErrorCode.MISSING_REQUIRED_FIELD }
+      issues.push({ path: "limit", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("limitInvalid") })
     }
 
-    return { isValid: true }
+    return this._validationResult(issues)
   }
 
   /**
    * Validates contact update options
    * @param email - Email address of the contact to update
    * @param options - Contact update options
-   * @returns Validation result with status and error message
+   * @returns Validation result with every issue found
    * @private
    */
   private _validateContactUpdateOptions(email: string, options: ContactUpdateOptions): ValidationResult {
+    const issues: ValidationIssue[] = []
+
     if (!email || !this._validateEmail(email)) {
-      return { isValid: false, error: `Invalid email format: ${email}`, code: ErrorCode.INVALID_EMAIL_FORMAT }
+      issues.push({ path: "email", code: ErrorCode.INVALID_EMAIL_FORMAT, message: this._message("invalidEmail", { email }) })
     }
 
     if (!options.audienceId) {
-      return { isValid: false, error: "audienceId is required for contact updates", code: ErrorCode.INVALID_AUDIENCE_ID }
+      issues.push({ path: "audienceId", code: ErrorCode.INVALID_AUDIENCE_ID, message: this._message("audienceIdRequiredForContactUpdates") })
     }
 
     if (!options.fields || Object.keys(options.fields).length === 0) {
-      return { isValid: false, error: "At least one field must be provided for update", code: ErrorCode.MISSING_REQUIRED_FIELD }
+      issues.push({ path: "fields", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("fieldsRequired") })
     }
 
-    return { isValid: true }
+    return this._validationResult(issues)
   }
 
   /**
    * Validates audience creation options
    * @param options - Audience creation options
-   * @returns Validation result with status and error message
+   * @returns Validation result with every issue found
    * @private
    */
   private _validateAudienceCreationOptions(options: AudienceCreationOptions): ValidationResult {
+    const issues: ValidationIssue[] = []
+
     if (!options.name) {
-      return { isValid: false, error: "name is required for audience creation", code: ErrorCode.MISSING_REQUIRED_FIELD }
+      issues.push({ path: "name", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("audienceNameRequiredForCreation") })
     }
 
-    return { isValid: true }
+    return this._validationResult(issues)
   }
 
   /**
    * Validates audience update options
    * @param id - Audience ID
    * @param options - Audience update options
-   * @returns Validation result with status and error message
+   * @returns Validation result with every issue found
    * @private
    */
   private _validateAudienceUpdateOptions(id: string, options: AudienceUpdateOptions): ValidationResult {
+    const issues: ValidationIssue[] = []
+
     if (!id) {
-      return { isValid: false, error: "Audience ID is required", code: ErrorCode.MISSING_REQUIRED_FIELD }
+      issues.push({ path: "id", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("audienceIdMissing") })
     }
     
     if (!options.name) {
-      return { isValid: false, error: "name is required for audience update", code: ErrorCode.MISSING_REQUIRED_FIELD }
+      issues.push({ path: "name", code: ErrorCode.MISSING_REQUIRED_FIELD, message: this._message("audienceNameRequiredForUpdate") })
     }
 
-    return { isValid: true }
+    return this._validationResult(issues)
   }
 
   /**
@@ -565,7 +916,7 @@ export class Metigan {
       // Handle File objects (browser)
       if (isBrowser && typeof File !== "undefined" && file instanceof File) {
         if (file.size > MAX_FILE_SIZE) {
-          throw new MetiganError(`File ${file.name} exceeds the maximum size of 7MB`, ErrorCode.ATTACHMENT_TOO_LARGE)
+          throw new AttachmentError(this._message("attachmentTooLarge", { filename: file.name }), ErrorCode.ATTACHMENT_TOO_LARGE)
         }
 
         buffer = await file.arrayBuffer()
@@ -577,7 +928,7 @@ export class Metigan {
         const nodeFile = file as NodeAttachment
 
         if (nodeFile.buffer.length > MAX_FILE_SIZE) {
-          throw new MetiganError(`File ${nodeFile.originalname} exceeds the maximum size of 7MB`, ErrorCode.ATTACHMENT_TOO_LARGE)
+          throw new AttachmentError(this._message("attachmentTooLarge", { filename: nodeFile.originalname }), ErrorCode.ATTACHMENT_TOO_LARGE)
         }
 
         buffer = nodeFile.buffer
@@ -599,14 +950,14 @@ export class Metigan {
         }
 
         if (contentSize > MAX_FILE_SIZE) {
-          throw new MetiganError(`File ${customFile.filename} exceeds the maximum size of 7MB`, ErrorCode.ATTACHMENT_TOO_LARGE)
+          throw new AttachmentError(this._message("attachmentTooLarge", { filename: customFile.filename }), ErrorCode.ATTACHMENT_TOO_LARGE)
         }
 
         buffer = customFile.content
         filename = customFile.filename
         mimetype = customFile.contentType || this._getMimeType(customFile.filename)
       } else {
-        throw new MetiganError("Invalid attachment format. Please use a valid File, NodeAttachment, or CustomAttachment format.", ErrorCode.INVALID_ATTACHMENT)
+        throw new AttachmentError(this._message("invalidAttachment"), ErrorCode.INVALID_ATTACHMENT)
       }
 
       // Convert buffer to base64 if needed
@@ -697,848 +1048,1277 @@ export class Metigan {
   }
 
   /**
-   * Attempts to make an HTTP request with retry system
-   * @param url - Request URL
-   * @param data - Data to send
-   * @param headers - Request headers
-   * @param method - HTTP method
+   * Adds the idempotency key used for a send to a successful response
+   * @param response - Response from the API
+   * @param idempotencyKey - Key sent with the request
+   * @returns Response including the idempotency key
    * @private
    */
-  private async _makeRequestWithRetry<T>(
-    url: string,
-    data: any,
-    headers: Record<string, string>,
-    method: "GET" | "POST" | "PUT" | "DELETE" = "POST",
-  ): Promise<T> {
-    // Ensure authentication headers are properly set
-    headers = {
-      ...headers,
-      "x-api-key": this.apiKey,
-      "Authorization": `Bearer ${this.apiKey}`
+  private _attachIdempotencyKey(response: EmailApiResponse, idempotencyKey: string): EmailApiResponse {
+    if (response && typeof response === "object" && response.success) {
+      return attachMetadata({ ...response, idempotencyKey }, response.meta)
     }
+    return response
+  }
 
-    let lastError
-
-    for (let attempt = 0; attempt < this.retryCount; attempt++) {
-      try {
-        switch (method) {
-          case "GET":
-            return await httpUtils.get<T>(url, headers)
-          case "POST":
-            return await httpUtils.post<T>(url, data, headers)
-          case "PUT":
-            return await httpUtils.put<T>(url, data, headers)
-          case "DELETE":
-            return await httpUtils.deleteRequest<T>(url, headers)
-          default:
-            return await httpUtils.post<T>(url, data, headers)
-        }
-      } catch (error: any) {
-        lastError = error
-
-        // If it's an authentication error (401/403), we can retry a limited number of times
-        if (error.status === 401 || error.status === 403) {
-          console.warn(`Attempt ${attempt + 1}/${this.retryCount}: Authentication error (${error.status})`)
-        }
-
-        // If it's a server error (5xx), try again after waiting
-        else if (error.status >= 500) {
-          console.warn(`Attempt ${attempt + 1}/${this.retryCount}: Server error (${error.status})`)
-        }
-
-        // If it's a network error, we also try again
-        else if (!error.status) {
-          console.warn(`Attempt ${attempt + 1}/${this.retryCount}: Network error or timeout`)
-        }
+  /**
+   * Emits the sent event for a successful send
+   * @param operation - Send method
+   * @param response - Response returned to the caller
+   * @param recipients - Recipients of the email
+   * @param idempotencyKey - Key sent with the request
+   * @private
+   */
+  private _emitSent(
+    operation: MetiganEvents["sent"]["operation"],
+    response: EmailApiResponse,
+    recipients: string[],
+    idempotencyKey: string,
+  ): void {
+    if (response && response.success) {
+      this._emit("sent", { operation, response, recipients, idempotencyKey })
+    }
+  }
 
-        // If it's not the last retry, wait before trying again
-        if (attempt < this.retryCount - 1) {
-          // Exponential backoff with jitter
-          const delay = this.retryDelay * Math.pow(2, attempt) * (0.5 + Math.random() * 0.5)
-          await new Promise((resolve) => setTimeout(resolve, delay))
-        } else {
-          // On the last attempt, propagate the error
-          throw error
+  /**
+   * Emits a contactCreated event per contact the API confirmed
+   * @param response - Response from the API
+   * @param emails - Emails sent in the request
+   * @param audienceId - Audience the contacts were created in
+   * @private
+   */
+  private _emitContactsCreated(response: ContactApiResponse, emails: string[], audienceId: string): void {
+    if (!response || !response.success) return
+
+    const contacts = "contacts" in response && Array.isArray(response.contacts) ? response.contacts : undefined
+    if (contacts) {
+      for (const contact of contacts as Array<{ email: string; audienceId?: string; success?: boolean }>) {
+        if (contact.success !== false) {
+          this._emit("contactCreated", { email: contact.email, audienceId: contact.audienceId || audienceId })
         }
       }
+      return
     }
 
-    // Should never get here, but for safety
-    throw lastError
+    for (const email of emails) {
+      this._emit("contactCreated", { email, audienceId })
+    }
   }
 
   /**
-   * Creates contacts in the specified audience
-   * @param emails - List of email addresses to create contacts for
-   * @param options - Contact creation options
-   * @returns Response from the API
+   * Maps a request URL to its endpoint group
+   * @param url - Request URL
+   * @returns Endpoint group, or undefined for URLs outside the API
+   * @private
    */
-  async createContacts(emails: string[], options: ContactCreationOptions): Promise<ContactApiResponse> {
-    // Start monitoring
-    let statusCode = 500 // Default error status
+  private _getEndpointGroup(url: string): EndpointGroup | undefined {
+    if (url.startsWith(this.baseApiUrl)) return "email"
+    if (url.startsWith(this.baseContactApiUrl)) return "contacts"
+    if (url.startsWith(this.baseAudienceApiUrl)) return "audiences"
+    return undefined
+  }
 
-    try {
-      // Validate contact options
-      const validation = this._validateContactOptions(options, emails)
-      if (!validation.isValid) {
-        throw new MetiganError(validation.error || "Invalid contact creation data", validation.code)
-      }
+  /**
+   * Returns the path of a request URL for log fields, without the query string
+   * @param url - Request URL
+   * @returns URL path
+   * @private
+   */
+  private _getEndpointPath(url: string): string {
+    const withoutOrigin = url.replace(/^[a-z]+:\/\/[^/]+/i, "")
+    return withoutOrigin.split("?")[0] || "/"
+  }
 
-      // Prepare request data
-      const requestData = {
-        emails: emails.map((email) => this._extractEmailAddress(email)),
-        audienceId: options.audienceId,
-        fields: options.contactFields || {},
-      }
+  /**
+   * Runs a public method, inside an operation span when tracing is enabled
+   * Nested calls (e.g. sendEmailAndCreateContacts) become child spans, and the
+   * request options handed to run carry the operation down to the HTTP attempts.
+   * Errors leave with the metadata of the request that failed.
+   * @param operation - Public method name
+   * @param attributes - Span attributes known up front
+   * @param requestOptions - Per-call request options
+   * @param run - Method body
+   * @returns Result of run
+   * @private
+   */
+  private async _runOperation<T>(
+    operation: string,
+    attributes: SpanAttributes,
+    requestOptions: RequestOptions,
+    run: (requestOptions: RequestOptions) => Promise<T>,
+  ): Promise<T> {
+    const parent = (requestOptions as OperationRequestOptions)[OPERATION]
 
-      // Prepare headers
-      const headers = this._prepareAuthHeaders()
+    // Nested calls of an operation already in flight may still run
+    if (this.closed && !parent) {
+      throw new MetiganError(this._message("clientClosed"), ErrorCode.CLIENT_CLOSED)
+    }
 
-      // Make the API request with retry
-      try {
-        const response = await this._makeRequestWithRetry<ContactApiResponse>(
-          this.baseContactApiUrl, 
-          requestData, 
-          headers
-        )
-        statusCode = 200 // Success
+    const context: OperationContext = {
+      startedAt: Date.now(),
+      fieldValues: [],
+      scope: this.tracing ? new OperationScope(this.tracing, `metigan.${operation}`, attributes, parent?.scope) : undefined,
+    }
 
-        // Log successful operation
-        await this.logger.log(`/contacts/create`, statusCode, "POST")
+    const operationOptions = { ...requestOptions, [OPERATION]: context } as OperationRequestOptions
 
-        return response
-      } catch (httpError: any) {
-        // Capture error status code
-        if (httpError.status) {
-          statusCode = httpError.status
-        }
+    const call = run(operationOptions)
+    this.inFlight.add(call)
 
-        // Log operation with error
-        await this.logger.log(`/contacts/create`, statusCode, "POST")
-
-        // Handle HTTP errors without exposing implementation details
-        if (httpError.status) {
-          if (httpError.data && httpError.data.error) {
-            throw new MetiganError(httpError.data.message || httpError.data.error, ErrorCode.API_REQUEST_FAILED)
-          } else {
-            throw new MetiganError(`Request failed with status ${httpError.status}`, ErrorCode.API_REQUEST_FAILED)
-          }
-        }
-        throw new MetiganError("Failed to connect to the contact service", ErrorCode.NETWORK_ERROR)
-      }
+    try {
+      const result = await call
+      context.scope?.end()
+      return result
     } catch (error: unknown) {
-      // Log operation with error
-      await this.logger.log(`/contacts/create/error`, statusCode, "POST")
-
-      // Rethrow MetiganErrors directly
-      if (error instanceof MetiganError) {
-        throw error
-      }
-
-      // Wrap other errors
-      throw new MetiganError("An unexpected error occurred while creating contacts", ErrorCode.UNEXPECTED_ERROR)
+      this._prepareError(error, operationOptions)
+      context.scope?.end(this.redactor.exception(error, context.fieldValues))
+      throw error
+    } finally {
+      this.inFlight.delete(call)
+      this.redactor.releaseFieldValues(context.fieldValues)
     }
   }
 
   /**
-   * Get a contact by email
-   * @param email - Email address of the contact
-   * @param audienceId - Audience ID from Metigan dashboard
-   * @returns Response from the API
+   * Prepares an error thrown by a public method before it is reported
+   * Attaches the metadata of the last failed request and applies the redaction policy.
+   * @param error - Error thrown by a public method
+   * @param requestOptions - Request options of the operation
+   * @private
    */
-  async getContact(email: string, audienceId: string): Promise<ContactApiResponse> {
-    let statusCode = 500 // Default error status
+  private _prepareError(error: unknown, requestOptions: RequestOptions): void {
+    const context = (requestOptions as OperationRequestOptions)[OPERATION]
+    if (error instanceof MetiganError && !error.meta && context?.lastMeta) {
+      error.meta = context.lastMeta
+    }
+    this.redactor.error(error, context?.fieldValues)
+  }
 
-    try {
-      // Validate email
-      if (!email || !this._validateEmail(email)) {
-        throw new MetiganError(`Invalid email format: ${email}`, ErrorCode.INVALID_EMAIL_FORMAT)
-      }
+  /**
+   * Registers contact field values sent by an operation, so its errors, logs and events never expose them
+   * @param requestOptions - Request options of the operation
+   * @param fields - Contact fields
+   * @private
+   */
+  private _addContactFieldValues(requestOptions: RequestOptions, fields?: Record<string, any>): void {
+    const context = (requestOptions as OperationRequestOptions)[OPERATION]
+    if (!context || !fields) return
+
+    const values = Object.values(fields)
+      .filter((value) => value !== undefined && value !== null && typeof value !== "object")
+      .map((value) => String(value))
+    context.fieldValues.push(...values)
+    this.redactor.addFieldValues(values)
+  }
 
-      // Validate audienceId
-      if (!audienceId) {
-        throw new MetiganError("audienceId is required", ErrorCode.INVALID_AUDIENCE_ID)
-      }
+  /**
+   * Records a usage log entry for an operation
+   * @param endpoint - Logged endpoint
+   * @param status - HTTP status of the operation
+   * @param method - HTTP method
+   * @param requestOptions - Request options of the operation
+   * @param error - Error the operation failed with
+   * @private
+   */
+  private async _logUsage(endpoint: string, status: number, method: HttpMethod, requestOptions: RequestOptions, error?: unknown): Promise<void> {
+    const context = (requestOptions as OperationRequestOptions)[OPERATION]
+    await this.logger.log(endpoint, status, method, {
+      latency: context ? Date.now() - context.startedAt : undefined,
+      errorCode: error instanceof MetiganError ? error.code : undefined,
+    })
+  }
+
+  /**
+   * Records the metadata of a request that failed for good
+   * @param operation - Operation the request belongs to
+   * @param error - Error the request failed with
+   * @param meta - Metadata of the request
+   * @private
+   */
+  private _recordFailure(operation: OperationContext | undefined, error: any, meta: ResponseMetadata): void {
+    if (operation) operation.lastMeta = meta
+    if (error instanceof MetiganError) error.meta = meta
+  }
+
+  /**
+   * Span attributes describing an email send
+   * @param options - Email or template options
+   * @returns Recipient and attachment counts
+   * @private
+   */
+  private _getSendAttributes(options: EmailOptions | TemplateOptions): SpanAttributes {
+    return {
+      "metigan.recipient_count": Array.isArray(options?.recipients) ? options.recipients.length : undefined,
+      "metigan.attachment_count": Array.isArray(options?.attachments) ? options.attachments.length : 0,
+    }
+  }
+
+  /**
+   * Formats an error message in the client's locale
+   * @param key - Message key
+   * @param params - Values of the message placeholders
+   * @returns Localized message
+   * @private
+   */
+  private _message(key: MessageKey, params?: Record<string, string | number | undefined>): string {
+    return formatMessage(key, params, this.locale)
+  }
+
+  /**
+   * Converts an HTTP error response into the SDK error of a resource
+   * @param httpError - Error thrown by the transport, carrying the status and body
+   * @param resource - Resource the request targeted
+   * @param messages - Messages replacing the server's, by HTTP status
+   * @returns Error to throw
+   * @private
+   */
+  private _toResponseError(httpError: any, resource: ErrorResource, messages: Record<number, string> = {}): MetiganError {
+    return createResponseError(
+      httpError.status,
+      httpError.data,
+      resource,
+      httpError.headers,
+      messages[httpError.status],
+      httpError,
+      this.locale,
+    )
+  }
+
+  /**
+   * Checks whether an error was raised by the SDK before reaching the API
+   * Such errors keep their own code instead of being reported as connection failures
+   * @param error - Error to check
+   * @returns True for cancellations, middleware failures, open circuits and malformed responses
+   * @private
+   */
+  private _isClientSideError(error: any): boolean {
+    return (
+      isAbortError(error) ||
+      isMiddlewareError(error) ||
+      error instanceof ResponseValidationError ||
+      (error instanceof MetiganError && error.code === ErrorCode.CIRCUIT_OPEN)
+    )
+  }
+
+  /**
+   * Attempts to make an HTTP request with retry system
+   * @param url - Request URL
+   * @param data - Data to send
+   * @param headers - Request headers
+   * @param method - HTTP method
+   * @param requestOptions - Per-call request options such as an AbortSignal
+   * @param schema - Schema the response body is validated against when response validation is enabled
+   * @private
+   */
+  private async _makeRequestWithRetry<T>(
+    url: string,
+    data: any,
+    headers: Record<string, string>,
+    method: HttpMethod = "POST",
+    requestOptions: RequestOptions = {},
+    schema?: ResponseSchema<T>,
+  ): Promise<T> {
+    const { signal } = requestOptions
+
+    // Ensure authentication headers are properly set
+    headers = {
+      ...headers,
+      "x-api-key": this.apiKey,
+      "Authorization": `Bearer ${this.apiKey}`
+    }
+
+    let lastError
+
+    const maxAttempts = this.retryPolicy.maxAttempts
+    const startedAt = Date.now()
+    const group = this._getEndpointGroup(url)
+    const breaker = group && this.circuitBreakers ? this.circuitBreakers[group] : undefined
 
-      // Prepare URL with query parameters
-      const url = `${this.baseContactApiUrl}/${encodeURIComponent(email)}?audienceId=${encodeURIComponent(audienceId)}`
+    const endpoint = this.redactor.text(this._getEndpointPath(url))
+    const operation = (requestOptions as OperationRequestOptions)[OPERATION]
+    const scope = operation?.scope
 
-      // Prepare headers
-      const headers = this._prepareAuthHeaders()
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      // Fail fast while the API is known to be down
+      if (breaker && !breaker.tryAcquire()) {
+        this.sdkLogger.warn("Request rejected, circuit breaker open", { endpoint, method, errorCode: ErrorCode.CIRCUIT_OPEN })
+        throw new NetworkError(this._message("circuitOpen", { service: group }), ErrorCode.CIRCUIT_OPEN)
+      }
+
+      const attemptStartedAt = Date.now()
+      const span = scope?.startAttempt({ "http.request.method": method, "url.path": endpoint })
 
-      // Make the API request with retry
       try {
-        const response = await this._makeRequestWithRetry<ContactApiResponse>(url, null, headers, "GET")
-        statusCode = 200 // Success
+        throwIfAborted(signal, this.locale)
+        this._emit("request", { method, url, attempt: attempt + 1 })
+        // Propagate the attempt span as W3C trace context
+        const attemptHeaders = span ? { ...headers, traceparent: formatTraceparent(span.spanContext()) } : headers
+        const request = { method, url, data, headers: attemptHeaders, timeout: this.timeout, signal }
+        const send = () => this.middleware.execute<T>(request, attempt + 1, this.transport)
+        const response = this.rateLimiter
+          ? await this.rateLimiter.schedule(send, requestOptions.priority, signal)
+          : await send()
+        this.rateLimiter?.reward()
+        breaker?.onSuccess()
+        if (span) scope?.endAttempt(span, response.status)
+        const latency = Date.now() - attemptStartedAt
+        this.sdkLogger.debug("Request succeeded", { endpoint, method, attempt: attempt + 1, status: response.status, latency })
+        this._emit("response", { method, url, attempt: attempt + 1, status: response.status, latency })
+
+        const meta = createResponseMetadata(response.status, response.headers, Date.now() - startedAt, attempt + 1)
+        const body = schema && this.responseValidation !== "off"
+          ? validateResponse(response.data, schema, this.responseValidation, this.locale)
+          : response.data
+        return attachMetadata(body, meta)
+      } catch (error: any) {
+        // The request itself succeeded, a malformed body is never retried
+        if (error instanceof ResponseValidationError) {
+          this._recordFailure(operation, error, createResponseMetadata(undefined, undefined, Date.now() - startedAt, attempt + 1))
+          throw error
+        }
 
-        // Log successful operation
-        await this.logger.log(`/contact/get`, statusCode, "GET")
+        lastError = error
+        breaker?.onFailure(error)
+        if (span) scope?.endAttempt(span, error.status, this.redactor.exception(error, operation?.fieldValues))
 
-        return response
-      } catch (httpError: any) {
-        // Capture error status code
-        if (httpError.status) {
-          statusCode = httpError.status
+        // Cancellations and middleware failures are never retried
+        if (isAbortError(error) || isMiddlewareError(error)) {
+          this._recordFailure(operation, error, createResponseMetadata(error.status, error.headers, Date.now() - startedAt, attempt + 1))
+          throw error
         }
 
-        // Log operation with error
-        await this.logger.log(`/contact/get`, statusCode, "GET")
-
-        // Handle HTTP errors without exposing implementation details
-        if (httpError.status === 404) {
-          throw new MetiganError(`Contact not found: ${email}`, ErrorCode.CONTACT_NOT_FOUND)
-        } else if (httpError.status) {
-          if (httpError.data && httpError.data.error) {
-            throw new MetiganError(httpError.data.message || httpError.data.error, ErrorCode.API_REQUEST_FAILED)
-          } else {
-            throw new MetiganError(`Request failed with status ${httpError.status}`, ErrorCode.API_REQUEST_FAILED)
-          }
+        // Let the rate limiter back off when the server says we are too fast
+        if (error.status === 429) {
+          this.rateLimiter?.penalize(getRetryAfterDelay(error.headers))
         }
-        throw new MetiganError("Failed to connect to the contact service", ErrorCode.NETWORK_ERROR)
-      }
-    } catch (error: unknown) {
-      // Log operation with error
-      await this.logger.log(`/contact/get/error`, statusCode, "GET")
 
-      // Rethrow MetiganErrors directly
-      if (error instanceof MetiganError) {
-        throw error
-      }
+        const fields = {
+          endpoint,
+          method,
+          attempt: attempt + 1,
+          maxAttempts,
+          status: error.status,
+          errorCode: error.code,
+          latency: Date.now() - attemptStartedAt,
+        }
 
-      // Wrap other errors
-      throw new MetiganError("An unexpected error occurred while getting contact", ErrorCode.UNEXPECTED_ERROR)
+        // Report the failure by class: authentication, server (5xx) or network/timeout
+        if (error.status === 401 || error.status === 403) {
+          this.sdkLogger.warn(`Attempt ${attempt + 1}/${maxAttempts}: Authentication error (${error.status})`, fields)
+        } else if (error.status >= 500) {
+          this.sdkLogger.warn(`Attempt ${attempt + 1}/${maxAttempts}: Server error (${error.status})`, fields)
+        } else if (!error.status) {
+          this.sdkLogger.warn(`Attempt ${attempt + 1}/${maxAttempts}: Network error or timeout`, fields)
+        } else {
+          this.sdkLogger.debug(`Attempt ${attempt + 1}/${maxAttempts}: Request failed (${error.status})`, fields)
+        }
+
+        // Ask the retry policy whether (and when) to try again
+        const delay = await planRetry(this.retryPolicy, {
+          attempt: attempt + 1,
+          error,
+          elapsed: Date.now() - startedAt,
+          method,
+          url,
+        })
+
+        if (delay === null) {
+          // Not retryable or out of budget, propagate the error
+          this.sdkLogger.error("Request failed", { ...fields, latency: Date.now() - startedAt })
+          this._recordFailure(operation, error, createResponseMetadata(error.status, error.headers, Date.now() - startedAt, attempt + 1))
+          throw error
+        }
+
+        this.sdkLogger.info(`Retrying request in ${Math.round(delay)}ms`, { ...fields, delay })
+        this.redactor.error(error, operation?.fieldValues)
+        this._emit("retry", { method, url, attempt: attempt + 1, delay, error })
+
+        await sleep(delay, signal, this.locale)
+      }
     }
+
+    // Out of attempts
+    this._recordFailure(operation, lastError, createResponseMetadata(lastError?.status, lastError?.headers, Date.now() - startedAt, maxAttempts))
+    throw lastError
   }
 
   /**
-   * List contacts in an audience
-   * @param options - Contact query options
+   * Creates contacts in the specified audience
+   * @param emails - List of email addresses to create contacts for
+   * @param options - Contact creation options
+   * @param requestOptions - Per-call request options such as an AbortSignal
    * @returns Response from the API
    */
-  async listContacts(options: ContactQueryOptions): Promise<ContactApiResponse> {
-    let statusCode = 500 // Default error status
+  async createContacts(emails: string[], options: ContactCreationOptions, requestOptions: RequestOptions = {}): Promise<ContactApiResponse> {
+    return this._runOperation("createContacts", { "metigan.contact_count": Array.isArray(emails) ? emails.length : undefined }, requestOptions, async (requestOptions) => {
+      // Start monitoring
+      let statusCode = 500 // Default error status
+      this._addContactFieldValues(requestOptions, options?.contactFields)
 
-    try {
-      // Validate options
-      const validation = this._validateContactQueryOptions(options)
-      if (!validation.isValid) {
-        throw new MetiganError(validation.error || "Invalid contact query options", validation.code)
-      }
+      try {
+        // Validate contact options
+        const validation = this._validateContactOptions(options, emails)
+        if (!validation.isValid) {
+          throw ValidationError.fromIssues(validation.issues)
+        }
 
-      // Build query parameters
-      const queryParams = new URLSearchParams()
-      queryParams.append("audienceId", options.audienceId)
+        // Prepare request data
+        const requestData = {
+          emails: emails.map((email) => this._extractEmailAddress(email)),
+          audienceId: options.audienceId,
+          fields: options.contactFields || {},
+        }
 
-      if (options.page !== undefined) {
-        queryParams.append("page", options.page.toString())
-      }
+        // Prepare headers
+        const headers = this._prepareAuthHeaders()
 
-      if (options.limit !== undefined) {
-        queryParams.append("limit", options.limit.toString())
-      }
+        // Make the API request with retry
+        try {
+          const response = await this._makeRequestWithRetry<ContactApiResponse>(
+            this.baseContactApiUrl,
+            requestData,
+            headers,
+            "POST",
+            { ...requestOptions, priority: requestOptions.priority ?? "low" },
+            responseSchemas.ContactCreateApiResponse,
+          )
+          statusCode = 200 // Success
+
+          // Log successful operation
+          await this._logUsage(`/contacts/create`, statusCode, "POST", requestOptions)
+
+          this._emitContactsCreated(response, requestData.emails, options.audienceId || "")
+          return response
+        } catch (httpError: any) {
+          // Capture error status code
+          if (httpError.status) {
+            statusCode = httpError.status
+          }
+
+          // Log operation with error
+          await this._logUsage(`/contacts/create`, statusCode, "POST", requestOptions, httpError)
 
-      if (options.filters) {
-        for (const [key, value] of Object.entries(options.filters)) {
-          queryParams.append(`filter[${key}]`, String(value))
+          // Handle HTTP errors without exposing implementation details
+          if (httpError.status) {
+            throw this._toResponseError(httpError, "contacts")
+          }
+          if (this._isClientSideError(httpError)) {
+            throw httpError
+          }
+          throw new MetiganError(this._message("contactServiceUnreachable"), ErrorCode.NETWORK_ERROR, { cause: httpError })
+        }
+      } catch (error: unknown) {
+        // Log operation with error
+        await this._logUsage(`/contacts/create/error`, statusCode, "POST", requestOptions, error)
+
+        // Rethrow MetiganErrors directly, wrap other errors
+        const failure =
+          error instanceof MetiganError
+            ? error
+            : new MetiganError(this._message("unexpectedCreateContacts"), ErrorCode.UNEXPECTED_ERROR, { cause: error })
+        this._prepareError(failure, requestOptions)
+        if (!(requestOptions as OperationRequestOptions)[TOLERATED_CODES]?.includes(failure.code)) {
+          this._emit("failed", { operation: "createContacts", error: failure })
         }
+        throw failure
       }
+    })
+  }
+
+  /**
+   * Get a contact by email
+   * @param email - Email address of the contact
+   * @param audienceId - Audience ID from Metigan dashboard
+   * @param requestOptions - Per-call request options such as an AbortSignal
+   * @returns Response from the API
+   */
+  async getContact(email: string, audienceId: string, requestOptions: RequestOptions = {}): Promise<ContactApiResponse> {
+    return this._runOperation("getContact", {}, requestOptions, async (requestOptions) => {
+      let statusCode = 500 // Default error status
 
-      // Prepare URL with query parameters
-      const url = `${this.baseContactApiUrl}?${queryParams.toString()}`
+      try {
+        // Validate email
+        if (!email || !this._validateEmail(email)) {
+          throw new MetiganError(this._message("invalidEmail", { email }), ErrorCode.INVALID_EMAIL_FORMAT)
+        }
 
-      // Prepare headers
-      const headers = this._prepareAuthHeaders()
+        // Validate audienceId
+        if (!audienceId) {
+          throw new AudienceError(this._message("audienceIdRequired"), ErrorCode.INVALID_AUDIENCE_ID)
+        }
+
+        // Prepare URL with query parameters
+        const url = `${this.baseContactApiUrl}/${encodeURIComponent(email)}?audienceId=${encodeURIComponent(audienceId)}`
+
+        // Prepare headers
+        const headers = this._prepareAuthHeaders()
+
+        // Make the API request with retry
+        try {
+          const response = await this._makeRequestWithRetry<ContactApiResponse>(
+            url,
+            null,
+            headers,
+            "GET",
+            requestOptions,
+            responseSchemas.ContactGetApiResponse,
+          )
+          statusCode = 200 // Success
+
+          // Log successful operation
+          await this._logUsage(`/contact/get`, statusCode, "GET", requestOptions)
+
+          return response
+        } catch (httpError: any) {
+          // Capture error status code
+          if (httpError.status) {
+            statusCode = httpError.status
+          }
+
+          // Log operation with error
+          await this._logUsage(`/contact/get`, statusCode, "GET", requestOptions, httpError)
+
+          // Handle HTTP errors without exposing implementation details
+          if (httpError.status) {
+            throw this._toResponseError(httpError, "contacts", { 404: this._message("contactNotFound", { email }) })
+          }
+          if (this._isClientSideError(httpError)) {
+            throw httpError
+          }
+          throw new MetiganError(this._message("contactServiceUnreachable"), ErrorCode.NETWORK_ERROR, { cause: httpError })
+        }
+      } catch (error: unknown) {
+        // Log operation with error
+        await this._logUsage(`/contact/get/error`, statusCode, "GET", requestOptions, error)
+
+        // Rethrow MetiganErrors directly
+        if (error instanceof MetiganError) {
+          throw error
+        }
+
+        // Wrap other errors
+        throw new MetiganError(this._message("unexpectedGetContact"), ErrorCode.UNEXPECTED_ERROR, { cause: error })
+      }
+    })
+  }
+
+  /**
+   * List contacts in an audience
+   * @param options - Contact query options
+   * @param requestOptions - Per-call request options such as an AbortSignal
+   * @returns Response from the API
+   */
+  async listContacts(options: ContactQueryOptions, requestOptions: RequestOptions = {}): Promise<ContactApiResponse> {
+    return this._runOperation("listContacts", {}, requestOptions, async (requestOptions) => {
+      let statusCode = 500 // Default error status
 
-      // Make the API request with retry
       try {
-        const response = await this._makeRequestWithRetry<ContactApiResponse>(url, null, headers, "GET")
-        statusCode = 200 // Success
+        // Validate options
+        const validation = this._validateContactQueryOptions(options)
+        if (!validation.isValid) {
+          throw ValidationError.fromIssues(validation.issues)
+        }
 
-        // Log successful operation
-        await this.logger.log(`/contact/list`, statusCode, "GET")
+        // Build query parameters
+        const queryParams = new URLSearchParams()
+        queryParams.append("audienceId", options.audienceId)
 
-        return response
-      } catch (httpError: any) {
-        // Capture error status code
-        if (httpError.status) {
-          statusCode = httpError.status
+        if (options.page !== undefined) {
+          queryParams.append("page", options.page.toString())
         }
 
-        // Log operation with error
-        await this.logger.log(`/contact/list`, statusCode, "GET")
-
-        // Handle HTTP errors without exposing implementation details
-        if (httpError.status) {
-          if (httpError.data && httpError.data.error) {
-            throw new MetiganError(httpError.data.message || httpError.data.error, ErrorCode.API_REQUEST_FAILED)
-          } else {
-            throw new MetiganError(`Request failed with status ${httpError.status}`, ErrorCode.API_REQUEST_FAILED)
+        if (options.limit !== undefined) {
+          queryParams.append("limit", options.limit.toString())
+        }
+
+        if (options.filters) {
+          for (const [key, value] of Object.entries(options.filters)) {
+            queryParams.append(`filter[${key}]`, String(value))
           }
         }
-        throw new MetiganError("Failed to connect to the contact service", ErrorCode.NETWORK_ERROR)
-      }
-    } catch (error: unknown) {
-      // Log operation with error
-      await this.logger.log(`/contact/list/error`, statusCode, "GET")
 
-      // Rethrow MetiganErrors directly
-      if (error instanceof MetiganError) {
-        throw error
-      }
+        // Prepare URL with query parameters
+        const url = `${this.baseContactApiUrl}?${queryParams.toString()}`
 
-      // Wrap other errors
-      throw new MetiganError("An unexpected error occurred while listing contacts", ErrorCode.UNEXPECTED_ERROR)
-    }
+        // Prepare headers
+        const headers = this._prepareAuthHeaders()
+
+        // Make the API request with retry
+        try {
+          const response = await this._makeRequestWithRetry<ContactApiResponse>(
+            url,
+            null,
+            headers,
+            "GET",
+            requestOptions,
+            responseSchemas.ContactGetApiResponse,
+          )
+          statusCode = 200 // Success
+
+          // Log successful operation
+          await this._logUsage(`/contact/list`, statusCode, "GET", requestOptions)
+
+          return response
+        } catch (httpError: any) {
+          // Capture error status code
+          if (httpError.status) {
+            statusCode = httpError.status
+          }
+
+          // Log operation with error
+          await this._logUsage(`/contact/list`, statusCode, "GET", requestOptions, httpError)
+
+          // Handle HTTP errors without exposing implementation details
+          if (httpError.status) {
+            throw this._toResponseError(httpError, "contacts")
+          }
+          if (this._isClientSideError(httpError)) {
+            throw httpError
+          }
+          throw new MetiganError(this._message("contactServiceUnreachable"), ErrorCode.NETWORK_ERROR, { cause: httpError })
+        }
+      } catch (error: unknown) {
+        // Log operation with error
+        await this._logUsage(`/contact/list/error`, statusCode, "GET", requestOptions, error)
+
+        // Rethrow MetiganErrors directly
+        if (error instanceof MetiganError) {
+          throw error
+        }
+
+        // Wrap other errors
+        throw new MetiganError(this._message("unexpectedListContacts"), ErrorCode.UNEXPECTED_ERROR, { cause: error })
+      }
+    })
   }
 
   /**
    * Update a contact
    * @param email - Email address of the contact to update
    * @param options - Contact update options
+   * @param requestOptions - Per-call request options such as an AbortSignal
    * @returns Response from the API
    */
-  async updateContact(email: string, options: ContactUpdateOptions): Promise<ContactApiResponse> {
-    let statusCode = 500 // Default error status
+  async updateContact(email: string, options: ContactUpdateOptions, requestOptions: RequestOptions = {}): Promise<ContactApiResponse> {
+    return this._runOperation("updateContact", {}, requestOptions, async (requestOptions) => {
+      let statusCode = 500 // Default error status
+      this._addContactFieldValues(requestOptions, options?.fields)
 
-    try {
-      // Validate options
-      const validation = this._validateContactUpdateOptions(email, options)
-      if (!validation.isValid) {
-        throw new MetiganError(validation.error || "Invalid contact update options", validation.code)
-      }
+      try {
+        // Validate options
+        const validation = this._validateContactUpdateOptions(email, options)
+        if (!validation.isValid) {
+          throw ValidationError.fromIssues(validation.issues)
+        }
 
-      // Prepare request data
-      const requestData = {
-        email: this._extractEmailAddress(email),
-        audienceId: options.audienceId,
-        fields: options.fields,
-      }
+        // Prepare request data
+        const requestData = {
+          email: this._extractEmailAddress(email),
+          audienceId: options.audienceId,
+          fields: options.fields,
+        }
 
-      // Prepare headers
-      const headers = this._prepareAuthHeaders()
+        // Prepare headers
+        const headers = this._prepareAuthHeaders()
 
-      // Make the API request with retry
-      try {
-        const response = await this._makeRequestWithRetry<ContactApiResponse>(
-          this.baseContactApiUrl,
-          requestData,
-          headers,
-          "PUT",
-        )
-        statusCode = 200 // Success
+        // Make the API request with retry
+        try {
+          const response = await this._makeRequestWithRetry<ContactApiResponse>(
+            this.baseContactApiUrl,
+            requestData,
+            headers,
+            "PUT",
+            requestOptions,
+            responseSchemas.ContactUpdateApiResponse,
+          )
+          statusCode = 200 // Success
+
+          // Log successful operation
+          await this._logUsage(`/contact/update`, statusCode, "PUT", requestOptions)
+
+          return response
+        } catch (httpError: any) {
+          // Capture error status code
+          if (httpError.status) {
+            statusCode = httpError.status
+          }
 
-        // Log successful operation
-        await this.logger.log(`/contact/update`, statusCode, "PUT")
+          // Log operation with error
+          await this._logUsage(`/contact/update`, statusCode, "PUT", requestOptions, httpError)
 
-        return response
-      } catch (httpError: any) {
-        // Capture error status code
-        if (httpError.status) {
-          statusCode = httpError.status
+          // Handle HTTP errors without exposing implementation details
+          if (httpError.status) {
+            throw this._toResponseError(httpError, "contacts", { 404: this._message("contactNotFound", { email }) })
+          }
+          if (this._isClientSideError(httpError)) {
+            throw httpError
+          }
+          throw new MetiganError(this._message("contactServiceUnreachable"), ErrorCode.NETWORK_ERROR, { cause: httpError })
         }
-
+      } catch (error: unknown) {
         // Log operation with error
-        await this.logger.log(`/contact/update`, statusCode, "PUT")
-
-        // Handle HTTP errors without exposing implementation details
-        if (httpError.status === 404) {
-          throw new MetiganError(`Contact not found: ${email}`, ErrorCode.CONTACT_NOT_FOUND)
-        } else if (httpError.status) {
-          if (httpError.data && httpError.data.error) {
-            throw new MetiganError(httpError.data.message || httpError.data.error, ErrorCode.API_REQUEST_FAILED)
-          } else {
-            throw new MetiganError(`Request failed with status ${httpError.status}`, ErrorCode.API_REQUEST_FAILED)
-          }
+        await this._logUsage(`/contact/update/error`, statusCode, "PUT", requestOptions, error)
+
+        // Rethrow MetiganErrors directly
+        if (error instanceof MetiganError) {
+          throw error
         }
-        throw new MetiganError("Failed to connect to the contact service", ErrorCode.NETWORK_ERROR)
-      }
-    } catch (error: unknown) {
-      // Log operation with error
-      await this.logger.log(`/contact/update/error`, statusCode, "PUT")
 
-      // Rethrow MetiganErrors directly
-      if (error instanceof MetiganError) {
-        throw error
+        // Wrap other errors
+        throw new MetiganError(this._message("unexpectedUpdateContact"), ErrorCode.UNEXPECTED_ERROR, { cause: error })
       }
-
-      // Wrap other errors
-      throw new MetiganError("An unexpected error occurred while updating contact", ErrorCode.UNEXPECTED_ERROR)
-    }
+    })
   }
 
   /**
  * Delete a contact
  * @param contactId - ID of the contact to delete
  * @param audienceId - Audience ID from Metigan dashboard
+ * @param requestOptions - Per-call request options such as an AbortSignal
  * @returns Response from the API
  */
-  async deleteContact(contactId: string, audienceId: string): Promise<ContactApiResponse> {
-    let statusCode = 500 // Default error status
+  async deleteContact(contactId: string, audienceId: string, requestOptions: RequestOptions = {}): Promise<ContactApiResponse> {
+    return this._runOperation("deleteContact", {}, requestOptions, async (requestOptions) => {
+      let statusCode = 500 // Default error status
   
-    try {
-      // Validate email
-      if (!contactId) {
-        throw new MetiganError(`Invalid email format: ${contactId}`, ErrorCode.INVALID_EMAIL_FORMAT)
-      }
+      try {
+        // Validate email
+        if (!contactId) {
+          throw new MetiganError(this._message("invalidEmail", { email: contactId }), ErrorCode.INVALID_EMAIL_FORMAT)
+        }
   
-      // Validate audienceId
-      if (!audienceId) {
-        throw new MetiganError("audienceId is required", ErrorCode.INVALID_AUDIENCE_ID)
-      }
+        // Validate audienceId
+        if (!audienceId) {
+          throw new AudienceError(this._message("audienceIdRequired"), ErrorCode.INVALID_AUDIENCE_ID)
+        }
   
-      // Prepare URL with path parameters to match the route structure
-      const url = `${this.baseContactApiUrl}/${encodeURIComponent(contactId)}/${encodeURIComponent(audienceId)}`
+        // Prepare URL with path parameters to match the route structure
+        const url = `${this.baseContactApiUrl}/${encodeURIComponent(contactId)}/${encodeURIComponent(audienceId)}`
   
-      // Prepare headers
-      const headers = this._prepareAuthHeaders()
+        // Prepare headers
+        const headers = this._prepareAuthHeaders()
   
-      try {
-        // Make the API request with retry
-        const response = await this._makeRequestWithRetry<ContactApiResponse>(url, null, headers, "DELETE")
-        statusCode = 200 // Success
+        try {
+          // Make the API request with retry
+          const response = await this._makeRequestWithRetry<ContactApiResponse>(
+            url,
+            null,
+            headers,
+            "DELETE",
+            requestOptions,
+            responseSchemas.ContactDeleteApiResponse,
+          )
+          statusCode = 200 // Success
   
-        // Log successful operation
-        await this.logger.log(`/contact/delete`, statusCode, "DELETE")
+          // Log successful operation
+          await this._logUsage(`/contact/delete`, statusCode, "DELETE", requestOptions)
   
-        return response
-      } catch (httpError: any) {
-        // Capture error status code
-        statusCode = httpError.status || 500
+          return response
+        } catch (httpError: any) {
+          // Capture error status code
+          statusCode = httpError.status || 500
         
+          // Log operation with error
+          await this._logUsage(`/contact/delete`, statusCode, "DELETE", requestOptions, httpError)
+  
+          // Handle HTTP errors
+          if (httpError.status) {
+            throw this._toResponseError(httpError, "contacts", { 404: this._message("contactNotFound", { email: contactId }) })
+          }
+          if (this._isClientSideError(httpError)) {
+            throw httpError
+          }
+          throw new MetiganError(this._message("contactServiceUnreachable"), ErrorCode.NETWORK_ERROR, { cause: httpError })
+        }
+      } catch (error: unknown) {
         // Log operation with error
-        await this.logger.log(`/contact/delete`, statusCode, "DELETE")
+        await this._logUsage(`/contact/delete/error`, statusCode, "DELETE", requestOptions, error)
   
-        // Handle HTTP errors
-        if (httpError.status === 404) {
-          throw new MetiganError(`Contact not found: ${contactId}`, ErrorCode.CONTACT_NOT_FOUND)
-        } else if (httpError.status) {
-          const errorMessage = httpError.data?.message || httpError.data?.error || `Request failed with status ${httpError.status}`
-          throw new MetiganError(errorMessage, ErrorCode.API_REQUEST_FAILED)
-        }
-        throw new MetiganError("Failed to connect to the contact service", ErrorCode.NETWORK_ERROR)
-      }
-    } catch (error: unknown) {
-      // Log operation with error
-      await this.logger.log(`/contact/delete/error`, statusCode, "DELETE")
+        // Rethrow MetiganErrors directly
+        if (error instanceof MetiganError) {
+          throw error
+        }
   
-      // Rethrow MetiganErrors directly
-      if (error instanceof MetiganError) {
-        throw error
+        // Wrap other errors
+        throw new MetiganError(this._message("unexpectedDeleteContact"), ErrorCode.UNEXPECTED_ERROR, { cause: error })
       }
-  
-      // Wrap other errors
-      throw new MetiganError("An unexpected error occurred while deleting contact", ErrorCode.UNEXPECTED_ERROR)
-    }
+    })
   }
 
   /**
    * Create a new audience
    * @param options - Audience creation options
+   * @param requestOptions - Per-call request options such as an AbortSignal
    * @returns Response from the API
    */
-  async createAudience(options: AudienceCreationOptions): Promise<AudienceApiResponse> {
-    let statusCode = 500 // Default error status
+  async createAudience(options: AudienceCreationOptions, requestOptions: RequestOptions = {}): Promise<AudienceApiResponse> {
+    return this._runOperation("createAudience", {}, requestOptions, async (requestOptions) => {
+      let statusCode = 500 // Default error status
 
-    try {
-      // Validate options
-      const validation = this._validateAudienceCreationOptions(options)
-      if (!validation.isValid) {
-        throw new MetiganError(validation.error || "Invalid audience creation options", validation.code)
-      }
+      try {
+        // Validate options
+        const validation = this._validateAudienceCreationOptions(options)
+        if (!validation.isValid) {
+          throw ValidationError.fromIssues(validation.issues)
+        }
 
-      // Prepare request data
-      const requestData = {
-        name: options.name,
-        description: options.description || "",
-      }
+        // Prepare request data
+        const requestData = {
+          name: options.name,
+          description: options.description || "",
+        }
 
-      // Prepare headers
-      const headers = this._prepareAuthHeaders()
+        // Prepare headers
+        const headers = this._prepareAuthHeaders()
 
-      // Make the API request with retry
-      try {
-        const response = await this._makeRequestWithRetry<AudienceApiResponse>(
-          this.baseAudienceApiUrl,
-          requestData,
-          headers,
-          "POST"
-        )
-        statusCode = 201 // Created
+        // Make the API request with retry
+        try {
+          const response = await this._makeRequestWithRetry<AudienceApiResponse>(
+            this.baseAudienceApiUrl,
+            requestData,
+            headers,
+            "POST",
+            requestOptions,
+            responseSchemas.AudienceCreateApiResponse,
+          )
+          statusCode = 201 // Created
+
+          // Log successful operation
+          await this._logUsage(`/audiences/create`, statusCode, "POST", requestOptions)
+
+          return response
+        } catch (httpError: any) {
+          // Capture error status code
+          if (httpError.status) {
+            statusCode = httpError.status
+          }
 
-        // Log successful operation
-        await this.logger.log(`/audiences/create`, statusCode, "POST")
+          // Log operation with error
+          await this._logUsage(`/audiences/create`, statusCode, "POST", requestOptions, httpError)
 
-        return response
-      } catch (httpError: any) {
-        // Capture error status code
-        if (httpError.status) {
-          statusCode = httpError.status
+          // Handle HTTP errors without exposing implementation details
+          if (httpError.status) {
+            throw this._toResponseError(httpError, "audiences", { 409: this._message("audienceNameTaken") })
+          }
+          if (this._isClientSideError(httpError)) {
+            throw httpError
+          }
+          throw new MetiganError(this._message("audienceServiceUnreachable"), ErrorCode.NETWORK_ERROR, { cause: httpError })
         }
-
+      } catch (error: unknown) {
         // Log operation with error
-        await this.logger.log(`/audiences/create`, statusCode, "POST")
-
-        // Handle HTTP errors without exposing implementation details
-        if (httpError.status === 409) {
-          throw new MetiganError("Audience with this name already exists", ErrorCode.API_REQUEST_FAILED)
-        } else if (httpError.status) {
-          if (httpError.data && httpError.data.error) {
-            throw new MetiganError(httpError.data.message || httpError.data.error, ErrorCode.API_REQUEST_FAILED)
-          } else {
-            throw new MetiganError(`Request failed with status ${httpError.status}`, ErrorCode.API_REQUEST_FAILED)
-          }
+        await this._logUsage(`/audiences/create/error`, statusCode, "POST", requestOptions, error)
+
+        // Rethrow MetiganErrors directly
+        if (error instanceof MetiganError) {
+          throw error
         }
-        throw new MetiganError("Failed to connect to the audience service", ErrorCode.NETWORK_ERROR)
-      }
-    } catch (error: unknown) {
-      // Log operation with error
-      await this.logger.log(`/audiences/create/error`, statusCode, "POST")
 
-      // Rethrow MetiganErrors directly
-      if (error instanceof MetiganError) {
-        throw error
+        // Wrap other errors
+        throw new MetiganError(this._message("unexpectedCreateAudience"), ErrorCode.UNEXPECTED_ERROR, { cause: error })
       }
-
-      // Wrap other errors
-      throw new MetiganError("An unexpected error occurred while creating audience", ErrorCode.UNEXPECTED_ERROR)
-    }
+    })
   }
 
   /**
    * Get all audiences
+   * @param requestOptions - Per-call request options such as an AbortSignal
    * @returns Response from the API
    */
-  async getAudiences(): Promise<AudienceApiResponse> {
-    let statusCode = 500 // Default error status
-
-    try {
-      // Prepare headers
-      const headers = this._prepareAuthHeaders()
+  async getAudiences(requestOptions: RequestOptions = {}): Promise<AudienceApiResponse> {
+    return this._runOperation("getAudiences", {}, requestOptions, async (requestOptions) => {
+      let statusCode = 500 // Default error status
 
-      // Make the API request with retry
       try {
-        const response = await this._makeRequestWithRetry<AudienceApiResponse>(
-          this.baseAudienceApiUrl,
-          null,
-          headers,
-          "GET"
-        )
-        statusCode = 200 // Success
+        // Prepare headers
+        const headers = this._prepareAuthHeaders()
 
-        // Log successful operation
-        await this.logger.log(`/audiences/list`, statusCode, "GET")
+        // Make the API request with retry
+        try {
+          const response = await this._makeRequestWithRetry<AudienceApiResponse>(
+            this.baseAudienceApiUrl,
+            null,
+            headers,
+            "GET",
+            requestOptions,
+            responseSchemas.AudienceGetApiResponse,
+          )
+          statusCode = 200 // Success
+
+          // Log successful operation
+          await this._logUsage(`/audiences/list`, statusCode, "GET", requestOptions)
+
+          return response
+        } catch (httpError: any) {
+          // Capture error status code
+          if (httpError.status) {
+            statusCode = httpError.status
+          }
 
-        return response
-      } catch (httpError: any) {
-        // Capture error status code
-        if (httpError.status) {
-          statusCode = httpError.status
-        }
+          // Log operation with error
+          await this._logUsage(`/audiences/list`, statusCode, "GET", requestOptions, httpError)
 
-        // Log operation with error
-        await this.logger.log(`/audiences/list`, statusCode, "GET")
-
-        // Handle HTTP errors without exposing implementation details
-        if (httpError.status) {
-          if (httpError.data && httpError.data.error) {
-            throw new MetiganError(httpError.data.message || httpError.data.error, ErrorCode.API_REQUEST_FAILED)
-          } else {
-            throw new MetiganError(`Request failed with status ${httpError.status}`, ErrorCode.API_REQUEST_FAILED)
+          // Handle HTTP errors without exposing implementation details
+          if (httpError.status) {
+            throw this._toResponseError(httpError, "audiences")
+          }
+          if (this._isClientSideError(httpError)) {
+            throw httpError
           }
+          throw new MetiganError(this._message("audienceServiceUnreachable"), ErrorCode.NETWORK_ERROR, { cause: httpError })
         }
-        throw new MetiganError("Failed to connect to the audience service", ErrorCode.NETWORK_ERROR)
-      }
-    } catch (error: unknown) {
-      // Log operation with error
-      await this.logger.log(`/audiences/list/error`, statusCode, "GET")
+      } catch (error: unknown) {
+        // Log operation with error
+        await this._logUsage(`/audiences/list/error`, statusCode, "GET", requestOptions, error)
 
-      // Rethrow MetiganErrors directly
-      if (error instanceof MetiganError) {
-        throw error
-      }
+        // Rethrow MetiganErrors directly
+        if (error instanceof MetiganError) {
+          throw error
+        }
 
-      // Wrap other errors
-      throw new MetiganError("An unexpected error occurred while listing audiences", ErrorCode.UNEXPECTED_ERROR)
-    }
+        // Wrap other errors
+        throw new MetiganError(this._message("unexpectedListAudiences"), ErrorCode.UNEXPECTED_ERROR, { cause: error })
+      }
+    })
   }
 
   /**
    * Get an audience by ID
    * @param id - Audience ID
+   * @param requestOptions - Per-call request options such as an AbortSignal
    * @returns Response from the API
    */
-  async getAudience(id: string): Promise<AudienceApiResponse> {
-    let statusCode = 500 // Default error status
+  async getAudience(id: string, requestOptions: RequestOptions = {}): Promise<AudienceApiResponse> {
+    return this._runOperation("getAudience", {}, requestOptions, async (requestOptions) => {
+      let statusCode = 500 // Default error status
 
-    try {
-      // Validate ID
-      if (!id) {
-        throw new MetiganError("Audience ID is required", ErrorCode.MISSING_REQUIRED_FIELD)
-      }
+      try {
+        // Validate ID
+        if (!id) {
+          throw new AudienceError(this._message("audienceIdMissing"), ErrorCode.MISSING_REQUIRED_FIELD)
+        }
 
-      // Prepare URL
-      const url = `${this.baseAudienceApiUrl}/${encodeURIComponent(id)}`
+        // Prepare URL
+        const url = `${this.baseAudienceApiUrl}/${encodeURIComponent(id)}`
 
-      // Prepare headers
-      const headers = this._prepareAuthHeaders()
+        // Prepare headers
+        const headers = this._prepareAuthHeaders()
 
-      // Make the API request with retry
-      try {
-        const response = await this._makeRequestWithRetry<AudienceApiResponse>(
-          url,
-          null,
-          headers,
-          "GET"
-        )
-        statusCode = 200 // Success
+        // Make the API request with retry
+        try {
+          const response = await this._makeRequestWithRetry<AudienceApiResponse>(
+            url,
+            null,
+            headers,
+            "GET",
+            requestOptions,
+            responseSchemas.AudienceGetApiResponse,
+          )
+          statusCode = 200 // Success
+
+          // Log successful operation
+          await this._logUsage(`/audiences/get`, statusCode, "GET", requestOptions)
+
+          return response
+        } catch (httpError: any) {
+          // Capture error status code
+          if (httpError.status) {
+            statusCode = httpError.status
+          }
 
-        // Log successful operation
-        await this.logger.log(`/audiences/get`, statusCode, "GET")
+          // Log operation with error
+          await this._logUsage(`/audiences/get`, statusCode, "GET", requestOptions, httpError)
 
-        return response
-      } catch (httpError: any) {
-        // Capture error status code
-        if (httpError.status) {
-          statusCode = httpError.status
+          // Handle HTTP errors without exposing implementation details
+          if (httpError.status) {
+            throw this._toResponseError(httpError, "audiences", { 404: this._message("audienceNotFound", { id }) })
+          }
+          if (this._isClientSideError(httpError)) {
+            throw httpError
+          }
+          throw new MetiganError(this._message("audienceServiceUnreachable"), ErrorCode.NETWORK_ERROR, { cause: httpError })
         }
-
+      } catch (error: unknown) {
         // Log operation with error
-        await this.logger.log(`/audiences/get`, statusCode, "GET")
-
-        // Handle HTTP errors without exposing implementation details
-        if (httpError.status === 404) {
-          throw new MetiganError(`Audience not found: ${id}`, ErrorCode.API_REQUEST_FAILED)
-        } else if (httpError.status) {
-          if (httpError.data && httpError.data.error) {
-            throw new MetiganError(httpError.data.message || httpError.data.error, ErrorCode.API_REQUEST_FAILED)
-          } else {
-            throw new MetiganError(`Request failed with status ${httpError.status}`, ErrorCode.API_REQUEST_FAILED)
-          }
+        await this._logUsage(`/audiences/get/error`, statusCode, "GET", requestOptions, error)
+
+        // Rethrow MetiganErrors directly
+        if (error instanceof MetiganError) {
+          throw error
         }
-        throw new MetiganError("Failed to connect to the audience service", ErrorCode.NETWORK_ERROR)
-      }
-    } catch (error: unknown) {
-      // Log operation with error
-      await this.logger.log(`/audiences/get/error`, statusCode, "GET")
 
-      // Rethrow MetiganErrors directly
-      if (error instanceof MetiganError) {
-        throw error
+        // Wrap other errors
+        throw new MetiganError(this._message("unexpectedGetAudience"), ErrorCode.UNEXPECTED_ERROR, { cause: error })
       }
-
-      // Wrap other errors
-      throw new MetiganError("An unexpected error occurred while getting audience", ErrorCode.UNEXPECTED_ERROR)
-    }
+    })
   }
 
   /**
    * Update an audience
    * @param id - Audience ID
    * @param options - Audience update options
+   * @param requestOptions - Per-call request options such as an AbortSignal
    * @returns Response from the API
    */
-  async updateAudience(id: string, options: AudienceUpdateOptions): Promise<AudienceApiResponse> {
-    let statusCode = 500 // Default error status
+  async updateAudience(id: string, options: AudienceUpdateOptions, requestOptions: RequestOptions = {}): Promise<AudienceApiResponse> {
+    return this._runOperation("updateAudience", {}, requestOptions, async (requestOptions) => {
+      let statusCode = 500 // Default error status
 
-    try {
-      // Validate options
-      const validation = this._validateAudienceUpdateOptions(id, options)
-      if (!validation.isValid) {
-        throw new MetiganError(validation.error || "Invalid audience update options", validation.code)
-      }
+      try {
+        // Validate options
+        const validation = this._validateAudienceUpdateOptions(id, options)
+        if (!validation.isValid) {
+          throw ValidationError.fromIssues(validation.issues)
+        }
 
-      // Prepare URL
-      const url = `${this.baseAudienceApiUrl}/${encodeURIComponent(id)}`
+        // Prepare URL
+        const url = `${this.baseAudienceApiUrl}/${encodeURIComponent(id)}`
 
-      // Prepare request data
-      const requestData = {
-        name: options.name,
-        description: options.description || "",
-      }
+        // Prepare request data
+        const requestData = {
+          name: options.name,
+          description: options.description || "",
+        }
 
-      // Prepare headers
-      const headers = this._prepareAuthHeaders()
+        // Prepare headers
+        const headers = this._prepareAuthHeaders()
 
-      // Make the API request with retry
-      try {
-        const response = await this._makeRequestWithRetry<AudienceApiResponse>(
-          url,
-          requestData,
-          headers,
-          "PUT"
-        )
-        statusCode = 200 // Success
+        // Make the API request with retry
+        try {
+          const response = await this._makeRequestWithRetry<AudienceApiResponse>(
+            url,
+            requestData,
+            headers,
+            "PUT",
+            requestOptions,
+            responseSchemas.AudienceUpdateApiResponse,
+          )
+          statusCode = 200 // Success
+
+          // Log successful operation
+          await this._logUsage(`/audiences/update`, statusCode, "PUT", requestOptions)
+
+          return response
+        } catch (httpError: any) {
+          // Capture error status code
+          if (httpError.status) {
+            statusCode = httpError.status
+          }
 
-        // Log successful operation
-        await this.logger.log(`/audiences/update`, statusCode, "PUT")
+          // Log operation with error
+          await this._logUsage(`/audiences/update`, statusCode, "PUT", requestOptions, httpError)
 
-        return response
-      } catch (httpError: any) {
-        // Capture error status code
-        if (httpError.status) {
-          statusCode = httpError.status
+          // Handle HTTP errors without exposing implementation details
+          if (httpError.status) {
+            throw this._toResponseError(httpError, "audiences", { 404: this._message("audienceNotFound", { id }) })
+          }
+          if (this._isClientSideError(httpError)) {
+            throw httpError
+          }
+          throw new MetiganError(this._message("audienceServiceUnreachable"), ErrorCode.NETWORK_ERROR, { cause: httpError })
         }
-
+      } catch (error: unknown) {
         // Log operation with error
-        await this.logger.log(`/audiences/update`, statusCode, "PUT")
-
-        // Handle HTTP errors without exposing implementation details
-        if (httpError.status === 404) {
-          throw new MetiganError(`Audience not found: ${id}`, ErrorCode.API_REQUEST_FAILED)
-        } else if (httpError.status) {
-          if (httpError.data && httpError.data.error) {
-            throw new MetiganError(httpError.data.message || httpError.data.error, ErrorCode.API_REQUEST_FAILED)
-          } else {
-            throw new MetiganError(`Request failed with status ${httpError.status}`, ErrorCode.API_REQUEST_FAILED)
-          }
+        await this._logUsage(`/audiences/update/error`, statusCode, "PUT", requestOptions, error)
+
+        // Rethrow MetiganErrors directly
+        if (error instanceof MetiganError) {
+          throw error
         }
-        throw new MetiganError("Failed to connect to the audience service", ErrorCode.NETWORK_ERROR)
-      }
-    } catch (error: unknown) {
-      // Log operation with error
-      await this.logger.log(`/audiences/update/error`, statusCode, "PUT")
 
-      // Rethrow MetiganErrors directly
-      if (error instanceof MetiganError) {
-        throw error
+        // Wrap other errors
+        throw new MetiganError(this._message("unexpectedUpdateAudience"), ErrorCode.UNEXPECTED_ERROR, { cause: error })
       }
-
-      // Wrap other errors
-      throw new MetiganError("An unexpected error occurred while updating audience", ErrorCode.UNEXPECTED_ERROR)
-    }
+    })
   }
 
   /**
    * Delete an audience
    * @param id - Audience ID
+   * @param requestOptions - Per-call request options such as an AbortSignal
    * @returns Response from the API
    */
-  async deleteAudience(id: string): Promise<AudienceApiResponse> {
-    let statusCode = 500 // Default error status
+  async deleteAudience(id: string, requestOptions: RequestOptions = {}): Promise<AudienceApiResponse> {
+    return this._runOperation("deleteAudience", {}, requestOptions, async (requestOptions) => {
+      let statusCode = 500 // Default error status
 
-    try {
-      // Validate ID
-      if (!id) {
-        throw new MetiganError("Audience ID is required", ErrorCode.MISSING_REQUIRED_FIELD)
-      }
+      try {
+        // Validate ID
+        if (!id) {
+          throw new AudienceError(this._message("audienceIdMissing"), ErrorCode.MISSING_REQUIRED_FIELD)
+        }
 
-      // Prepare URL
-      const url = `${this.baseAudienceApiUrl}/${encodeURIComponent(id)}`
+        // Prepare URL
+        const url = `${this.baseAudienceApiUrl}/${encodeURIComponent(id)}`
 
-      // Prepare headers
-      const headers = this._prepareAuthHeaders()
+        // Prepare headers
+        const headers = this._prepareAuthHeaders()
 
-      // Make the API request with retry
-      try {
-        const response = await this._makeRequestWithRetry<AudienceApiResponse>(
-          url,
-          null,
-          headers,
-          "DELETE"
-        )
-        statusCode = 200 // Success
+        // Make the API request with retry
+        try {
+          const response = await this._makeRequestWithRetry<AudienceApiResponse>(
+            url,
+            null,
+            headers,
+            "DELETE",
+            requestOptions,
+            responseSchemas.AudienceDeleteApiResponse,
+          )
+          statusCode = 200 // Success
+
+          // Log successful operation
+          await this._logUsage(`/audiences/delete`, statusCode, "DELETE", requestOptions)
+
+          return response
+        } catch (httpError: any) {
+          // Capture error status code
+          if (httpError.status) {
+            statusCode = httpError.status
+          }
 
-        // Log successful operation
-        await this.logger.log(`/audiences/delete`, statusCode, "DELETE")
+          // Log operation with error
+          await this._logUsage(`/audiences/delete`, statusCode, "DELETE", requestOptions, httpError)
 
-        return response
-      } catch (httpError: any) {
-        // Capture error status code
-        if (httpError.status) {
-          statusCode = httpError.status
+          // Handle HTTP errors without exposing implementation details
+          if (httpError.status) {
+            throw this._toResponseError(httpError, "audiences", { 404: this._message("audienceNotFound", { id }) })
+          }
+          if (this._isClientSideError(httpError)) {
+            throw httpError
+          }
+          throw new MetiganError(this._message("audienceServiceUnreachable"), ErrorCode.NETWORK_ERROR, { cause: httpError })
         }
-
+      } catch (error: unknown) {
         // Log operation with error
-        await this.logger.log(`/audiences/delete`, statusCode, "DELETE")
-
-        // Handle HTTP errors without exposing implementation details
-        if (httpError.status === 404) {
-          throw new MetiganError(`Audience not found: ${id}`, ErrorCode.API_REQUEST_FAILED)
-        } else if (httpError.status) {
-          if (httpError.data && httpError.data.error) {
-            throw new MetiganError(httpError.data.message || httpError.data.error, ErrorCode.API_REQUEST_FAILED)
-          } else {
-            throw new MetiganError(`Request failed with status ${httpError.status}`, ErrorCode.API_REQUEST_FAILED)
-          }
+        await this._logUsage(`/audiences/delete/error`, statusCode, "DELETE", requestOptions, error)
+
+        // Rethrow MetiganErrors directly
+        if (error instanceof MetiganError) {
+          throw error
         }
-        throw new MetiganError("Failed to connect to the audience service", ErrorCode.NETWORK_ERROR)
-      }
-    } catch (error: unknown) {
-      // Log operation with error
-      await this.logger.log(`/audiences/delete/error`, statusCode, "DELETE")
 
-      // Rethrow MetiganErrors directly
-      if (error instanceof MetiganError) {
-        throw error
+        // Wrap other errors
+        throw new MetiganError(this._message("unexpectedDeleteAudience"), ErrorCode.UNEXPECTED_ERROR, { cause: error })
       }
-
-      // Wrap other errors
-      throw new MetiganError("An unexpected error occurred while deleting audience", ErrorCode.UNEXPECTED_ERROR)
-    }
+    })
   }
 
   /**
    * Send an email
    * @param options - Email options
+   * @param requestOptions - Per-call request options such as an AbortSignal
    * @returns Response from the API
    */
-  async sendEmail(options: EmailOptions): Promise<EmailApiResponse> {
-    let statusCode = 500 // Default error status
+  async sendEmail(options: EmailOptions, requestOptions: RequestOptions = {}): Promise<EmailApiResponse> {
+    return this._runOperation("sendEmail", this._getSendAttributes(options), requestOptions, async (requestOptions) => {
+      let statusCode = 500 // Default error status
+      this._addContactFieldValues(requestOptions, options?.contactOptions?.contactFields)
 
-    try {
-      // Validate message data
-      const validation = this._validateMessageData(options)
-      if (!validation.isValid) {
-        throw new MetiganError(validation.error || "Invalid email data", validation.code)
-      }
+      try {
+        // Validate message data
+        const validation = this._validateMessageData(options)
+        if (!validation.isValid) {
+          throw ValidationError.fromIssues(validation.issues)
+        }
 
-      // Process attachments if present
-      let formData: any
-      const headers = this._prepareAuthHeaders()
+        // Process attachments if present
+        let formData: any
+        const headers = this._prepareAuthHeaders()
+
+        // The same idempotency key is sent on every retry so the API never delivers twice
+        const idempotencyKey = requestOptions.idempotencyKey || this.generateIdempotencyKey()
+        headers[IDEMPOTENCY_KEY_HEADER] = idempotencyKey
+
+        if (options.attachments && options.attachments.length > 0) {
+          // Check if we're in a browser environment with proper File API support
+          if (this._isBrowserEnvironment()) {
+            formData = new FormData()
+            formData.append("from", options.from)
+            formData.append("recipients", JSON.stringify(options.recipients))
+            formData.append("subject", options.subject)
+            formData.append("content", options.content)
+
+            // Add contact creation options if provided
+            if (options.contactOptions?.createContact) {
+              formData.append("createContact", "true")
+              formData.append("audienceId", options.contactOptions.audienceId || "")
+
+              if (options.contactOptions.contactFields) {
+                formData.append("contactFields", JSON.stringify(options.contactOptions.contactFields))
+              }
+            }
 
-      if (options.attachments && options.attachments.length > 0) {
-        // Check if we're in a browser environment with proper File API support
-        if (this._isBrowserEnvironment()) {
-          formData = new FormData()
-          formData.append("from", options.from)
-          formData.append("recipients", JSON.stringify(options.recipients))
-          formData.append("subject", options.subject)
-          formData.append("content", options.content)
+            // Append tracking ID if provided
+            if (options.trackingId) {
+              formData.append("trackingId", options.trackingId)
+            }
 
-          // Add contact creation options if provided
-          if (options.contactOptions?.createContact) {
-            formData.append("createContact", "true")
-            formData.append("audienceId", options.contactOptions.audienceId || "")
+            // Append copy recipients and reply-to address if provided
+            if (options.cc && options.cc.length > 0) {
+              formData.append("cc", JSON.stringify(options.cc))
+            }
+            if (options.bcc && options.bcc.length > 0) {
+              formData.append("bcc", JSON.stringify(options.bcc))
+            }
+            if (options.replyTo) {
+              formData.append("replyTo", options.replyTo)
+            }
 
-            if (options.contactOptions.contactFields) {
-              formData.append("contactFields", JSON.stringify(options.contactOptions.contactFields))
+            // Append files directly for browser
+            for (const file of options.attachments) {
+              if (file instanceof File) {
+                formData.append("files", file)
+              } else {
+                throw new AttachmentError(this._message("browserAttachmentRequired"), ErrorCode.INVALID_ATTACHMENT)
+              }
             }
           }
+          // Node.js environment or other non-browser environment
+          else {
+            const processedAttachments = await this._processAttachments(options.attachments)
+
+            formData = {
+              from: options.from,
+              recipients: options.recipients,
+              subject: options.subject,
+              content: options.content,
+              attachments: processedAttachments,
+            }
 
-          // Append tracking ID if provided
-          if (options.trackingId) {
-            formData.append("trackingId", options.trackingId)
-          }
+            // Add contact creation options if provided
+            if (options.contactOptions?.createContact) {
+              formData.createContact = true
+              formData.audienceId = options.contactOptions.audienceId || ""
+
+              if (options.contactOptions.contactFields) {
+                formData.contactFields = options.contactOptions.contactFields
+              }
+            }
+
+            // Add tracking ID if provided
+            if (options.trackingId) {
+              formData.trackingId = options.trackingId
+            }
 
-          // Append files directly for browser
-          for (const file of options.attachments) {
-            if (file instanceof File) {
-              formData.append("files", file)
-            } else {
-              throw new MetiganError("In browser environments, attachments must be File objects", ErrorCode.INVALID_ATTACHMENT)
+            // Add copy recipients and reply-to address if provided
+            if (options.cc && options.cc.length > 0) {
+              formData.cc = options.cc
+            }
+            if (options.bcc && options.bcc.length > 0) {
+              formData.bcc = options.bcc
+            }
+            if (options.replyTo) {
+              formData.replyTo = options.replyTo
             }
           }
         }
-        // Node.js environment or other non-browser environment
+        // No attachments
         else {
-          const processedAttachments = await this._processAttachments(options.attachments)
-
           formData = {
             from: options.from,
             recipients: options.recipients,
             subject: options.subject,
             content: options.content,
-            attachments: processedAttachments,
           }
 
           // Add contact creation options if provided
@@ -1555,321 +2335,348 @@ export class Metigan {
           if (options.trackingId) {
             formData.trackingId = options.trackingId
           }
-        }
-      }
-      // No attachments
-      else {
-        formData = {
-          from: options.from,
-          recipients: options.recipients,
-          subject: options.subject,
-          content: options.content,
-        }
-
-        // Add contact creation options if provided
-        if (options.contactOptions?.createContact) {
-          formData.createContact = true
-          formData.audienceId = options.contactOptions.audienceId || ""
 
-          if (options.contactOptions.contactFields) {
-            formData.contactFields = options.contactOptions.contactFields
+          // Add copy recipients and reply-to address if provided
+          if (options.cc && options.cc.length > 0) {
+            formData.cc = options.cc
+          }
+          if (options.bcc && options.bcc.length > 0) {
+            formData.bcc = options.bcc
+          }
+          if (options.replyTo) {
+            formData.replyTo = options.replyTo
           }
         }
 
-        // Add tracking ID if provided
-        if (options.trackingId) {
-          formData.trackingId = options.trackingId
-        }
-      }
-
-      // Make the API request with retry
-      try {
-        const response = await this._makeRequestWithRetry<EmailApiResponse>(this.baseApiUrl, formData, headers)
-        statusCode = 200 // Success
-
-        // Log successful operation
-        await this.logger.log(`/email/send`, statusCode, "POST")
+        // Make the API request with retry
+        try {
+          const response = await this._makeRequestWithRetry<EmailApiResponse>(
+            this.baseApiUrl,
+            formData,
+            headers,
+            "POST",
+            { ...requestOptions, priority: requestOptions.priority ?? "high" },
+            responseSchemas.EmailApiResponse,
+          )
+          statusCode = 200 // Success
+
+          // Log successful operation
+          await this._logUsage(`/email/send`, statusCode, "POST", requestOptions)
+
+          // If contact creation was requested, check if it was successful
+          if (options.contactOptions?.createContact && response.success && !("contactsCreated" in response)) {
+            this.sdkLogger.warn("Contact creation was requested but not confirmed in the response", {
+              endpoint: this._getEndpointPath(this.baseApiUrl),
+            })
+          }
 
-        // If contact creation was requested, check if it was successful
-        if (options.contactOptions?.createContact && response.success && !("contactsCreated" in response)) {
-          console.warn("Contact creation was requested but not confirmed in the response")
-        }
+          const result = this._attachIdempotencyKey(response, idempotencyKey)
+          this._emitSent("sendEmail", result, options.recipients, idempotencyKey)
+          return result
+        } catch (httpError: any) {
+          // Capture error status code
+          if (httpError.status) {
+            statusCode = httpError.status
+          }
 
-        return response
-      } catch (httpError: any) {
-        // Capture error status code
-        if (httpError.status) {
-          statusCode = httpError.status
-        }
+          // Log operation with error
+          await this._logUsage(`/email/send`, statusCode, "POST", requestOptions, httpError)
 
-        // Log operation with error
-        await this.logger.log(`/email/send`, statusCode, "POST")
-
-        // Handle HTTP errors without exposing implementation details
-        if (httpError.status) {
-          if (httpError.data && httpError.data.error) {
-            throw new MetiganError(httpError.data.message || httpError.data.error, ErrorCode.EMAIL_SEND_FAILED)
-          } else {
-            throw new MetiganError(`Request failed with status ${httpError.status}`, ErrorCode.EMAIL_SEND_FAILED)
+          // Handle HTTP errors without exposing implementation details
+          if (httpError.status) {
+            throw this._toResponseError(httpError, "email")
+          }
+          if (this._isClientSideError(httpError)) {
+            throw httpError
           }
+          throw new MetiganError(this._message("emailServiceUnreachable"), ErrorCode.NETWORK_ERROR, { cause: httpError })
         }
-        throw new MetiganError("Failed to connect to the email service", ErrorCode.NETWORK_ERROR)
-      }
-    } catch (error: unknown) {
-      // Log operation with error
-      await this.logger.log(`/email/send/error`, statusCode, "POST")
-
-      // Rethrow MetiganErrors directly
-      if (error instanceof MetiganError) {
-        throw error
-      }
-
-      // Wrap other errors
-      throw new MetiganError("An unexpected error occurred while sending email", ErrorCode.UNEXPECTED_ERROR)
-    }
+      } catch (error: unknown) {
+        // Log operation with error
+        await this._logUsage(`/email/send/error`, statusCode, "POST", requestOptions, error)
+
+        // Rethrow MetiganErrors directly, wrap other errors
+        const failure =
+          error instanceof MetiganError
+            ? error
+            : new MetiganError(this._message("unexpectedSendEmail"), ErrorCode.UNEXPECTED_ERROR, { cause: error })
+        this._prepareError(failure, requestOptions)
+        this._emit("failed", { operation: "sendEmail", error: failure })
+        throw failure
+      }
+    })
   }
 
   /**
    * Send an email and create contacts in one operation
    * @param options - Email options with contact creation settings
+   * @param requestOptions - Per-call request options such as an AbortSignal
    * @returns Response from the API
    */
-  async sendEmailAndCreateContacts(options: EmailOptions): Promise<EmailApiResponse> {
-    // First, ensure we have the required contact options
-    if (!options.contactOptions) {
-      options.contactOptions = {
-        createContact: true,
-        audienceId: "",
-        contactFields: {},
+  async sendEmailAndCreateContacts(options: EmailOptions, requestOptions: RequestOptions = {}): Promise<EmailApiResponse> {
+    return this._runOperation("sendEmailAndCreateContacts", this._getSendAttributes(options), requestOptions, async (requestOptions) => {
+      // First, ensure we have the required contact options
+      if (!options.contactOptions) {
+        options.contactOptions = {
+          createContact: true,
+          audienceId: "",
+          contactFields: {},
+        }
+      } else {
+        options.contactOptions.createContact = true
       }
-    } else {
-      options.contactOptions.createContact = true
-    }
 
-    // Validate that we have an audienceId
-    if (!options.contactOptions.audienceId) {
-      throw new MetiganError("audienceId is required when creating contacts", ErrorCode.INVALID_AUDIENCE_ID)
-    }
-
-    try {
-      // Extract emails from recipients
-      const emails = options.recipients.map((recipient) => this._extractEmailAddress(recipient))
-
-      // First create the contacts
-      await this.createContacts(emails, {
-        createContact: true,
-        audienceId: options.contactOptions.audienceId,
-        contactFields: options.contactOptions.contactFields || {},
-      })
+      // Validate that we have an audienceId
+      if (!options.contactOptions.audienceId) {
+        throw new AudienceError(this._message("audienceIdRequiredForContacts"), ErrorCode.INVALID_AUDIENCE_ID)
+      }
 
-      // Then send the email
-      return await this.sendEmail(options)
-    } catch (error) {
-      // If contact creation fails, we should still try to send the email
-      if (error instanceof MetiganError && error.message.includes("already exists")) {
-        console.warn("Some contacts already exist, continuing with email send")
-        return await this.sendEmail(options)
+      try {
+        // Extract emails from recipients
+        const emails = options.recipients.map((recipient) => this._extractEmailAddress(recipient))
+
+        // First create the contacts
+        await this.createContacts(emails, {
+          createContact: true,
+          audienceId: options.contactOptions.audienceId,
+          contactFields: options.contactOptions.contactFields || {},
+        }, { ...requestOptions, [TOLERATED_CODES]: [ErrorCode.CONTACT_ALREADY_EXISTS] } as OperationRequestOptions)
+
+        // Then send the email
+        return await this.sendEmail(options, requestOptions)
+      } catch (error) {
+        // If contact creation fails, we should still try to send the email
+        if (error instanceof MetiganError && error.code === ErrorCode.CONTACT_ALREADY_EXISTS) {
+          this.sdkLogger.warn("Some contacts already exist, continuing with email send", {
+            endpoint: this._getEndpointPath(this.baseContactApiUrl),
+            errorCode: error.code,
+          })
+          return await this.sendEmail(options, requestOptions)
+        }
+        throw error
       }
-      throw error
-    }
+    })
   }
 
   /**
    * Send an email using a template
    * @param options - Template options including templateId
+   * @param requestOptions - Per-call request options such as an AbortSignal
    * @returns Response from the API
    */
-  async sendEmailWithTemplate(options: TemplateOptions): Promise<EmailApiResponse> {
-    let statusCode = 500 // Default error status
+  async sendEmailWithTemplate(options: TemplateOptions, requestOptions: RequestOptions = {}): Promise<EmailApiResponse> {
+    return this._runOperation("sendEmailWithTemplate", this._getSendAttributes(options), requestOptions, async (requestOptions) => {
+      let statusCode = 500 // Default error status
+      this._addContactFieldValues(requestOptions, options?.contactOptions?.contactFields)
 
-    try {
-      // Validate required fields
-      if (!options.from) {
-        throw new MetiganError("Sender email (from) is required", ErrorCode.MISSING_REQUIRED_FIELD)
-      }
-
-      if (!options.recipients || !Array.isArray(options.recipients) || options.recipients.length === 0) {
-        throw new MetiganError("Recipients must be a non-empty array", ErrorCode.MISSING_REQUIRED_FIELD)
-      }
-
-      if (!options.subject) {
-        throw new MetiganError("Subject is required", ErrorCode.MISSING_REQUIRED_FIELD)
-      }
-
-      if (!options.templateId) {
-        throw new MetiganError("Template ID is required", ErrorCode.MISSING_REQUIRED_FIELD)
-      }
-
-      // Validate sender email format
-      const fromEmail = this._extractEmailAddress(options.from)
-      if (!fromEmail || !this._validateEmail(fromEmail)) {
-        throw new MetiganError(`Invalid sender email format: ${fromEmail}`, ErrorCode.INVALID_EMAIL_FORMAT)
-      }
-
-      // Validate recipient email formats
-      for (const recipient of options.recipients) {
-        const recipientEmail = this._extractEmailAddress(recipient)
-        if (!recipientEmail || !this._validateEmail(recipientEmail)) {
-          throw new MetiganError(`Invalid recipient email format: ${recipientEmail}`, ErrorCode.INVALID_RECIPIENT)
+      try {
+        // Validate the template email data
+        const validation = this._validateTemplateData(options)
+        if (!validation.isValid) {
+          throw ValidationError.fromIssues(validation.issues)
         }
-      }
 
-      // Process attachments if present
-      let formData: any
-      const headers = this._prepareAuthHeaders()
-
-      // Prepare the request data
-      formData = {
-        from: options.from,
-        recipients: options.recipients,
-        subject: options.subject,
-        useTemplate: "true",
-        templateId: options.templateId,
-      }
+        // Process attachments if present
+        let formData: any
+        const headers = this._prepareAuthHeaders()
 
-      // Add template variables if provided
-      if (options.templateVariables) {
-        formData.templateVariables = JSON.stringify(options.templateVariables)
-      }
+        // The same idempotency key is sent on every retry so the API never delivers twice
+        const idempotencyKey = requestOptions.idempotencyKey || this.generateIdempotencyKey()
+        headers[IDEMPOTENCY_KEY_HEADER] = idempotencyKey
 
-      // Add contact creation options if provided
-      if (options.contactOptions?.createContact) {
-        formData.createContact = true
-        formData.audienceId = options.contactOptions.audienceId || ""
+        // Prepare the request data
+        formData = {
+          from: options.from,
+          recipients: options.recipients,
+          subject: options.subject,
+          useTemplate: "true",
+          templateId: options.templateId,
+        }
 
-        if (options.contactOptions.contactFields) {
-          formData.contactFields = options.contactOptions.contactFields
+        // Add template variables if provided
+        if (options.templateVariables) {
+          formData.templateVariables = JSON.stringify(options.templateVariables)
         }
-      }
 
-      // Add tracking ID if provided
-      if (options.trackingId) {
-        formData.trackingId = options.trackingId
-      }
+        // Add contact creation options if provided
+        if (options.contactOptions?.createContact) {
+          formData.createContact = true
+          formData.audienceId = options.contactOptions.audienceId || ""
 
-      // Process attachments if present
-      if (options.attachments && options.attachments.length > 0) {
-        // Check if we're in a browser environment with proper File API support
-        if (this._isBrowserEnvironment()) {
-          const browserFormData = new FormData()
-
-          // Add all fields to the form data
-          for (const [key, value] of Object.entries(formData)) {
-            if (typeof value === "object" && value !== null) {
-              browserFormData.append(key, JSON.stringify(value))
-            } else {
-              browserFormData.append(key, String(value))
-            }
+          if (options.contactOptions.contactFields) {
+            formData.contactFields = options.contactOptions.contactFields
           }
+        }
 
-          // Append files directly for browser
-          for (const file of options.attachments) {
-            if (file instanceof File) {
-              browserFormData.append("files", file)
-            } else {
-              throw new MetiganError("In browser environments, attachments must be File objects", ErrorCode.INVALID_ATTACHMENT)
-            }
-          }
+        // Add tracking ID if provided
+        if (options.trackingId) {
+          formData.trackingId = options.trackingId
+        }
 
-          formData = browserFormData
+        // Add copy recipients and reply-to address if provided
+        if (options.cc && options.cc.length > 0) {
+          formData.cc = options.cc
         }
-        // Node.js environment or other non-browser environment
-        else {
-          const processedAttachments = await this._processAttachments(options.attachments)
-          formData.attachments = processedAttachments
+        if (options.bcc && options.bcc.length > 0) {
+          formData.bcc = options.bcc
+        }
+        if (options.replyTo) {
+          formData.replyTo = options.replyTo
         }
-      }
 
-      // Make the API request with retry
-      try {
-        const response = await this._makeRequestWithRetry<EmailApiResponse>(this.baseApiUrl, formData, headers)
-        statusCode = 200 // Success
+        // Process attachments if present
+        if (options.attachments && options.attachments.length > 0) {
+          // Check if we're in a browser environment with proper File API support
+          if (this._isBrowserEnvironment()) {
+            const browserFormData = new FormData()
+
+            // Add all fields to the form data
+            for (const [key, value] of Object.entries(formData)) {
+              if (typeof value === "object" && value !== null) {
+                browserFormData.append(key, JSON.stringify(value))
+              } else {
+                browserFormData.append(key, String(value))
+              }
+            }
 
-        // Log successful operation
-        await this.logger.log(`/email/send-template`, statusCode, "POST")
+            // Append files directly for browser
+            for (const file of options.attachments) {
+              if (file instanceof File) {
+                browserFormData.append("files", file)
+              } else {
+                throw new AttachmentError(this._message("browserAttachmentRequired"), ErrorCode.INVALID_ATTACHMENT)
+              }
+            }
 
-        // If contact creation was requested, check if it was successful
-        if (options.contactOptions?.createContact && response.success && !("contactsCreated" in response)) {
-          console.warn("Contact creation was requested but not confirmed in the response")
+            formData = browserFormData
+          }
+          // Node.js environment or other non-browser environment
+          else {
+            const processedAttachments = await this._processAttachments(options.attachments)
+            formData.attachments = processedAttachments
+          }
         }
 
-        return response
-      } catch (httpError: any) {
-        // Capture error status code
-        if (httpError.status) {
-          statusCode = httpError.status
-        }
+        // Make the API request with retry
+        try {
+          const response = await this._makeRequestWithRetry<EmailApiResponse>(
+            this.baseApiUrl,
+            formData,
+            headers,
+            "POST",
+            { ...requestOptions, priority: requestOptions.priority ?? "high" },
+            responseSchemas.EmailApiResponse,
+          )
+          statusCode = 200 // Success
+
+          // Log successful operation
+          await this._logUsage(`/email/send-template`, statusCode, "POST", requestOptions)
+
+          // If contact creation was requested, check if it was successful
+          if (options.contactOptions?.createContact && response.success && !("contactsCreated" in response)) {
+            this.sdkLogger.warn("Contact creation was requested but not confirmed in the response", {
+              endpoint: this._getEndpointPath(this.baseApiUrl),
+            })
+          }
 
-        // Log operation with error
-        await this.logger.log(`/email/send-template`, statusCode, "POST")
-
-        // Handle HTTP errors without exposing implementation details
-        if (httpError.status) {
-          if (httpError.data && httpError.data.error) {
-            throw new MetiganError(httpError.data.message || httpError.data.error, ErrorCode.EMAIL_SEND_FAILED)
-          } else {
-            throw new MetiganError(`Request failed with status ${httpError.status}`, ErrorCode.EMAIL_SEND_FAILED)
+          const result = this._attachIdempotencyKey(response, idempotencyKey)
+          this._emitSent("sendEmailWithTemplate", result, options.recipients, idempotencyKey)
+          return result
+        } catch (httpError: any) {
+          // Capture error status code
+          if (httpError.status) {
+            statusCode = httpError.status
           }
-        }
-        throw new MetiganError("Failed to connect to the email service", ErrorCode.NETWORK_ERROR)
-      }
-    } catch (error: unknown) {
-      // Log operation with error
-      await this.logger.log(`/email/send-template/error`, statusCode, "POST")
 
-      // Rethrow MetiganErrors directly
-      if (error instanceof MetiganError) {
-        throw error
-      }
+          // Log operation with error
+          await this._logUsage(`/email/send-template`, statusCode, "POST", requestOptions, httpError)
 
-      // Wrap other errors
-      throw new MetiganError("An unexpected error occurred while sending email with template", ErrorCode.UNEXPECTED_ERROR)
-    }
+          // Handle HTTP errors without exposing implementation details
+          if (httpError.status) {
+            throw this._toResponseError(httpError, "template")
+          }
+          if (this._isClientSideError(httpError)) {
+            throw httpError
+          }
+          throw new MetiganError(this._message("emailServiceUnreachable"), ErrorCode.NETWORK_ERROR, { cause: httpError })
+        }
+      } catch (error: unknown) {
+        // Log operation with error
+        await this._logUsage(`/email/send-template/error`, statusCode, "POST", requestOptions, error)
+
+        // Rethrow MetiganErrors directly, wrap other errors
+        const failure =
+          error instanceof MetiganError
+            ? error
+            : new MetiganError(this._message("unexpectedSendTemplate"), ErrorCode.UNEXPECTED_ERROR, { cause: error })
+        this._prepareError(failure, requestOptions)
+        this._emit("failed", { operation: "sendEmailWithTemplate", error: failure })
+        throw failure
+      }
+    })
   }
 
   /**
    * Send an email with template and create contacts in one operation
    * @param options - Template options with contact creation settings
+   * @param requestOptions - Per-call request options such as an AbortSignal
    * @returns Response from the API
    */
-  async sendTemplateAndCreateContacts(options: TemplateOptions): Promise<EmailApiResponse> {
-    // First, ensure we have the required contact options
-    if (!options.contactOptions) {
-      options.contactOptions = {
-        createContact: true,
-        audienceId: "",
-        contactFields: {},
+  async sendTemplateAndCreateContacts(options: TemplateOptions, requestOptions: RequestOptions = {}): Promise<EmailApiResponse> {
+    return this._runOperation("sendTemplateAndCreateContacts", this._getSendAttributes(options), requestOptions, async (requestOptions) => {
+      // First, ensure we have the required contact options
+      if (!options.contactOptions) {
+        options.contactOptions = {
+          createContact: true,
+          audienceId: "",
+          contactFields: {},
+        }
+      } else {
+        options.contactOptions.createContact = true
       }
-    } else {
-      options.contactOptions.createContact = true
-    }
-
-    // Validate that we have an audienceId
-    if (!options.contactOptions.audienceId) {
-      throw new MetiganError("audienceId is required when creating contacts", ErrorCode.INVALID_AUDIENCE_ID)
-    }
 
-    try {
-      // Extract emails from recipients
-      const emails = options.recipients.map((recipient) => this._extractEmailAddress(recipient))
-
-      // First create the contacts
-      await this.createContacts(emails, {
-        createContact: true,
-        audienceId: options.contactOptions.audienceId,
-        contactFields: options.contactOptions.contactFields || {},
-      })
+      // Validate that we have an audienceId
+      if (!options.contactOptions.audienceId) {
+        throw new AudienceError(this._message("audienceIdRequiredForContacts"), ErrorCode.INVALID_AUDIENCE_ID)
+      }
 
-      // Then send the email with template
-      return await this.sendEmailWithTemplate(options)
-    } catch (error) {
-      // If contact creation fails, we should still try to send the email
-      if (error instanceof MetiganError && error.message.includes("already exists")) {
-        console.warn("Some contacts already exist, continuing with email send")
-        return await this.sendEmailWithTemplate(options)
+      try {
+        // Extract emails from recipients
+        const emails = options.recipients.map((recipient) => this._extractEmailAddress(recipient))
+
+        // First create the contacts
+        await this.createContacts(emails, {
+          createContact: true,
+          audienceId: options.contactOptions.audienceId,
+          contactFields: options.contactOptions.contactFields || {},
+        }, { ...requestOptions, [TOLERATED_CODES]: [ErrorCode.CONTACT_ALREADY_EXISTS] } as OperationRequestOptions)
+
+        // Then send the email with template
+        return await this.sendEmailWithTemplate(options, requestOptions)
+      } catch (error) {
+        // If contact creation fails, we should still try to send the email
+        if (error instanceof MetiganError && error.code === ErrorCode.CONTACT_ALREADY_EXISTS) {
+          this.sdkLogger.warn("Some contacts already exist, continuing with email send", {
+            endpoint: this._getEndpointPath(this.baseContactApiUrl),
+            errorCode: error.code,
+          })
+          return await this.sendEmailWithTemplate(options, requestOptions)
+        }
+        throw error
       }
-      throw error
-    }
+    })
+  }
+
+  /**
+   * Validate email options without sending
+   * Reports every issue found, as sendEmail or sendEmailWithTemplate would.
+   * @param options - Email options, or template options when templateId is set
+   * @returns Validation result with every issue found
+   */
+  validate(options: EmailOptions | TemplateOptions): ValidationResult {
+    return "templateId" in options
+      ? this._validateTemplateData(options as TemplateOptions)
+      : this._validateMessageData(options as EmailOptions)
   }
 
   /**
@@ -1879,7 +2686,7 @@ export class Metigan {
    */
   createTemplate(htmlContent: string): TemplateFunction {
     if (!htmlContent) {
-      throw new MetiganError("Template content is required", ErrorCode.MISSING_REQUIRED_FIELD)
+      throw new TemplateError(this._message("templateContentRequired"), ErrorCode.MISSING_REQUIRED_FIELD)
     }
 
     return (variables?: TemplateVariables): string => {
@@ -1899,6 +2706,22 @@ export class Metigan {
     }
   }
 
+  /**
+   * Generates a unique idempotency key for email sends
+   * @returns A unique idempotency key string
+   */
+  generateIdempotencyKey(): string {
+    // Not every runtime exposes crypto, nor randomUUID on it
+    const cryptoApi: Partial<Crypto> | undefined = typeof crypto !== "undefined" ? crypto : undefined
+    if (cryptoApi && typeof cryptoApi.randomUUID === "function") {
+      return `mtg-idem-${cryptoApi.randomUUID()}`
+    }
+
+    // Fallback for runtimes without crypto.randomUUID
+    const random = Math.random().toString(36).slice(2, 12)
+    return `mtg-idem-${Date.now()}-${random}`
+  }
+
   /**
    * Generates a unique tracking ID for email analytics
    * @returns A unique tracking ID string
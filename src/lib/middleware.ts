@@ -0,0 +1,155 @@
+/**
+ * Request/response middleware pipeline for the Metigan client
+ *
+ * Ordering: onRequest hooks run in registration order; onResponse and onError
+ * hooks run in reverse registration order, so the first middleware registered
+ * wraps all the others. The pipeline runs once per HTTP attempt, retries included.
+ * Every attempt gets its own copy of the request body, so hooks may mutate it freely.
+ * Exceptions thrown by onRequest and onResponse hooks are tagged (see isMiddlewareError)
+ * and are never retried.
+ */
+
+import type { Transport, TransportRequest, TransportResponse } from "../utils/http"
+
+/**
+ * Per-attempt context shared by the hooks of one request attempt
+ */
+export interface MiddlewareContext {
+  /** Attempt number (starts at 1) */
+  attempt: number
+  /** Free-form storage for middleware, e.g. a start timestamp */
+  metadata: Record<string, any>
+}
+
+/**
+ * Middleware hooks
+ * Each hook may be async. onRequest and onResponse may return a replacement
+ * request/response; returning nothing keeps (and may have mutated) the original.
+ * onError hooks observe failures and may throw to replace the error.
+ */
+export interface Middleware {
+  /** Optional name, useful for debugging */
+  name?: string
+  onRequest?: (
+    request: TransportRequest,
+    context: MiddlewareContext,
+  ) => void | TransportRequest | Promise<void | TransportRequest>
+  onResponse?: (
+    response: TransportResponse,
+    request: TransportRequest,
+    context: MiddlewareContext,
+  ) => void | TransportResponse | Promise<void | TransportResponse>
+  onError?: (error: any, request: TransportRequest, context: MiddlewareContext) => void | Promise<void>
+}
+
+/** Errors thrown by onRequest/onResponse hooks */
+const middlewareErrors = new WeakSet<object>()
+
+/**
+ * Tells whether an error was thrown by a middleware hook rather than by the transport
+ * @param error - Error to inspect
+ */
+export function isMiddlewareError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && middlewareErrors.has(error)
+}
+
+/**
+ * Deep-copies JSON-like request bodies (plain objects and arrays)
+ * Other values, such as FormData or strings, are passed through unchanged.
+ * @param value - Body to copy
+ */
+function cloneBody(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(cloneBody)
+  }
+  if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    const copy: Record<string, unknown> = {}
+    for (const [key, entry] of Object.entries(value)) {
+      copy[key] = cloneBody(entry)
+    }
+    return copy
+  }
+  return value
+}
+
+/**
+ * Runs a hook, tagging whatever it throws as a middleware error
+ * @param hook - Hook invocation
+ */
+async function runHook<T>(hook: () => T | Promise<T>): Promise<T> {
+  try {
+    return await hook()
+  } catch (error: unknown) {
+    const failure = typeof error === "object" && error !== null ? error : new Error(String(error))
+    middlewareErrors.add(failure)
+    throw failure
+  }
+}
+
+/**
+ * Ordered list of middleware wrapped around a transport call
+ */
+export class MiddlewarePipeline {
+  private middleware: Middleware[] = []
+
+  /**
+   * Number of registered middleware
+   */
+  get size(): number {
+    return this.middleware.length
+  }
+
+  /**
+   * Registers a middleware at the end of the pipeline
+   * @param middleware - Middleware to register
+   */
+  use(middleware: Middleware): void {
+    this.middleware.push(middleware)
+  }
+
+  /**
+   * Runs a request attempt through the pipeline
+   * @param request - Request to send
+   * @param attempt - Attempt number (starts at 1)
+   * @param transport - Transport that performs the request
+   * @returns Response after every onResponse hook ran
+   */
+  async execute<T>(request: TransportRequest, attempt: number, transport: Transport): Promise<TransportResponse<T>> {
+    const context: MiddlewareContext = { attempt, metadata: {} }
+    let current: TransportRequest = { ...request, headers: { ...request.headers }, data: cloneBody(request.data) }
+
+    try {
+      for (const middleware of this.middleware) {
+        if (middleware.onRequest) {
+          const onRequest = middleware.onRequest
+          current = (await runHook(() => onRequest(current, context))) || current
+        }
+      }
+
+      let response = await transport.request<T>(current)
+
+      for (const middleware of [...this.middleware].reverse()) {
+        if (middleware.onResponse) {
+          const onResponse = middleware.onResponse
+          response = ((await runHook(() => onResponse(response, current, context))) as TransportResponse<T>) || response
+        }
+      }
+
+      return response
+    } catch (error: unknown) {
+      let failure = error
+
+      for (const middleware of [...this.middleware].reverse()) {
+        if (middleware.onError) {
+          try {
+            await middleware.onError(failure, current, context)
+          } catch (replacement: unknown) {
+            failure = replacement
+          }
+        }
+      }
+
+      throw failure
+    }
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Client-side rate limiter for Metigan API calls
+ * Token bucket with a concurrency cap and a priority queue
+ */
+
+import { createAbortError } from "../utils/abort"
+
+/**
+ * Queue priority of a request
+ * Transactional sends default to "high", bulk contact work to "low"
+ */
+export type RequestPriority = "high" | "normal" | "low"
+
+/**
+ * Rate limiter options
+ */
+export interface RateLimiterOptions {
+  /** Sustained requests per second (default: 10) */
+  requestsPerSecond?: number
+  /** Bucket capacity, i.e. how many requests may burst at once (default: requestsPerSecond) */
+  burst?: number
+  /** Maximum number of requests in flight (default: unlimited) */
+  maxConcurrency?: number
+  /** Slow down and pause when the server returns 429 (default: true) */
+  adaptive?: boolean
+}
+
+interface QueuedTask {
+  run: () => Promise<any>
+  priority: RequestPriority
+  sequence: number
+  resolve: (value: any) => void
+  reject: (reason: any) => void
+  signal?: AbortSignal
+  onAbort?: () => void
+}
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 }
+const DEFAULT_PENALTY = 1000 // Pause after a 429 without Retry-After (ms)
+const MIN_RATE_FACTOR = 0.1 // Never slow below 10% of the configured rate
+const RECOVERY_FACTOR = 1.1 // Rate growth per successful request after a slowdown
+
+/**
+ * Token bucket rate limiter with priority queueing
+ */
+export class RateLimiter {
+  private readonly rate: number
+  private readonly capacity: number
+  private readonly maxConcurrency: number
+  private readonly adaptive: boolean
+  private currentRate: number
+  private tokens: number
+  private lastRefill: number
+  private pausedUntil = 0
+  private active = 0
+  private sequence = 0
+  private queue: QueuedTask[] = []
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.rate = options.requestsPerSecond && options.requestsPerSecond > 0 ? options.requestsPerSecond : 10
+    this.capacity = Math.max(1, options.burst ?? this.rate)
+    this.maxConcurrency = options.maxConcurrency && options.maxConcurrency > 0 ? options.maxConcurrency : Infinity
+    this.adaptive = options.adaptive !== false
+    this.currentRate = this.rate
+    this.tokens = this.capacity
+    this.lastRefill = Date.now()
+  }
+
+  /**
+   * Number of requests waiting in the queue
+   */
+  get pending(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Number of requests currently in flight
+   */
+  get inFlight(): number {
+    return this.active
+  }
+
+  /**
+   * Runs a task once a token and a concurrency slot are available
+   * @param task - Task to run
+   * @param priority - Queue priority
+   * @param signal - Optional signal that removes the task from the queue
+   * @returns Result of the task
+   */
+  schedule<T>(task: () => Promise<T>, priority: RequestPriority = "normal", signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError())
+        return
+      }
+
+      const entry: QueuedTask = { run: task, priority, sequence: this.sequence++, resolve, reject, signal }
+
+      if (signal) {
+        entry.onAbort = () => {
+          const index = this.queue.indexOf(entry)
+          if (index !== -1) {
+            this.queue.splice(index, 1)
+            reject(createAbortError())
+          }
+        }
+        signal.addEventListener("abort", entry.onAbort, { once: true })
+      }
+
+      // Keep the queue ordered by priority, then arrival
+      const index = this.queue.findIndex(
+        (queued) => PRIORITY_ORDER[queued.priority] > PRIORITY_ORDER[priority],
+      )
+      if (index === -1) {
+        this.queue.push(entry)
+      } else {
+        this.queue.splice(index, 0, entry)
+      }
+
+      this.drain()
+    })
+  }
+
+  /**
+   * Reports a 429 response: pauses dispatching and lowers the rate
+   * @param retryAfter - Server-requested delay (ms), if any
+   */
+  penalize(retryAfter?: number): void {
+    if (!this.adaptive) return
+
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + (retryAfter ?? DEFAULT_PENALTY))
+    this.currentRate = Math.max(this.rate * MIN_RATE_FACTOR, this.currentRate / 2)
+    this.tokens = 0
+  }
+
+  /**
+   * Reports a successful response: recovers the rate after a slowdown
+   */
+  reward(): void {
+    if (!this.adaptive || this.currentRate >= this.rate) return
+
+    this.currentRate = Math.min(this.rate, this.currentRate * RECOVERY_FACTOR)
+  }
+
+  /**
+   * Refills the bucket based on the elapsed time
+   */
+  private refill(): void {
+    const now = Date.now()
+    const elapsed = (now - this.lastRefill) / 1000
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.currentRate)
+    this.lastRefill = now
+  }
+
+  /**
+   * Starts as many queued tasks as tokens and concurrency allow
+   */
+  private drain(): void {
+    while (this.queue.length > 0 && this.active < this.maxConcurrency) {
+      const now = Date.now()
+      if (now < this.pausedUntil) {
+        this.wake(this.pausedUntil - now)
+        return
+      }
+
+      this.refill()
+      if (this.tokens < 1) {
+        this.wake(((1 - this.tokens) / this.currentRate) * 1000)
+        return
+      }
+
+      this.tokens -= 1
+      const entry = this.queue.shift() as QueuedTask
+      if (entry.signal && entry.onAbort) {
+        entry.signal.removeEventListener("abort", entry.onAbort)
+      }
+
+      this.active++
+      Promise.resolve()
+        .then(entry.run)
+        .then(entry.resolve, entry.reject)
+        .finally(() => {
+          this.active--
+          this.drain()
+        })
+    }
+  }
+
+  /**
+   * Schedules the next drain
+   * @param delay - Delay in milliseconds
+   */
+  private wake(delay: number): void {
+    if (this.timer) return
+
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.drain()
+    }, Math.max(1, Math.ceil(delay)))
+    // Never keep the process alive just for queued calls
+    if (typeof this.timer.unref === "function") {
+      this.timer.unref()
+    }
+  }
+}
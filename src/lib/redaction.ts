@@ -0,0 +1,260 @@
+/**
+ * PII redaction for everything the client reports about a call
+ * Email addresses and contact field values are masked, hashed or dropped in
+ * error messages, structured logs, events, spans and usage logs. The original
+ * error message stays available through MetiganError.getUnredactedMessage().
+ */
+
+import { MetiganError, redactErrorMessage } from "./errors"
+import type { LogFields, Logger } from "./logger"
+
+/**
+ * How a sensitive value is redacted
+ * - "off": kept as is
+ * - "mask": first character kept, e.g. j***@example.com
+ * - "hash": replaced by a stable hash, so the same value can still be correlated
+ * - "drop": replaced by [redacted]
+ */
+export type RedactionMode = "off" | "mask" | "hash" | "drop"
+
+/**
+ * Redaction policy per kind of value
+ */
+export interface RedactionOptions {
+  /** Email addresses (default: "off") */
+  emails?: RedactionMode
+  /** Contact field values (default: same as emails) */
+  contactFields?: RedactionMode
+}
+
+// Matches plain and URL-encoded (%40) email addresses
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+(?:@|%40)[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g
+
+const DROPPED = "[redacted]"
+
+// Shorter contact field values are too likely to appear in unrelated text
+const MIN_FIELD_VALUE_LENGTH = 3
+
+/**
+ * Escapes a string for use in a regular expression
+ * @param value - String to escape
+ * @returns Escaped string
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Stable 53-bit string hash (cyrb53)
+ * Not cryptographic: meant for correlating redacted values, not for secrecy.
+ * @param value - String to hash
+ * @returns Hex digest
+ */
+function hash(value: string): string {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, "0")
+}
+
+/**
+ * Applies a redaction policy to strings, errors, loggers and payloads
+ */
+export class Redactor {
+  private readonly emails: RedactionMode
+  private readonly contactFields: RedactionMode
+  // Contact field values of the operations in flight, with their reference counts
+  private readonly activeFieldValues = new Map<string, number>()
+
+  /**
+   * @param options - A mode for every kind of value, or a mode per kind
+   */
+  constructor(options: RedactionMode | RedactionOptions = "off") {
+    const policy = typeof options === "string" ? { emails: options } : options
+    this.emails = policy.emails || "off"
+    this.contactFields = policy.contactFields || this.emails
+  }
+
+  /**
+   * Whether any value is redacted
+   */
+  get enabled(): boolean {
+    return this.emails !== "off" || this.contactFields !== "off"
+  }
+
+  /**
+   * Registers contact field values of an operation in flight
+   * Until they are released, every text, payload, log and error is redacted with them.
+   * @param values - Contact field values
+   */
+  addFieldValues(values: string[]): void {
+    if (this.contactFields === "off") return
+    for (const value of values) {
+      this.activeFieldValues.set(value, (this.activeFieldValues.get(value) || 0) + 1)
+    }
+  }
+
+  /**
+   * Releases contact field values registered with addFieldValues
+   * @param values - Contact field values
+   */
+  releaseFieldValues(values: string[]): void {
+    for (const value of values) {
+      const count = this.activeFieldValues.get(value)
+      if (count === undefined) continue
+      if (count > 1) {
+        this.activeFieldValues.set(value, count - 1)
+      } else {
+        this.activeFieldValues.delete(value)
+      }
+    }
+  }
+
+  /**
+   * Redacts an email address
+   * @param email - Email address (plain or URL-encoded)
+   * @returns Redacted address
+   */
+  email(email: string): string {
+    switch (this.emails) {
+      case "off":
+        return email
+      case "drop":
+        return DROPPED
+      case "hash":
+        return `email#${hash(email.replace(/%40/i, "@").toLowerCase())}`
+      case "mask": {
+        const separator = email.includes("@") ? "@" : "%40"
+        const [local, domain] = email.split(separator)
+        return `${local.charAt(0)}***${separator}${domain}`
+      }
+    }
+  }
+
+  /**
+   * Redacts a contact field value
+   * @param value - Field value
+   * @returns Redacted value
+   */
+  fieldValue(value: string): string {
+    switch (this.contactFields) {
+      case "off":
+        return value
+      case "drop":
+        return DROPPED
+      case "hash":
+        return `value#${hash(value)}`
+      case "mask":
+        return `${value.charAt(0)}***`
+    }
+  }
+
+  /**
+   * Redacts the email addresses and the given contact field values in a text
+   * Field values of the operations in flight are redacted too. Field values are
+   * only redacted where they appear whole, and only from 3 characters.
+   * @param text - Text to redact
+   * @param fieldValues - Contact field values known to appear in the text
+   * @returns Redacted text
+   */
+  text(text: string, fieldValues: string[] = []): string {
+    if (!this.enabled || !text) return text
+
+    let redacted = text
+    if (this.contactFields !== "off") {
+      // Longest first, so a value containing another is redacted whole
+      const values = [...fieldValues, ...this.activeFieldValues.keys()]
+        .filter((value) => value.trim().length >= MIN_FIELD_VALUE_LENGTH)
+        .sort((a, b) => b.length - a.length)
+      if (values.length > 0) {
+        // Whole values only, never part of a longer word or number
+        const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${values.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}_])`, "gu")
+        redacted = redacted.replace(pattern, (value) => this.fieldValue(value))
+      }
+    }
+    if (this.emails !== "off") {
+      redacted = redacted.replace(EMAIL_PATTERN, (email) => this.email(email))
+    }
+    return redacted
+  }
+
+  /**
+   * Returns a copy of a payload with every string redacted
+   * @param value - Payload (plain objects, arrays and primitives)
+   * @param fieldValues - Contact field values known to appear in the payload
+   * @returns Redacted copy
+   */
+  deep<T>(value: T, fieldValues: string[] = []): T {
+    if (!this.enabled) return value
+    if (typeof value === "string") return this.text(value, fieldValues) as unknown as T
+    if (Array.isArray(value)) return value.map((item) => this.deep(item, fieldValues)) as unknown as T
+    if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+      const copy: Record<string, unknown> = {}
+      for (const [key, item] of Object.entries(value)) {
+        copy[key] = this.deep(item, fieldValues)
+      }
+      return copy as T
+    }
+    return value
+  }
+
+  /**
+   * Redacts the message and stack of an error and of its Metigan causes in place
+   * The original message stays available through getUnredactedMessage().
+   * @param error - Error to redact
+   * @param fieldValues - Contact field values known to appear in the message
+   */
+  error(error: unknown, fieldValues: string[] = []): void {
+    if (!this.enabled) return
+    for (let current = error; current instanceof MetiganError; current = current.cause) {
+      redactErrorMessage(current, (text) => this.text(text, fieldValues))
+    }
+  }
+
+  /**
+   * Returns an error safe to hand to a tracing exporter
+   * Metigan errors are redacted in place. Other errors are replaced by a copy of
+   * their name, code, message and stack, leaving out request config and headers.
+   * @param error - Error to report
+   * @param fieldValues - Contact field values known to appear in the message
+   * @returns Error to record
+   */
+  exception(error: unknown, fieldValues: string[] = []): unknown {
+    if (error instanceof MetiganError) {
+      this.error(error, fieldValues)
+      return error
+    }
+    if (error && typeof error === "object") {
+      const { name, code, message, stack } = error as { name?: unknown; code?: unknown; message?: unknown; stack?: unknown }
+      return {
+        name: typeof name === "string" ? name : "Error",
+        code,
+        message: typeof message === "string" ? this.text(message, fieldValues) : undefined,
+        stack: typeof stack === "string" ? this.text(stack, fieldValues) : undefined,
+      }
+    }
+    return typeof error === "string" ? this.text(error, fieldValues) : error
+  }
+
+  /**
+   * Wraps a logger so messages and fields are redacted
+   * Email addresses and the contact field values of the operations in flight are
+   * redacted from the message and, deeply, from every field.
+   * @param logger - Logger to wrap
+   * @returns Redacting logger
+   */
+  logger(logger: Logger): Logger {
+    if (!this.enabled) return logger
+
+    const write = (level: keyof Logger) => (message: string, fields?: LogFields) =>
+      logger[level](this.text(message), fields && this.deep(fields))
+
+    return { debug: write("debug"), info: write("info"), warn: write("warn"), error: write("error") }
+  }
+}
@@ -0,0 +1,427 @@
+/**
+ * Runtime validation of Metigan API responses
+ * Checks server JSON against the response interfaces in types.ts so that a
+ * contract change surfaces as an INVALID_RESPONSE error pointing at the
+ * offending field instead of an undefined property deep in user code.
+ */
+
+import { ResponseValidationError } from "./errors"
+import { formatMessage } from "./messages"
+import type {
+  ApiKeyErrorResponse,
+  AudienceApiResponse,
+  AudienceCreateResponse,
+  AudienceDeleteResponse,
+  AudienceGetResponse,
+  AudienceUpdateResponse,
+  ContactApiResponse,
+  ContactDeleteResponse,
+  ContactGetResponse,
+  ContactSuccessResponse,
+  ContactUpdateResponse,
+  EmailApiResponse,
+  EmailErrorResponse,
+  EmailSuccessResponse,
+  TemplateApiResponse,
+} from "./types"
+
+/**
+ * Validation mode
+ * - strict: declared fields must match and unknown fields are rejected
+ * - lenient: declared fields must match, unknown fields are ignored and optional fields may be null
+ */
+export type ResponseValidationMode = "strict" | "lenient"
+
+/**
+ * First mismatch found in a payload
+ */
+export interface ResponseIssue {
+  /** Path of the offending value, e.g. $.successfulEmails[0].messageId */
+  path: string
+  /** Expected shape */
+  expected: string
+  /** What the payload contained */
+  received: string
+}
+
+/**
+ * Schema for a response payload of type T
+ */
+export interface ResponseSchema<T = unknown> {
+  /** Human-readable description of the expected value */
+  readonly expected: string
+  /** Whether the value may be missing from its parent object */
+  readonly optional?: boolean
+  /**
+   * Checks a value against the schema
+   * @param value - Value to check
+   * @param path - Path of the value in the payload
+   * @param mode - Validation mode
+   * @returns The first issue found, or undefined when the value matches
+   */
+  check(value: unknown, path: string, mode: ResponseValidationMode): ResponseIssue | undefined
+  /** Type carried by the schema (never set at runtime) */
+  readonly __type?: T
+}
+
+/**
+ * Describes a received value for error messages
+ * @param value - Received value
+ * @returns Short description
+ */
+function describe(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+function primitive<T>(type: "string" | "number" | "boolean"): ResponseSchema<T> {
+  return {
+    expected: type,
+    check: (value, path) =>
+      typeof value === type && !(type === "number" && Number.isNaN(value))
+        ? undefined
+        : { path, expected: type, received: describe(value) },
+  }
+}
+
+const string = primitive<string>("string")
+const number = primitive<number>("number")
+const boolean = primitive<boolean>("boolean")
+
+const anyValue: ResponseSchema<any> = {
+  expected: "any",
+  check: () => undefined,
+}
+
+function literal<T extends string | number | boolean>(expected: T): ResponseSchema<T> {
+  return {
+    expected: JSON.stringify(expected),
+    check: (value, path) =>
+      value === expected ? undefined : { path, expected: JSON.stringify(expected), received: JSON.stringify(value) ?? "undefined" },
+  }
+}
+
+function optional<T>(schema: ResponseSchema<T>): ResponseSchema<T | undefined> {
+  return { ...schema, optional: true }
+}
+
+function array<T>(items: ResponseSchema<T>): ResponseSchema<T[]> {
+  return {
+    expected: `${items.expected}[]`,
+    check: (value, path, mode) => {
+      if (!Array.isArray(value)) {
+        return { path, expected: "array", received: describe(value) }
+      }
+      for (let i = 0; i < value.length; i++) {
+        const issue = items.check(value[i], `${path}[${i}]`, mode)
+        if (issue) return issue
+      }
+      return undefined
+    },
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function record<T>(values: ResponseSchema<T>): ResponseSchema<Record<string, T>> {
+  return {
+    expected: "object",
+    check: (value, path, mode) => {
+      if (!isPlainObject(value)) {
+        return { path, expected: "object", received: describe(value) }
+      }
+      for (const key of Object.keys(value)) {
+        const issue = values.check(value[key], `${path}.${key}`, mode)
+        if (issue) return issue
+      }
+      return undefined
+    },
+  }
+}
+
+function object<T>(properties: { [K in Exclude<keyof T, "meta">]-?: ResponseSchema<T[K]> }): ResponseSchema<T> {
+  const entries = Object.entries(properties) as Array<[string, ResponseSchema]>
+
+  return {
+    expected: "object",
+    check: (value, path, mode) => {
+      if (!isPlainObject(value)) {
+        return { path, expected: "object", received: describe(value) }
+      }
+
+      for (const [key, schema] of entries) {
+        const field = value[key]
+        if (field === undefined || (field === null && schema.optional && mode === "lenient")) {
+          if (schema.optional) continue
+          return { path: `${path}.${key}`, expected: schema.expected, received: describe(field) }
+        }
+        const issue = schema.check(field, `${path}.${key}`, mode)
+        if (issue) return issue
+      }
+
+      if (mode === "strict") {
+        const unknownKey = Object.keys(value).find((key) => !(key in properties))
+        if (unknownKey !== undefined) {
+          return { path: `${path}.${unknownKey}`, expected: "no such field", received: describe(value[unknownKey]) }
+        }
+      }
+
+      return undefined
+    },
+  }
+}
+
+/**
+ * Matches the first schema that accepts the value; reports the first schema's issue otherwise
+ */
+function oneOf<T>(...schemas: ResponseSchema[]): ResponseSchema<T> {
+  return {
+    expected: schemas.map((schema) => schema.expected).join(" | "),
+    check: (value, path, mode) => {
+      let firstIssue: ResponseIssue | undefined
+      for (const schema of schemas) {
+        const issue = schema.check(value, path, mode)
+        if (!issue) return undefined
+        firstIssue = firstIssue || issue
+      }
+      return firstIssue
+    },
+  }
+}
+
+/**
+ * Picks the success or error schema from the `success` flag, so issues point at the right variant
+ */
+function bySuccess<T>(success: ResponseSchema, failure: ResponseSchema): ResponseSchema<T> {
+  return {
+    expected: "API response",
+    check: (value, path, mode) => {
+      if (isPlainObject(value) && value.success === false) {
+        return failure.check(value, path, mode)
+      }
+      return success.check(value, path, mode)
+    },
+  }
+}
+
+const fieldValues = record(anyValue)
+
+const emailSuccessResponse = object<EmailSuccessResponse>({
+  success: literal(true),
+  message: string,
+  successfulEmails: array(
+    object<EmailSuccessResponse["successfulEmails"][number]>({
+      success: literal(true),
+      recipient: string,
+      messageId: string,
+      trackingId: string,
+    }),
+  ),
+  failedEmails: array(
+    object<EmailSuccessResponse["failedEmails"][number]>({
+      success: literal(false),
+      recipient: string,
+      error: string,
+    }),
+  ),
+  recipientCount: number,
+  hasAttachments: boolean,
+  attachmentsCount: number,
+  contactsCreated: optional(number),
+  idempotencyKey: optional(string),
+  dryRun: optional(anyValue),
+})
+
+const emailErrorResponse = object<EmailErrorResponse>({
+  success: literal(false),
+  error: string,
+  message: string,
+  code: optional(string),
+})
+
+const apiKeyErrorResponse = object<ApiKeyErrorResponse>({
+  success: literal(false),
+  error: string,
+  code: optional(string),
+})
+
+const errorResponse = oneOf<EmailErrorResponse | ApiKeyErrorResponse>(emailErrorResponse, apiKeyErrorResponse)
+
+const contactSuccessResponse = object<ContactSuccessResponse>({
+  success: literal(true),
+  message: string,
+  contactsCreated: number,
+  contacts: array(
+    object<ContactSuccessResponse["contacts"][number]>({
+      email: string,
+      audienceId: string,
+      success: boolean,
+      error: optional(string),
+    }),
+  ),
+  dryRun: optional(anyValue),
+})
+
+const contactRecord = object<NonNullable<ContactGetResponse["contact"]>>({
+  email: string,
+  audienceId: string,
+  fields: fieldValues,
+  createdAt: string,
+  updatedAt: string,
+})
+
+const contactGetResponse = object<ContactGetResponse>({
+  success: literal(true),
+  message: string,
+  contact: optional(contactRecord),
+  contacts: optional(array(contactRecord)),
+  pagination: optional(
+    object<NonNullable<ContactGetResponse["pagination"]>>({
+      page: number,
+      limit: number,
+      total: number,
+      pages: number,
+    }),
+  ),
+})
+
+const contactUpdateResponse = object<ContactUpdateResponse>({
+  success: literal(true),
+  message: string,
+  contact: object<ContactUpdateResponse["contact"]>({
+    email: string,
+    audienceId: string,
+    updated: boolean,
+    fields: fieldValues,
+    updatedAt: string,
+  }),
+  dryRun: optional(anyValue),
+})
+
+const contactDeleteResponse = object<ContactDeleteResponse>({
+  success: literal(true),
+  message: string,
+  email: string,
+  audienceId: string,
+  deleted: boolean,
+  dryRun: optional(anyValue),
+})
+
+const audienceCreateResponse = object<AudienceCreateResponse>({
+  success: literal(true),
+  message: string,
+  audience: object<AudienceCreateResponse["audience"]>({
+    id: string,
+    name: string,
+    description: optional(string),
+    userId: string,
+    createdAt: string,
+  }),
+  dryRun: optional(anyValue),
+})
+
+const audienceRecord = object<NonNullable<AudienceGetResponse["audience"]>>({
+  id: string,
+  name: string,
+  description: optional(string),
+  userId: string,
+  createdAt: string,
+  updatedAt: string,
+})
+
+const audienceGetResponse = object<AudienceGetResponse>({
+  success: literal(true),
+  message: string,
+  audience: optional(audienceRecord),
+  audiences: optional(array(audienceRecord)),
+})
+
+const audienceUpdateResponse = object<AudienceUpdateResponse>({
+  success: literal(true),
+  message: string,
+  audience: object<AudienceUpdateResponse["audience"]>({
+    id: string,
+    name: string,
+    description: optional(string),
+    userId: string,
+    updatedAt: string,
+  }),
+  dryRun: optional(anyValue),
+})
+
+const audienceDeleteResponse = object<AudienceDeleteResponse>({
+  success: literal(true),
+  message: string,
+  id: string,
+  deleted: boolean,
+  dryRun: optional(anyValue),
+})
+
+const templateApiResponse = object<TemplateApiResponse>({
+  success: boolean,
+  message: string,
+  template: optional(
+    object<NonNullable<TemplateApiResponse["template"]>>({
+      id: string,
+      name: string,
+      content: string,
+      createdAt: string,
+      updatedAt: string,
+    }),
+  ),
+})
+
+/**
+ * Built-in schemas, one per response interface in types.ts
+ */
+export const responseSchemas = {
+  EmailSuccessResponse: emailSuccessResponse,
+  EmailErrorResponse: emailErrorResponse,
+  ApiKeyErrorResponse: apiKeyErrorResponse,
+  ContactSuccessResponse: contactSuccessResponse,
+  ContactGetResponse: contactGetResponse,
+  ContactUpdateResponse: contactUpdateResponse,
+  ContactDeleteResponse: contactDeleteResponse,
+  AudienceCreateResponse: audienceCreateResponse,
+  AudienceGetResponse: audienceGetResponse,
+  AudienceUpdateResponse: audienceUpdateResponse,
+  AudienceDeleteResponse: audienceDeleteResponse,
+  TemplateApiResponse: templateApiResponse,
+  EmailApiResponse: bySuccess<EmailApiResponse>(emailSuccessResponse, errorResponse),
+  ContactCreateApiResponse: bySuccess<ContactApiResponse>(contactSuccessResponse, errorResponse),
+  ContactGetApiResponse: bySuccess<ContactApiResponse>(contactGetResponse, errorResponse),
+  ContactUpdateApiResponse: bySuccess<ContactApiResponse>(contactUpdateResponse, errorResponse),
+  ContactDeleteApiResponse: bySuccess<ContactApiResponse>(contactDeleteResponse, errorResponse),
+  AudienceCreateApiResponse: bySuccess<AudienceApiResponse>(audienceCreateResponse, errorResponse),
+  AudienceGetApiResponse: bySuccess<AudienceApiResponse>(audienceGetResponse, errorResponse),
+  AudienceUpdateApiResponse: bySuccess<AudienceApiResponse>(audienceUpdateResponse, errorResponse),
+  AudienceDeleteApiResponse: bySuccess<AudienceApiResponse>(audienceDeleteResponse, errorResponse),
+}
+
+/**
+ * Validates a response payload
+ * @param value - Parsed response body
+ * @param schema - Schema to check against, e.g. responseSchemas.EmailApiResponse
+ * @param mode - Validation mode (default: strict)
+ * @param locale - Locale of the error message, e.g. "pt" or "pt-BR" (default: "en")
+ * @returns The payload, typed
+ * @throws ResponseValidationError with the offending path when the payload does not match
+ */
+export function validateResponse<T>(
+  value: unknown,
+  schema: ResponseSchema<T>,
+  mode: ResponseValidationMode = "strict",
+  locale?: string,
+): T {
+  const issue = schema.check(value, "$", mode)
+  if (issue) {
+    throw new ResponseValidationError(
+      formatMessage("malformedResponse", { path: issue.path, expected: issue.expected, received: issue.received }, locale),
+      issue.path,
+    )
+  }
+  return value as T
+}
@@ -0,0 +1,206 @@
+/**
+ * Retry policy for Metigan API requests
+ * Decides which failures are retried and how long to wait between attempts
+ */
+
+import { ErrorCode } from "./error-codes"
+import type { HttpMethod } from "../utils/http"
+
+/**
+ * Jitter strategy applied to the exponential backoff
+ * - none: exact exponential delay
+ * - full: random delay between 0 and the exponential delay
+ * - equal: half the exponential delay plus a random share of the other half
+ */
+export type RetryJitter = "none" | "full" | "equal"
+
+/**
+ * Information passed to the retry veto hook
+ */
+export interface RetryContext {
+  /** Number of attempts made so far (starts at 1) */
+  attempt: number
+  /** Error thrown by the last attempt */
+  error: any
+  /** Delay before the next attempt (ms) */
+  delay: number
+  /** Time spent since the first attempt (ms) */
+  elapsed: number
+  /** Request method */
+  method: HttpMethod
+  /** Request URL */
+  url: string
+}
+
+/**
+ * Retry policy options
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first one (defaults to retryCount) */
+  maxAttempts?: number
+  /** Maximum total time spent on one operation, including waits (ms) */
+  maxElapsedTime?: number
+  /** Base delay for the exponential backoff (defaults to retryDelay) */
+  baseDelay?: number
+  /** Upper bound for a single delay (ms, default: 30000); a longer server-requested delay is not waited for */
+  maxDelay?: number
+  /** Jitter strategy (default: "equal") */
+  jitter?: RetryJitter
+  /** HTTP statuses that are retried (default: 408, 429, 500, 502, 503, 504) */
+  retryableStatuses?: number[]
+  /** Error codes that are retried when there is no HTTP status (default: network errors and timeouts) */
+  retryableErrorCodes?: ErrorCode[]
+  /** Honor Retry-After and rate-limit reset headers (default: true) */
+  respectRetryAfter?: boolean
+  /** Hook that can veto a retry by returning false */
+  shouldRetry?: (context: RetryContext) => boolean | Promise<boolean>
+}
+
+/**
+ * Retry policy with every option resolved
+ */
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, "maxElapsedTime" | "shouldRetry">> &
+  Pick<RetryPolicy, "maxElapsedTime" | "shouldRetry">
+
+/**
+ * HTTP statuses of transient failures, retried by default and reported as retryable on errors
+ */
+export const DEFAULT_RETRYABLE_STATUSES: readonly number[] = [408, 429, 500, 502, 503, 504]
+
+const DEFAULT_RETRYABLE_ERROR_CODES = [
+  ErrorCode.NETWORK_ERROR,
+  ErrorCode.TIMEOUT,
+  ErrorCode.SERVICE_UNAVAILABLE,
+  ErrorCode.RATE_LIMIT_EXCEEDED,
+]
+
+/**
+ * Fills in the defaults of a retry policy
+ * @param policy - User supplied policy
+ * @param retryCount - Legacy retryCount option
+ * @param retryDelay - Legacy retryDelay option
+ * @returns Resolved policy
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}, retryCount: number, retryDelay: number): ResolvedRetryPolicy {
+  return {
+    maxAttempts: Math.max(1, policy.maxAttempts ?? retryCount),
+    maxElapsedTime: policy.maxElapsedTime,
+    baseDelay: policy.baseDelay ?? retryDelay,
+    maxDelay: policy.maxDelay ?? 30000,
+    jitter: policy.jitter ?? "equal",
+    retryableStatuses: policy.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES.slice(),
+    retryableErrorCodes: policy.retryableErrorCodes ?? DEFAULT_RETRYABLE_ERROR_CODES,
+    respectRetryAfter: policy.respectRetryAfter ?? true,
+    shouldRetry: policy.shouldRetry,
+  }
+}
+
+/**
+ * Checks whether an error can be retried under the policy
+ * @param error - Error thrown by the transport
+ * @param policy - Resolved policy
+ * @returns True if the error is retryable
+ */
+export function isRetryableError(error: any, policy: ResolvedRetryPolicy): boolean {
+  if (error && typeof error.status === "number") {
+    return policy.retryableStatuses.includes(error.status)
+  }
+
+  // Errors without a status or code are low-level network failures
+  if (!error || error.code === undefined) {
+    return true
+  }
+
+  return policy.retryableErrorCodes.includes(error.code)
+}
+
+/**
+ * Reads the server-requested delay from Retry-After or rate-limit headers
+ * @param headers - Response headers with lower-cased names
+ * @param now - Current time (ms since epoch)
+ * @returns Delay in ms, or undefined if the server did not ask for one
+ */
+export function getRetryAfterDelay(headers: Record<string, string> | undefined, now: number = Date.now()): number | undefined {
+  if (!headers) {
+    return undefined
+  }
+
+  const retryAfter = headers["retry-after"]
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter)
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000)
+    }
+
+    const date = Date.parse(retryAfter)
+    if (!isNaN(date)) {
+      return Math.max(0, date - now)
+    }
+  }
+
+  const reset = headers["ratelimit-reset"] ?? headers["x-ratelimit-reset"]
+  const remaining = headers["ratelimit-remaining"] ?? headers["x-ratelimit-remaining"]
+  if (reset !== undefined && (remaining === undefined || Number(remaining) === 0)) {
+    const value = Number(reset)
+    if (!isNaN(value)) {
+      // Large values are epoch seconds, small ones are seconds from now
+      return Math.max(0, value > 1e9 ? value * 1000 - now : value * 1000)
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Computes the backoff delay for an attempt
+ * @param attempt - Number of attempts made so far (starts at 1)
+ * @param policy - Resolved policy
+ * @returns Delay in ms
+ */
+export function computeBackoff(attempt: number, policy: ResolvedRetryPolicy): number {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt - 1))
+
+  switch (policy.jitter) {
+    case "none":
+      return exponential
+    case "full":
+      return Math.random() * exponential
+    case "equal":
+    default:
+      return exponential * (0.5 + Math.random() * 0.5)
+  }
+}
+
+/**
+ * Decides whether a failed attempt is retried and how long to wait
+ * @param policy - Resolved policy
+ * @param context - Attempt details (delay is computed here)
+ * @returns Delay before the next attempt, or null if the error must be thrown
+ */
+export async function planRetry(
+  policy: ResolvedRetryPolicy,
+  context: Omit<RetryContext, "delay">,
+): Promise<number | null> {
+  if (context.attempt >= policy.maxAttempts || !isRetryableError(context.error, policy)) {
+    return null
+  }
+
+  const serverDelay = policy.respectRetryAfter ? getRetryAfterDelay(context.error?.headers) : undefined
+
+  // Retrying sooner than the server asked would fail again, so give up instead
+  if (serverDelay !== undefined && serverDelay > policy.maxDelay) {
+    return null
+  }
+
+  const delay = serverDelay ?? computeBackoff(context.attempt, policy)
+
+  if (policy.maxElapsedTime !== undefined && context.elapsed + delay > policy.maxElapsedTime) {
+    return null
+  }
+
+  if (policy.shouldRetry && !(await policy.shouldRetry({ ...context, delay }))) {
+    return null
+  }
+
+  return delay
+}
@@ -0,0 +1,83 @@
+/**
+ * Non-throwing variant of the Metigan client
+ * Every API method resolves with a discriminated union instead of throwing,
+ * carrying the same error classes and codes as the throwing API.
+ */
+
+import { ErrorCatalogs, ErrorCode, resolveLocale } from "./error-codes"
+import { MetiganError } from "./errors"
+import type { Metigan } from "./metigan"
+import type { ResponseMetadata } from "./types"
+
+/**
+ * Outcome of a call made through the non-throwing client
+ */
+export type Result<T> =
+  | { ok: true; data: T; meta?: ResponseMetadata }
+  | { ok: false; error: MetiganError }
+
+/**
+ * API methods available on the non-throwing client
+ */
+export const SAFE_METHODS = [
+  "sendEmail",
+  "sendEmailWithTemplate",
+  "sendEmailAndCreateContacts",
+  "sendTemplateAndCreateContacts",
+  "createContacts",
+  "getContact",
+  "listContacts",
+  "updateContact",
+  "deleteContact",
+  "createAudience",
+  "getAudiences",
+  "getAudience",
+  "updateAudience",
+  "deleteAudience",
+] as const
+
+export type SafeMethodName = (typeof SAFE_METHODS)[number]
+
+/**
+ * Non-throwing client: the API methods of Metigan, resolving with a Result
+ */
+export type SafeMetigan = {
+  [K in SafeMethodName]: (...args: Parameters<Metigan[K]>) => Promise<Result<Awaited<ReturnType<Metigan[K]>>>>
+}
+
+/**
+ * Runs a call and converts its outcome into a Result
+ * Errors other than MetiganErrors are wrapped, keeping them as the cause.
+ * @param call - Call to run
+ * @param locale - Locale of the message of wrapped errors (default: "en")
+ * @returns Result of the call
+ */
+export async function toResult<T>(call: () => Promise<T>, locale?: string): Promise<Result<T>> {
+  try {
+    const data = await call()
+    const meta = data && typeof data === "object" && "meta" in data ? (data.meta as ResponseMetadata | undefined) : undefined
+    return meta ? { ok: true, data, meta } : { ok: true, data }
+  } catch (error: unknown) {
+    return {
+      ok: false,
+      error:
+        error instanceof MetiganError
+          ? error
+          : new MetiganError(ErrorCatalogs[resolveLocale(locale)][ErrorCode.UNEXPECTED_ERROR], ErrorCode.UNEXPECTED_ERROR, { cause: error }),
+    }
+  }
+}
+
+/**
+ * Creates the non-throwing variant of a client
+ * @param client - Metigan client the calls are made with
+ * @param locale - Locale of the message of wrapped errors (default: "en")
+ * @returns Non-throwing client
+ */
+export function createSafeClient(client: Metigan, locale?: string): SafeMetigan {
+  const safe = {} as Record<SafeMethodName, (...args: any[]) => Promise<Result<unknown>>>
+  for (const method of SAFE_METHODS) {
+    safe[method] = (...args: any[]) => toResult(() => (client[method] as (...args: any[]) => Promise<unknown>)(...args), locale)
+  }
+  return safe as SafeMetigan
+}
@@ -0,0 +1,179 @@
+/**
+ * OpenTelemetry tracing for the Metigan client
+ * The SDK does not depend on @opentelemetry/api: the interfaces below are the
+ * subset of the API it uses, so a tracer from any OpenTelemetry setup fits.
+ * Each public method opens an operation span and each HTTP attempt a child span.
+ */
+
+/**
+ * Span status codes (same values as @opentelemetry/api SpanStatusCode)
+ */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const
+
+/**
+ * Span kinds used by the SDK (same values as @opentelemetry/api SpanKind)
+ */
+export const SpanKind = {
+  INTERNAL: 0,
+  CLIENT: 2,
+} as const
+
+export type SpanAttributeValue = string | number | boolean
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>
+
+/**
+ * Identifiers of a span
+ */
+export interface SpanContextLike {
+  traceId: string
+  spanId: string
+  traceFlags: number
+}
+
+/**
+ * Span as used by the SDK
+ */
+export interface SpanLike {
+  setAttribute(key: string, value: SpanAttributeValue): unknown
+  setStatus(status: { code: number; message?: string }): unknown
+  recordException(exception: any): unknown
+  end(): void
+  spanContext(): SpanContextLike
+}
+
+/**
+ * Tracer as used by the SDK, e.g. trace.getTracer("metigan")
+ */
+export interface TracerLike {
+  startSpan(name: string, options?: { kind?: number; attributes?: SpanAttributes }, context?: unknown): SpanLike
+}
+
+/**
+ * The `trace` and `context` objects of @opentelemetry/api
+ */
+export interface TracingApiLike {
+  trace: { setSpan(context: unknown, span: SpanLike): unknown }
+  context: { active(): unknown }
+}
+
+/**
+ * Tracing options
+ */
+export interface TracingOptions {
+  /** Tracer that creates the spans */
+  tracer: TracerLike
+  /** @opentelemetry/api, used to nest spans under the caller's active span and attempt spans under operation spans */
+  api?: TracingApiLike
+}
+
+/**
+ * Formats a W3C traceparent header value
+ * @param spanContext - Span identifiers
+ * @returns traceparent header value
+ */
+export function formatTraceparent(spanContext: SpanContextLike): string {
+  const flags = (spanContext.traceFlags & 0xff).toString(16).padStart(2, "0")
+  return `00-${spanContext.traceId}-${spanContext.spanId}-${flags}`
+}
+
+/**
+ * Sets attributes on a span, skipping undefined values
+ * @param span - Span to set them on
+ * @param attributes - Attributes to set
+ */
+function setAttributes(span: SpanLike, attributes: SpanAttributes): void {
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) span.setAttribute(key, value)
+  }
+}
+
+/**
+ * Marks a span as failed
+ * @param span - Span to mark
+ * @param error - Error that ended the span
+ */
+function recordError(span: SpanLike, error: any): void {
+  if (error && error.code !== undefined) {
+    span.setAttribute("metigan.error_code", error.code)
+  }
+  span.recordException(error)
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error?.message })
+}
+
+/**
+ * Span of one public method call and the attempt spans beneath it
+ */
+export class OperationScope {
+  readonly span: SpanLike
+  /** OpenTelemetry context holding the span, when the API was provided */
+  readonly context: unknown
+  private attempts = 0
+  private lastStatus?: number
+
+  constructor(
+    private readonly options: TracingOptions,
+    name: string,
+    attributes: SpanAttributes,
+    parent?: OperationScope,
+  ) {
+    const parentContext = parent ? parent.context : options.api?.context.active()
+    this.span = options.tracer.startSpan(name, { kind: SpanKind.INTERNAL }, parentContext)
+    setAttributes(this.span, attributes)
+    this.context = options.api ? options.api.trace.setSpan(parentContext, this.span) : undefined
+  }
+
+  /**
+   * Opens the span of an HTTP attempt
+   * @param attributes - Attempt attributes such as method and path
+   * @returns Attempt span
+   */
+  startAttempt(attributes: SpanAttributes): SpanLike {
+    this.attempts++
+    const span = this.options.tracer.startSpan(
+      `HTTP ${attributes["http.request.method"] || "request"}`,
+      { kind: SpanKind.CLIENT },
+      this.context,
+    )
+    setAttributes(span, { ...attributes, "metigan.attempt": this.attempts })
+    return span
+  }
+
+  /**
+   * Closes the span of an HTTP attempt
+   * @param span - Attempt span
+   * @param status - HTTP status, when the server responded
+   * @param error - Error that failed the attempt
+   */
+  endAttempt(span: SpanLike, status?: number, error?: any): void {
+    if (status !== undefined) {
+      this.lastStatus = status
+      span.setAttribute("http.response.status_code", status)
+    }
+    if (error) {
+      recordError(span, error)
+    }
+    span.end()
+  }
+
+  /**
+   * Closes the operation span
+   * @param error - Error the operation failed with
+   */
+  end(error?: any): void {
+    setAttributes(this.span, {
+      "metigan.retry_count": Math.max(0, this.attempts - 1),
+      "http.response.status_code": this.lastStatus,
+    })
+    if (error) {
+      recordError(this.span, error)
+    } else {
+      this.span.setStatus({ code: SpanStatusCode.OK })
+    }
+    this.span.end()
+  }
+}
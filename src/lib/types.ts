@@ -3,6 +3,8 @@
  */
 
 import { ErrorCode } from "./error-codes";
+import type { RequestPriority } from "./rate-limiter";
+import type { HttpMethod } from "../utils/http";
 
 /**
  * Interface for email attachment in Node.js environment
@@ -107,6 +109,12 @@ export interface EmailOptions {
   from: string;
   /** List of recipient email addresses */
   recipients: string[];
+  /** Optional carbon copy recipients (or Name <email>) */
+  cc?: string[];
+  /** Optional blind carbon copy recipients (or Name <email>) */
+  bcc?: string[];
+  /** Optional address replies are sent to (or Name <email>) */
+  replyTo?: string;
   /** Email subject */
   subject: string;
   /** Email content (HTML supported) */
@@ -129,19 +137,93 @@ export interface TemplateOptions extends Omit<EmailOptions, "content"> {
   templateVariables?: Record<string, string | number | boolean>;
 }
 
+/**
+ * Per-call request options accepted by every API method
+ */
+export interface RequestOptions {
+  /** Signal that cancels the in-flight request and any pending retry */
+  signal?: AbortSignal;
+  /** Idempotency key for email sends (generated automatically when omitted) */
+  idempotencyKey?: string;
+  /** Queue priority when rate limiting is enabled (sends default to "high", contact creation to "low") */
+  priority?: RequestPriority;
+}
+
+/**
+ * Request that would have been sent, returned in dry-run mode
+ */
+export interface DryRunRequest {
+  method: HttpMethod;
+  url: string;
+  /** Request headers, with x-api-key and Authorization masked */
+  headers: Record<string, string>;
+  /** Request body (JSON object, or FormData in browsers) */
+  data?: any;
+}
+
+/**
+ * Rate-limit state reported by the API
+ */
+export interface RateLimitInfo {
+  /** Requests allowed in the current window */
+  limit?: number;
+  /** Requests left in the current window */
+  remaining?: number;
+  /** Time until the window resets, as sent by the server */
+  reset?: number;
+}
+
+/**
+ * Metadata of the HTTP exchange behind a result or error
+ */
+export interface ResponseMetadata {
+  /** HTTP status of the last attempt (undefined when the server never responded) */
+  status?: number;
+  /** Server request ID, for support tickets */
+  requestId?: string;
+  /** Rate-limit headers of the last response */
+  rateLimit?: RateLimitInfo;
+  /** Total time spent, retries included (ms) */
+  latency: number;
+  /** Number of HTTP attempts made */
+  attempts: number;
+}
+
+/**
+ * Response metadata exposed on every result
+ * The property is non-enumerable, so it is left out of JSON serialization
+ */
+export interface WithResponseMetadata {
+  readonly meta?: ResponseMetadata;
+}
+
+/**
+ * Problem found while validating options
+ */
+export interface ValidationIssue {
+  /** Path of the offending field, e.g. recipients[2] */
+  path: string;
+  code: ErrorCode;
+  message: string;
+}
+
 /**
  * Validation result interface
  */
 export interface ValidationResult {
   isValid: boolean;
+  /** Message of the first issue */
   error?: string;
+  /** Code of the first issue */
   code?: ErrorCode;
+  /** Every issue found, in the order they were checked */
+  issues: ValidationIssue[];
 }
 
 /**
  * API response interface for successful email
  */
-export interface EmailSuccessResponse {
+export interface EmailSuccessResponse extends WithResponseMetadata {
   success: true;
   message: string;
   successfulEmails: {
@@ -159,12 +241,16 @@ export interface EmailSuccessResponse {
   hasAttachments: boolean;
   attachmentsCount: number;
   contactsCreated?: number;
+  /** Idempotency key sent with the request, reused across retries */
+  idempotencyKey?: string;
+  /** Request that would have been sent (dry-run mode only) */
+  dryRun?: DryRunRequest;
 }
 
 /**
  * API response interface for successful contact creation
  */
-export interface ContactSuccessResponse {
+export interface ContactSuccessResponse extends WithResponseMetadata {
   success: true;
   message: string;
   contactsCreated: number;
@@ -174,12 +260,14 @@ export interface ContactSuccessResponse {
     success: boolean;
     error?: string;
   }[];
+  /** Request that would have been sent (dry-run mode only) */
+  dryRun?: DryRunRequest;
 }
 
 /**
  * API response interface for successful contact retrieval
  */
-export interface ContactGetResponse {
+export interface ContactGetResponse extends WithResponseMetadata {
   success: true;
   message: string;
   contact?: {
@@ -207,7 +295,7 @@ export interface ContactGetResponse {
 /**
  * API response interface for successful contact update
  */
-export interface ContactUpdateResponse {
+export interface ContactUpdateResponse extends WithResponseMetadata {
   success: true;
   message: string;
   contact: {
@@ -217,23 +305,27 @@ export interface ContactUpdateResponse {
     fields: Record<string, any>;
     updatedAt: string;
   };
+  /** Request that would have been sent (dry-run mode only) */
+  dryRun?: DryRunRequest;
 }
 
 /**
  * API response interface for successful contact deletion
  */
-export interface ContactDeleteResponse {
+export interface ContactDeleteResponse extends WithResponseMetadata {
   success: true;
   message: string;
   email: string;
   audienceId: string;
   deleted: boolean;
+  /** Request that would have been sent (dry-run mode only) */
+  dryRun?: DryRunRequest;
 }
 
 /**
  * API response interface for successful audience creation
  */
-export interface AudienceCreateResponse {
+export interface AudienceCreateResponse extends WithResponseMetadata {
   success: true;
   message: string;
   audience: {
@@ -243,12 +335,14 @@ export interface AudienceCreateResponse {
     userId: string;
     createdAt: string;
   };
+  /** Request that would have been sent (dry-run mode only) */
+  dryRun?: DryRunRequest;
 }
 
 /**
  * API response interface for successful audience retrieval
  */
-export interface AudienceGetResponse {
+export interface AudienceGetResponse extends WithResponseMetadata {
   success: true;
   message: string;
   audience?: {
@@ -272,7 +366,7 @@ export interface AudienceGetResponse {
 /**
  * API response interface for successful audience update
  */
-export interface AudienceUpdateResponse {
+export interface AudienceUpdateResponse extends WithResponseMetadata {
   success: true;
   message: string;
   audience: {
@@ -282,22 +376,26 @@ export interface AudienceUpdateResponse {
     userId: string;
     updatedAt: string;
   };
+  /** Request that would have been sent (dry-run mode only) */
+  dryRun?: DryRunRequest;
 }
 
 /**
  * API response interface for successful audience deletion
  */
-export interface AudienceDeleteResponse {
+export interface AudienceDeleteResponse extends WithResponseMetadata {
   success: true;
   message: string;
   id: string;
   deleted: boolean;
+  /** Request that would have been sent (dry-run mode only) */
+  dryRun?: DryRunRequest;
 }
 
 /**
  * API error response interfaces
  */
-export interface EmailErrorResponse {
+export interface EmailErrorResponse extends WithResponseMetadata {
   success: false;
   error: string;
   message: string;
@@ -307,7 +405,7 @@ export interface EmailErrorResponse {
 /**
  * API key error response
  */
-export interface ApiKeyErrorResponse {
+export interface ApiKeyErrorResponse extends WithResponseMetadata {
   success: false;
   error: string;
   code?: string;
@@ -316,7 +414,7 @@ export interface ApiKeyErrorResponse {
 /**
  * Template API response interface
  */
-export interface TemplateApiResponse {
+export interface TemplateApiResponse extends WithResponseMetadata {
   success: boolean;
   message: string;
   template?: {
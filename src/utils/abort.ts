@@ -0,0 +1,63 @@
+/**
+ * Cancellation utilities for Metigan
+ */
+
+import { NetworkError } from "../lib/errors"
+import { ErrorCode } from "../lib/error-codes"
+import { formatMessage } from "../lib/messages"
+
+/**
+ * Creates the error surfaced when a caller cancels a request
+ * @param locale - Locale of the message (default: "en")
+ * @returns NetworkError with the REQUEST_ABORTED code
+ */
+export function createAbortError(locale?: string): NetworkError {
+  return new NetworkError(formatMessage("requestAborted", {}, locale), ErrorCode.REQUEST_ABORTED)
+}
+
+/**
+ * Checks whether an error represents a caller cancellation
+ * @param error - Error to check
+ * @returns True if the request was aborted
+ */
+export function isAbortError(error: any): boolean {
+  return !!error && (error.code === ErrorCode.REQUEST_ABORTED || error.code === "ERR_CANCELED" || error.name === "AbortError")
+}
+
+/**
+ * Throws if the signal has already been aborted
+ * @param signal - Optional abort signal
+ * @param locale - Locale of the error message (default: "en")
+ * @throws NetworkError with the REQUEST_ABORTED code
+ */
+export function throwIfAborted(signal?: AbortSignal, locale?: string): void {
+  if (signal?.aborted) {
+    throw createAbortError(locale)
+  }
+}
+
+/**
+ * Waits for the given delay, rejecting early if the signal is aborted
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal
+ * @param locale - Locale of the error message (default: "en")
+ */
+export function sleep(ms: number, signal?: AbortSignal, locale?: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(locale))
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(createAbortError(locale))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
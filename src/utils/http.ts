@@ -1,11 +1,51 @@
 /**
  * HTTP utility for making API requests
- * Abstracts the actual HTTP client implementation
+ * Abstracts the actual HTTP client implementation behind a pluggable transport
  */
 
-import axios, { type AxiosRequestConfig, AxiosError } from "axios";
+import axios, { type AxiosInstance } from "axios";
 import { ApiError, NetworkError } from "../lib/errors";
 import { ErrorCode } from "../lib/error-codes";
+import { createAbortError, isAbortError } from "./abort";
+import { formatMessage } from "../lib/messages";
+
+/**
+ * HTTP methods used by the Metigan API
+ */
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+/**
+ * Request handed to a transport
+ */
+export interface TransportRequest {
+    method: HttpMethod;
+    url: string;
+    data?: any;
+    headers?: Record<string, string>;
+    /** Request timeout in milliseconds */
+    timeout?: number;
+    /** Signal used to cancel the request */
+    signal?: AbortSignal;
+}
+
+/**
+ * Response returned by a transport
+ */
+export interface TransportResponse<T = any> {
+    status: number;
+    data: T;
+    /** Response headers with lower-cased names */
+    headers: Record<string, string>;
+}
+
+/**
+ * Transport used by the Metigan client to talk to the API
+ * Implementations must resolve for 2xx responses and reject with an
+ * ApiError or NetworkError (see processHttpError) otherwise
+ */
+export interface Transport {
+    request<T = any>(request: TransportRequest): Promise<TransportResponse<T>>;
+}
 
 /**
  * HTTP error interface
@@ -14,112 +54,248 @@ export interface HttpError {
     status: number;
     data: any;
     message: string;
+    headers?: Record<string, string>;
+}
+
+/**
+ * Node.js error codes of connections that failed before any response
+ */
+const NETWORK_ERROR_CODES = ["ECONNREFUSED", "ENOTFOUND", "ECONNRESET", "EAI_AGAIN"];
+
+/**
+ * Checks whether a thrown value is an object whose error fields can be read
+ * @param error - Thrown value
+ * @returns True for non-null objects
+ */
+function isErrorLike(error: unknown): error is { code?: unknown; name?: unknown; status?: unknown } {
+    return typeof error === "object" && error !== null;
+}
+
+/**
+ * Checks whether an error is a non-2xx HTTP response
+ * @param error - Error to check
+ * @returns True if the error carries an HTTP status
+ */
+function isHttpError(error: unknown): error is HttpError {
+    return isErrorLike(error) && typeof error.status === "number" && "data" in error;
+}
+
+/**
+ * Checks whether an error was caused by a request timeout
+ * @param error - Error to check
+ * @returns True if the request timed out
+ */
+function isTimeoutError(error: unknown): boolean {
+    return isErrorLike(error) && (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT" || error.name === "TimeoutError");
+}
+
+/**
+ * Checks whether an error is a connection failure without a response
+ * @param error - Error to check
+ * @returns True for fetch TypeErrors and Node.js connection error codes
+ */
+function isConnectionError(error: unknown): boolean {
+    return error instanceof TypeError || (isErrorLike(error) && typeof error.code === "string" && NETWORK_ERROR_CODES.includes(error.code));
 }
 
 /**
  * Process HTTP errors into standardized format
- * @param error - Axios error object
- * @returns Standardized ApiError
+ * Shared by every transport so errors keep the same shape
+ * @param error - Axios error, HttpError or low-level network error
+ * @param locale - Locale of the fallback messages (default: "en")
+ * @returns Standardized ApiError or NetworkError
  */
-function processHttpError(error: unknown): ApiError | NetworkError {
-    if (axios.isAxiosError(error)) {
-        const axiosError = error as AxiosError;
-        
-        // Network errors (no response)
-        if (!axiosError.response) {
-            if (axiosError.code === 'ECONNABORTED') {
-                return new NetworkError(
-                    "Request timed out. Please check your network connection.",
-                    ErrorCode.TIMEOUT
-                );
-            }
+export function processHttpError(error: unknown, locale?: string): ApiError | NetworkError {
+    if (error instanceof ApiError || error instanceof NetworkError) {
+        return error;
+    }
+
+    // Cancelled by the caller
+    if (isAbortError(error)) {
+        return createAbortError(locale);
+    }
+
+    const response: HttpError | undefined = axios.isAxiosError(error)
+        ? (error.response as HttpError | undefined)
+        : isHttpError(error) ? error : undefined;
+
+    // Server responded with error status
+    if (response) {
+        const responseData = response.data;
+        const errorMessage = responseData?.message || responseData?.error || formatMessage("requestErrored", {}, locale);
+
+        const apiError = ApiError.fromStatus(response.status, errorMessage, normalizeHeaders(response.headers), undefined, locale);
+        apiError.data = responseData;
+        return apiError;
+    }
+
+    // Network errors (no response)
+    if (axios.isAxiosError(error) || isConnectionError(error) || isTimeoutError(error)) {
+        if (isTimeoutError(error)) {
             return new NetworkError(
-                "Network error. Please check your internet connection.",
-                ErrorCode.NETWORK_ERROR
+                formatMessage("requestTimedOut", {}, locale),
+                ErrorCode.TIMEOUT
             );
         }
-        
-        // Server responded with error status
-        const status = axiosError.response.status;
-        const responseData = axiosError.response.data as any;
-        const errorMessage = responseData?.message || responseData?.error || "An error occurred during the request";
-        
-        return ApiError.fromStatus(status, errorMessage);
+        return new NetworkError(
+            formatMessage("networkUnavailable", {}, locale),
+            ErrorCode.NETWORK_ERROR
+        );
     }
-    
+
     // Unknown errors
     return new ApiError(
-        "An unexpected error occurred during the request",
+        formatMessage("unexpectedRequestError", {}, locale),
         ErrorCode.UNEXPECTED_ERROR
     );
 }
 
 /**
- * Make a GET request to the specified URL
- * @param url - The URL to make the request to
- * @param headers - The headers to include in the request
- * @returns The response data
- * @throws ApiError if the request fails
+ * Normalizes response headers into a plain object with lower-cased names
+ * @param headers - Raw headers from the HTTP client
+ * @returns Plain header object
  */
-export async function get<T>(url: string, headers?: Record<string, string>): Promise<T> {
-    try {
-        const config: AxiosRequestConfig = { headers };
-        const response = await axios.get(url, config);
-        return response.data;
-    } catch (error: unknown) {
-        throw processHttpError(error);
+function normalizeHeaders(headers: any): Record<string, string> {
+    const result: Record<string, string> = {};
+
+    if (!headers) {
+        return result;
     }
-}
 
-/**
- * Make a POST request to the specified URL
- * @param url - The URL to make the request to
- * @param data - The data to send in the request body
- * @param headers - The headers to include in the request
- * @returns The response data
- * @throws ApiError if the request fails
- */
-export async function post<T>(url: string, data: any, headers?: Record<string, string>): Promise<T> {
-    try {
-        const config: AxiosRequestConfig = { headers };
-        const response = await axios.post(url, data, config);
-        return response.data;
-    } catch (error: unknown) {
-        throw processHttpError(error);
+    if (typeof headers.forEach === "function" && typeof headers.get === "function") {
+        headers.forEach((value: string, key: string) => {
+            result[key.toLowerCase()] = value;
+        });
+        return result;
     }
+
+    for (const [key, value] of Object.entries(headers)) {
+        if (value === undefined || value === null) continue;
+        result[key.toLowerCase()] = Array.isArray(value) ? value.join(", ") : String(value);
+    }
+
+    return result;
 }
 
 /**
- * Make a PUT request to the specified URL
- * @param url - The URL to make the request to
- * @param data - The data to send in the request body
- * @param headers - The headers to include in the request
- * @returns The response data
- * @throws ApiError if the request fails
+ * Create a transport backed by axios
+ * @param instance - Optional axios instance (defaults to the global axios)
+ * @param locale - Locale of the error messages (default: "en")
+ * @returns Transport
  */
-export async function put<T>(url: string, data: any, headers?: Record<string, string>): Promise<T> {
-    try {
-        const config: AxiosRequestConfig = { headers };
-        const response = await axios.put(url, data, config);
-        return response.data;
-    } catch (error: unknown) {
-        throw processHttpError(error);
-    }
+export function createAxiosTransport(instance: AxiosInstance = axios, locale?: string): Transport {
+    return {
+        async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+            try {
+                const response = await instance.request({
+                    method: request.method,
+                    url: request.url,
+                    data: request.data === null ? undefined : request.data,
+                    headers: request.headers,
+                    timeout: request.timeout,
+                    signal: request.signal,
+                });
+
+                return {
+                    status: response.status,
+                    data: response.data,
+                    headers: normalizeHeaders(response.headers),
+                };
+            } catch (error: unknown) {
+                throw processHttpError(error, locale);
+            }
+        },
+    };
 }
 
 /**
- * Make a DELETE request to the specified URL
- * @param url - The URL to make the request to
- * @param headers - The headers to include in the request
- * @returns The response data
- * @throws ApiError if the request fails
+ * Create a transport backed by the Fetch API
+ * Suitable for edge runtimes and other environments without Node.js http
+ * @param fetchImpl - Optional fetch implementation (defaults to the global fetch)
+ * @param locale - Locale of the error messages (default: "en")
+ * @returns Transport
  */
-export async function deleteRequest<T>(url: string, headers?: Record<string, string>): Promise<T> {
-    try {
-        const config: AxiosRequestConfig = { headers };
-        const response = await axios.delete(url, config);
-        return response.data;
-    } catch (error: unknown) {
-        throw processHttpError(error);
-    }
-}
\ No newline at end of file
+export function createFetchTransport(fetchImpl?: typeof fetch, locale?: string): Transport {
+    return {
+        async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+            const doFetch = fetchImpl || (typeof fetch !== "undefined" ? fetch : undefined);
+            if (!doFetch) {
+                throw new NetworkError(formatMessage("fetchUnavailable", {}, locale), ErrorCode.NETWORK_ERROR);
+            }
+
+            const headers: Record<string, string> = { ...request.headers };
+            let body: any;
+
+            if (request.data !== undefined && request.data !== null) {
+                if (typeof FormData !== "undefined" && request.data instanceof FormData) {
+                    // Let fetch set the multipart boundary
+                    for (const key of Object.keys(headers)) {
+                        if (key.toLowerCase() === "content-type") delete headers[key];
+                    }
+                    body = request.data;
+                } else {
+                    body = typeof request.data === "string" ? request.data : JSON.stringify(request.data);
+                }
+            }
+
+            if (request.signal?.aborted) {
+                throw createAbortError(locale);
+            }
+
+            const controller = typeof AbortController !== "undefined" ? new AbortController() : undefined;
+            let timedOut = false;
+            const timer = controller && request.timeout
+                ? setTimeout(() => {
+                    timedOut = true;
+                    controller.abort();
+                }, request.timeout)
+                : undefined;
+
+            // Forward caller cancellation to the in-flight request
+            const onAbort = () => controller?.abort();
+            request.signal?.addEventListener("abort", onAbort, { once: true });
+
+            try {
+                const response = await doFetch(request.url, {
+                    method: request.method,
+                    headers,
+                    body,
+                    signal: controller?.signal,
+                });
+
+                const text = await response.text();
+                let data: any = text;
+                if (text) {
+                    try {
+                        data = JSON.parse(text);
+                    } catch {
+                        // Keep the raw text body
+                    }
+                }
+
+                if (!response.ok) {
+                    throw processHttpError({
+                        status: response.status,
+                        data,
+                        message: response.statusText,
+                        headers: normalizeHeaders(response.headers),
+                    }, locale);
+                }
+
+                return {
+                    status: response.status,
+                    data: data as T,
+                    headers: normalizeHeaders(response.headers),
+                };
+            } catch (error: unknown) {
+                if (timedOut) {
+                    throw processHttpError({ name: "TimeoutError" }, locale);
+                }
+                throw processHttpError(error, locale);
+            } finally {
+                if (timer) clearTimeout(timer);
+                request.signal?.removeEventListener("abort", onAbort);
+            }
+        },
+    };
+}
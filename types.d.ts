@@ -29,6 +29,12 @@ declare module 'metigan' {
       from: string;
       /** List of recipient email addresses */
       recipients: string[];
+      /** Optional carbon copy recipients (or Name <email>) */
+      cc?: string[];
+      /** Optional blind carbon copy recipients (or Name <email>) */
+      bcc?: string[];
+      /** Optional address replies are sent to (or Name <email>) */
+      replyTo?: string;
       /** Email subject */
       subject: string;
       /** Email content (HTML supported) */
@@ -59,6 +65,33 @@ declare module 'metigan' {
       recipientCount: number;
       hasAttachments: boolean;
       attachmentsCount: number;
+      /** Idempotency key sent with the request, reused across retries */
+      idempotencyKey?: string;
+      /** Request that would have been sent (dry-run mode only) */
+      dryRun?: DryRunRequest;
+      /** Metadata of the HTTP exchange (non-enumerable) */
+      readonly meta?: ResponseMetadata;
+    }
+  
+    /**
+     * Metadata of the HTTP exchange behind a result or error
+     */
+    export interface ResponseMetadata {
+      status?: number;
+      requestId?: string;
+      rateLimit?: { limit?: number; remaining?: number; reset?: number };
+      latency: number;
+      attempts: number;
+    }
+  
+    /**
+     * Request that would have been sent, returned in dry-run mode
+     */
+    export interface DryRunRequest {
+      method: "GET" | "POST" | "PUT" | "DELETE";
+      url: string;
+      headers: Record<string, string>;
+      data?: any;
     }
   
     /**